@@ -1,18 +1,110 @@
-import React, { useState, useCallback, useEffect } from 'react';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
 import Toolbar from './components/Toolbar';
 import GalleryGrid from './components/GalleryGrid';
 import ImageViewer from './components/ImageViewer';
 import GenerationModal from './components/GenerationModal';
+import GenerationQueuePanel from './components/GenerationQueuePanel';
 import AddUrlModal from './components/AddUrlModal';
 import ExportModal from './components/ExportModal';
 import RepoCleanupModal from './components/RepoCleanupModal';
+import RepoRenameModal from './components/RepoRenameModal';
+import AiEditModal from './components/AiEditModal';
 import VisualizerTab from './components/Visualizer/VisualizerTab';
-import { ImageItem } from './types';
+import AlbumSidebar from './components/AlbumSidebar';
+import GalleryFilterBar from './components/GalleryFilterBar';
+import FolderBreadcrumbs from './components/FolderBreadcrumbs';
+import AutoTagModal from './components/AutoTagModal';
+import SyncModal from './components/SyncModal';
+import ImportSummaryModal from './components/ImportSummaryModal';
+import AiSettingsModal from './components/AiSettingsModal';
+import { ImageItem, Album, GalleryQuery, SemanticResults, UrlImport, ImportDuplicatePolicy, ImageEdit, GeneratedImage, GenerationJob } from './types';
 import { v4 as uuidv4 } from 'uuid';
-import { getImagesFromGitHub, convertUrlToBase64Simple } from './services/githubService';
+import { getImageEntriesFromGitHub, fetchSidecar, fetchImageFromGitHub, convertUrlToBase64Simple, GitHubImageEntry } from './services/githubService';
+import { subscribeCredentials, getGitHubToken } from './services/credentials';
 import { analyzeForVisualizer } from './services/geminiService';
+import { subscribeGenerationJobs, subscribeGenerationResults, enqueueGenerations } from './services/generationQueue';
+import { loadImages, persistImageChanges, mergeWithRemote, getRemoteUrl } from './services/imageStore';
+import { loadAlbums, saveAlbums, albumNameToFolder, addToAlbum, removeFromAlbum } from './services/albumStore';
+import { applyGalleryQuery, collectMimeTypes, queryFromSearchParams, queryToSearchParams } from './services/galleryQuery';
+import { indexImages, withEmbeddings, searchImages, findSimilarImages } from './services/semanticSearch';
+import { applySidecar, mergeTags, collectTags } from './services/tags';
+import { SyncResult } from './services/syncEngine';
+import { ImportPlan, needsFingerprint, fingerprintImages, planImport, loadImportPolicy, saveImportPolicy } from './services/importDedupe';
+import { buildLineageTree } from './services/lineage';
 import LoadingSpinner from './components/LoadingSpinner';
 
+// Order `images` by a semantic ranking, dropping anything that did not match
+const rankedImages = (images: ImageItem[], results: SemanticResults): ImageItem[] => {
+  const byId = new Map(images.map(img => [img.id, img]));
+  return results.ranked
+    .map(r => byId.get(r.id))
+    .filter((img): img is ImageItem => !!img);
+};
+
+// Repository the gallery is seeded from on every start
+const DEFAULT_REPO_URL = 'https://github.com/jaymacmac/pics/tree/main/lumina-exports';
+
+// Display an image from downloaded bytes, remembering where it came from
+const withLocalContent = (image: ImageItem, content: { base64: string; mimeType: string }): ImageItem => {
+  const dataUrl = `data:${content.mimeType};base64,${content.base64}`;
+  return {
+    ...image,
+    url: dataUrl,
+    thumbnailUrl: dataUrl,
+    base64Data: content.base64,
+    mimeType: content.mimeType,
+    sourceUrl: image.url
+  };
+};
+
+// Gallery image for a generator result. The style label is only added to the
+// title for variations, to keep plain prompts uncluttered.
+const generatedToImage = (data: GeneratedImage): ImageItem => {
+  const { prompt, style } = data.generation;
+  const label = style && style !== 'Original' ? `${prompt} (${style})` : prompt;
+  const dataUrl = `data:${data.mimeType};base64,${data.base64}`;
+  return {
+    id: uuidv4(),
+    url: dataUrl,
+    thumbnailUrl: dataUrl,
+    title: label.slice(0, 30) + (label.length > 30 ? '...' : ''),
+    description: `Generated from prompt: "${label}"`,
+    createdAt: Date.now(),
+    source: 'generated',
+    base64Data: data.base64,
+    mimeType: data.mimeType,
+    generation: data.generation,
+    parentId: data.parentId
+  };
+};
+
+// Build gallery images from a repo listing. Metadata and private file contents
+// are only downloaded for images that are not in the gallery yet.
+const entriesToImages = async (entries: GitHubImageEntry[], knownUrls: Set<string>): Promise<ImageItem[]> => {
+  const images = await Promise.all(entries.map(async (entry): Promise<ImageItem | null> => {
+    let image: ImageItem = {
+      id: uuidv4(),
+      url: entry.url,
+      thumbnailUrl: entry.url,
+      title: entry.url.split('/').pop()?.split('.')[0] || 'Image',
+      createdAt: Date.now(),
+      source: 'url',
+      folderPath: entry.folder
+    };
+    if (knownUrls.has(entry.url)) return image;
+
+    try {
+      if (entry.isPrivate) image = withLocalContent(image, await fetchImageFromGitHub(entry));
+    } catch (error) {
+      console.error("Failed to download private image:", entry.url, error);
+      return null;
+    }
+    const sidecar = await fetchSidecar(entry);
+    return sidecar ? applySidecar(image, sidecar) : image;
+  }));
+  return images.filter((img): img is ImageItem => !!img);
+};
+
 const App: React.FC = () => {
   const [images, setImages] = useState<ImageItem[]>([]);
   const [selectedImageId, setSelectedImageId] = useState<string | null>(null);
@@ -20,58 +112,199 @@ const App: React.FC = () => {
   // Selection State
   const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
 
+  // Album State
+  const [albums, setAlbums] = useState<Album[]>([]);
+  const [activeAlbumId, setActiveAlbumId] = useState<string | null>(null);
+  const [exportAlbumId, setExportAlbumId] = useState<string | null>(null);
+  const albumsHydratedRef = useRef(false);
+
+  // Search / Filter / Sort State (mirrored in the URL so views can be shared)
+  const [galleryQuery, setGalleryQuery] = useState<GalleryQuery>(
+    () => queryFromSearchParams(new URLSearchParams(window.location.search))
+  );
+
+  // Semantic Search State
+  const [semanticResults, setSemanticResults] = useState<SemanticResults | null>(null);
+  const [isSemanticSearching, setIsSemanticSearching] = useState(false);
+
   // Tab State
   const [activeTab, setActiveTab] = useState<'gallery' | 'visualizer'>('gallery');
 
   const [isGenerationOpen, setIsGenerationOpen] = useState(false);
+  const [generationReferences, setGenerationReferences] = useState<ImageItem[]>([]);
   const [initialGenerationPrompt, setInitialGenerationPrompt] = useState('');
+  const [remixParentId, setRemixParentId] = useState<string | undefined>(undefined);
+  const [generationJobs, setGenerationJobs] = useState<GenerationJob[]>([]);
   const [isAddUrlOpen, setIsAddUrlOpen] = useState(false);
   const [isExportOpen, setIsExportOpen] = useState(false);
   const [isCleanupOpen, setIsCleanupOpen] = useState(false);
+  const [isRenameOpen, setIsRenameOpen] = useState(false);
+  const [aiEditImage, setAiEditImage] = useState<ImageItem | null>(null);
+  const [isAutoTagOpen, setIsAutoTagOpen] = useState(false);
+  const [isSyncOpen, setIsSyncOpen] = useState(false);
+  const [isAiSettingsOpen, setIsAiSettingsOpen] = useState(false);
+  const [importPolicy, setImportPolicy] = useState<ImportDuplicatePolicy>(loadImportPolicy);
+  // Outcome of the last import, shown when it contained duplicates
+  const [importReport, setImportReport] = useState<ImportPlan | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  // Imports keep the gallery visible; only the import buttons wait
+  const [isImporting, setIsImporting] = useState(false);
 
   // Visualizer Tab State (passed down)
   const [visualizerStartingPrompt, setVisualizerStartingPrompt] = useState<string | null>(null);
 
-  // Initial load from GitHub repo
+  // Snapshot of the gallery as last written to IndexedDB (null until hydrated)
+  const persistedImagesRef = useRef<ImageItem[] | null>(null);
+
+  // Initial load: persisted gallery + GitHub repo
   useEffect(() => {
-    const loadDefaultImages = async () => {
-      setIsLoading(true);
+    const loadStoredImages = async (): Promise<ImageItem[]> => {
       try {
-        // Load from the SOURCE repository
-        const repoUrl = 'https://github.com/jaymacmac/pics/tree/main/lumina-exports';
-        const urls = await getImagesFromGitHub(repoUrl);
-        
-        if (urls.length > 0) {
-          const newImages: ImageItem[] = urls.map(url => ({
-            id: uuidv4(),
-            url: url,
-            thumbnailUrl: url,
-            title: url.split('/').pop()?.split('.')[0] || 'Image',
-            createdAt: Date.now(),
-            source: 'url'
-          }));
-          setImages(newImages);
-        }
+        return await loadImages();
       } catch (error) {
-        console.error("Failed to load initial images:", error);
+        console.error("Failed to load saved images:", error);
+        return [];
+      }
+    };
+
+    const hydrate = async () => {
+      setIsLoading(true);
+      try {
+        const [stored, entries] = await Promise.all([
+          loadStoredImages(),
+          getImageEntriesFromGitHub(DEFAULT_REPO_URL).catch(error => {
+            console.error("Failed to load initial images:", error);
+            return [] as GitHubImageEntry[];
+          })
+        ]);
+        const remote = await entriesToImages(entries, new Set(stored.map(getRemoteUrl)));
+
+        // Everything except newly discovered remote images is already on disk
+        persistedImagesRef.current = stored;
+        setImages(prev => [...prev, ...mergeWithRemote(stored, remote)]);
       } finally {
         setIsLoading(false);
       }
     };
 
-    loadDefaultImages();
+    hydrate();
   }, []);
 
-  // File Upload Handler
-  const handleUpload = useCallback((files: FileList) => {
-    Array.from(files).forEach(file => {
+  // A token entered later may unlock a private default repo: load what was missed
+  useEffect(() => {
+    return subscribeCredentials(async () => {
+      const persisted = persistedImagesRef.current;
+      if (!getGitHubToken() || !persisted) return;
+      try {
+        const entries = await getImageEntriesFromGitHub(DEFAULT_REPO_URL);
+        const remote = await entriesToImages(entries, new Set(persisted.map(getRemoteUrl)));
+        setImages(prev => mergeWithRemote(prev, remote));
+      } catch (error) {
+        console.error("Failed to reload repository images:", error);
+      }
+    });
+  }, []);
+
+  // Write gallery changes through to IndexedDB
+  useEffect(() => {
+    const prev = persistedImagesRef.current;
+    if (!prev) return; // Not hydrated yet
+
+    persistedImagesRef.current = images;
+    persistImageChanges(prev, images).catch(error => {
+      console.error("Failed to persist gallery:", error);
+    });
+  }, [images]);
+
+  // Albums are loaded separately so a failure never blocks the gallery.
+  // Saving rewrites the whole store, so it stays off unless the load succeeded:
+  // otherwise the first edit would replace every stored album.
+  useEffect(() => {
+    loadAlbums()
+      .then(stored => {
+        albumsHydratedRef.current = true;
+        setAlbums(prev => [...stored, ...prev]);
+      })
+      .catch(error => {
+        console.error("Failed to load albums:", error);
+        alert("Saved albums could not be loaded. Album changes will not be saved until the app is reloaded.");
+      });
+  }, []);
+
+  useEffect(() => {
+    if (!albumsHydratedRef.current) return;
+    saveAlbums(albums).catch(error => {
+      console.error("Failed to persist albums:", error);
+    });
+  }, [albums]);
+
+  useEffect(() => {
+    const params = queryToSearchParams(galleryQuery, new URLSearchParams(window.location.search));
+    const search = params.toString();
+    const nextUrl = `${window.location.pathname}${search ? `?${search}` : ''}${window.location.hash}`;
+    window.history.replaceState(null, '', nextUrl);
+  }, [galleryQuery]);
+
+  // Fingerprint gallery images in the background, a few at a time. The hashes
+  // are persisted with the images, so imports only compare stored values.
+  const isFingerprintingRef = useRef(false);
+  useEffect(() => {
+    if (isLoading || isFingerprintingRef.current) return;
+    const pending = images.filter(needsFingerprint);
+    if (pending.length === 0) return;
+
+    isFingerprintingRef.current = true;
+    fingerprintImages(pending)
+      .then(done => {
+        const byId = new Map(done.map(img => [img.id, img]));
+        setImages(prev => prev.map(img => {
+          const fingerprinted = byId.get(img.id);
+          if (!fingerprinted || !needsFingerprint(img)) return img;
+          const { contentHash, perceptualHash, fingerprintFailed } = fingerprinted;
+          return { ...img, contentHash, perceptualHash, fingerprintFailed };
+        }));
+      })
+      .finally(() => { isFingerprintingRef.current = false; });
+  }, [images, isLoading]);
+
+  // Shared entry point for user imports: fingerprints the new images, checks
+  // them against the gallery and applies the duplicate policy
+  const importImages = useCallback(async (incoming: ImageItem[]) => {
+    if (incoming.length === 0) return;
+    setIsImporting(true);
+    try {
+      const plan = planImport(await fingerprintImages(incoming), images, importPolicy);
+
+      const updates = new Map<string, ImageItem>();
+      plan.replaced.forEach(img => updates.set(img.id, img));
+
+      setImages(prev => [...plan.added, ...prev.map(img => updates.get(img.id) || img)]);
+      if (plan.duplicates.length > 0) setImportReport(plan);
+    } finally {
+      setIsImporting(false);
+    }
+  }, [images, importPolicy]);
+
+  const handleImportPolicyChange = useCallback((policy: ImportDuplicatePolicy) => {
+    setImportPolicy(policy);
+    saveImportPolicy(policy);
+  }, []);
+
+  const handleImportSkipped = useCallback(() => {
+    if (!importReport) return;
+    const skipped = importReport.skipped.map(match => match.image);
+    setImages(prev => [...skipped, ...prev]);
+    setImportReport(null);
+  }, [importReport]);
+
+  const handleUpload = useCallback(async (files: FileList) => {
+    const readFile = (file: File) => new Promise<ImageItem>((resolve, reject) => {
       const reader = new FileReader();
       reader.onload = (e) => {
         const base64 = e.target?.result as string;
         const base64Data = base64.split(',')[1];
         
-        const newImage: ImageItem = {
+        resolve({
           id: uuidv4(),
           url: base64,
           thumbnailUrl: base64,
@@ -79,55 +312,81 @@ const App: React.FC = () => {
           createdAt: Date.now(),
           source: 'upload',
           base64Data: base64Data,
-          mimeType: file.type // Store mimeType for export
-        };
-        setImages(prev => [newImage, ...prev]);
+          mimeType: file.type, // Store mimeType for export
+          fileSize: file.size
+        });
       };
+      reader.onerror = () => reject(reader.error);
       reader.readAsDataURL(file);
     });
-  }, []);
+
+    try {
+      await importImages(await Promise.all(Array.from(files).map(readFile)));
+    } catch (error) {
+      console.error("Upload failed:", error);
+    }
+  }, [importImages]);
 
   // Add URL Handler (Single or Bulk)
-  const handleAddUrl = useCallback((urls: string[]) => {
-    const newImages: ImageItem[] = urls.map(url => ({
-      id: uuidv4(),
-      url: url,
-      thumbnailUrl: url,
-      title: url.split('/').pop()?.split('.')[0] || 'Image from URL',
-      description: 'Added via URL import',
-      createdAt: Date.now(),
-      source: 'url'
-    }));
+  const handleAddUrl = useCallback((imports: UrlImport[]) => {
+    const newImages: ImageItem[] = imports.map(({ url, sidecar, folderPath, content }) => {
+      let image: ImageItem = {
+        id: uuidv4(),
+        url: url,
+        thumbnailUrl: url,
+        title: url.split('/').pop()?.split('.')[0] || 'Image from URL',
+        description: 'Added via URL import',
+        createdAt: Date.now(),
+        source: 'url',
+        folderPath
+      };
+      if (content) image = withLocalContent(image, content);
+      return sidecar ? applySidecar(image, sidecar) : image;
+    });
     
-    setImages(prev => [...newImages, ...prev]);
-  }, []);
+    importImages(newImages).catch(error => console.error("Import failed:", error));
+  }, [importImages]);
 
   // AI Generation Handler
-  const handleImageGenerated = useCallback((data: { base64: string, prompt: string, mimeType: string }) => {
-    const fullDataUrl = `data:${data.mimeType};base64,${data.base64}`;
-    const newImage: ImageItem = {
-      id: uuidv4(),
-      url: fullDataUrl,
-      thumbnailUrl: fullDataUrl,
-      title: data.prompt.slice(0, 30) + (data.prompt.length > 30 ? '...' : ''),
-      description: `Generated from prompt: "${data.prompt}"`,
-      createdAt: Date.now(),
-      source: 'generated',
-      base64Data: data.base64,
-      mimeType: data.mimeType
-    };
+  const handleImageGenerated = useCallback((data: GeneratedImage) => {
+    const newImage = generatedToImage(data);
     setImages(prev => [newImage, ...prev]);
-    
-    // Automatically close the Viewer if it was open (Remix flow) to show the main gallery
-    setSelectedImageId(null);
   }, []);
 
+  // Results of the background generation queue land at the top of the gallery
+  useEffect(() => subscribeGenerationJobs(setGenerationJobs), []);
+  useEffect(() => subscribeGenerationResults(handleImageGenerated), [handleImageGenerated]);
+
   // Handle "Remix" from ImageViewer
-  const handleGenerateWithPrompt = useCallback((prompt: string) => {
+  const handleGenerateWithPrompt = useCallback((prompt: string, parentId?: string) => {
     setInitialGenerationPrompt(prompt);
+    setRemixParentId(parentId);
     setIsGenerationOpen(true);
   }, []);
 
+  const handleCloseGeneration = useCallback(() => {
+    setIsGenerationOpen(false);
+    setInitialGenerationPrompt(''); // Clear prompt on close
+    setRemixParentId(undefined);
+    setGenerationReferences([]);
+  }, []);
+
+  // "Use as Reference": open the generator with the selection, in gallery order
+  const handleGenerateFromSelected = useCallback(() => {
+    setGenerationReferences(images.filter(img => selectedIds.has(img.id)));
+    setIsGenerationOpen(true);
+  }, [images, selectedIds]);
+
+  // "Regenerate" from ImageViewer: same record, queued like any other job.
+  // The result is a sibling of the original, not its child.
+  const handleRegenerate = useCallback((image: ImageItem) => {
+    // A reference deleted from the gallery since makes the job fail with a clear error
+    const referenceImages = (image.generation!.references || [])
+      .map(ref => images.find(img => img.id === ref.imageId))
+      .filter((img): img is ImageItem => !!img);
+    enqueueGenerations([{ generation: image.generation!, parentId: image.parentId, referenceImages }]);
+  }, [images]);
+
   // Handle "Visualize in 3D" from ImageViewer
   const handleVisualize = useCallback(async (image: ImageItem) => {
     try {
@@ -154,6 +413,166 @@ const App: React.FC = () => {
     }
   }, []);
 
+  // Album Logic
+  const handleCreateAlbum = useCallback((name: string) => {
+    const album: Album = {
+      id: uuidv4(),
+      name,
+      imageIds: [],
+      githubPath: albumNameToFolder(name),
+      createdAt: Date.now()
+    };
+    setAlbums(prev => [...prev, album]);
+  }, []);
+
+  const handleUpdateAlbum = useCallback((id: string, changes: Partial<Pick<Album, 'name' | 'githubPath'>>) => {
+    setAlbums(prev => prev.map(album => album.id === id ? { ...album, ...changes } : album));
+  }, []);
+
+  const handleDeleteAlbum = useCallback((id: string) => {
+    setAlbums(prev => prev.filter(album => album.id !== id));
+    setActiveAlbumId(prev => prev === id ? null : prev);
+  }, []);
+
+  const handleAddSelectedToAlbum = useCallback((albumId: string) => {
+    setAlbums(prev => prev.map(album => album.id === albumId ? addToAlbum(album, selectedIds) : album));
+    setSelectedIds(new Set());
+  }, [selectedIds]);
+
+  const handleRemoveSelectedFromAlbum = useCallback(() => {
+    if (!activeAlbumId) return;
+    setAlbums(prev => prev.map(album => album.id === activeAlbumId ? removeFromAlbum(album, selectedIds) : album));
+    setSelectedIds(new Set());
+  }, [activeAlbumId, selectedIds]);
+
+  const handleSelectAlbum = useCallback((id: string | null) => {
+    setActiveAlbumId(id);
+    setSelectedIds(new Set());
+    setSemanticResults(null);
+  }, []);
+
+  const handleExportAlbum = useCallback((id: string) => {
+    setExportAlbumId(id);
+    setIsExportOpen(true);
+  }, []);
+
+  // Cache analysis on the image so it is searchable and survives reloads
+  const handleAnalysisComplete = useCallback((id: string, analysis: string) => {
+    setImages(prev => prev.map(img => img.id === id ? { ...img, analysis } : img));
+  }, []);
+
+  // Apply what a GitHub sync pulled down to the local gallery
+  const handleSynced = useCallback((result: SyncResult) => {
+    const replaced = new Map(result.replaced.map(img => [img.id, img]));
+    const removed = new Set(result.removedIds);
+
+    setImages(prev => [
+      ...result.added,
+      ...prev
+        .filter(img => !removed.has(img.id))
+        .map(img => replaced.get(img.id) || img)
+    ]);
+    if (removed.size > 0) {
+      setAlbums(prev => prev.map(album => removeFromAlbum(album, removed)));
+    }
+  }, []);
+
+  // Tag Logic
+  const handleUpdateTags = useCallback((id: string, tags: string[]) => {
+    setImages(prev => prev.map(img => img.id === id ? { ...img, tags } : img));
+  }, []);
+
+  const handleUpdateEdits = useCallback((id: string, edits: ImageEdit[]) => {
+    setImages(prev => prev.map(img => img.id === id ? { ...img, edits: edits.length > 0 ? edits : undefined } : img));
+  }, []);
+
+  // "Save as new image" from the viewer's editor: the baked result, original left as is
+  const handleSaveEdited = useCallback((source: ImageItem, content: { base64: string; mimeType: string }) => {
+    const dataUrl = `data:${content.mimeType};base64,${content.base64}`;
+    const edited: ImageItem = {
+      id: uuidv4(),
+      url: dataUrl,
+      thumbnailUrl: dataUrl,
+      title: `${source.title} (edited)`,
+      description: source.description,
+      createdAt: Date.now(),
+      source: source.source,
+      base64Data: content.base64,
+      mimeType: content.mimeType,
+      tags: source.tags,
+      folderPath: source.folderPath
+    };
+    setImages(prev => [edited, ...prev]);
+    setSelectedImageId(edited.id);
+  }, []);
+
+  // Result of an AI edit: a new image linked to the one it was made from
+  const handleAiEdited = useCallback((parent: ImageItem, content: { base64: string; mimeType: string }, instruction: string) => {
+    const dataUrl = `data:${content.mimeType};base64,${content.base64}`;
+    const edited: ImageItem = {
+      id: uuidv4(),
+      url: dataUrl,
+      thumbnailUrl: dataUrl,
+      title: `${parent.title} (AI edit)`,
+      description: `Edited with instruction: "${instruction}"`,
+      createdAt: Date.now(),
+      source: 'generated',
+      base64Data: content.base64,
+      mimeType: content.mimeType,
+      tags: parent.tags,
+      folderPath: parent.folderPath,
+      parentId: parent.id
+    };
+    setImages(prev => [edited, ...prev]);
+    setSelectedImageId(edited.id);
+  }, []);
+
+  // Apply reviewed auto-tag suggestions (merged with any existing tags)
+  const handleApplyAutoTags = useCallback((tagsById: Map<string, string[]>) => {
+    setImages(prev => prev.map(img => {
+      const added = tagsById.get(img.id);
+      return added ? { ...img, tags: mergeTags(img.tags, added) } : img;
+    }));
+  }, []);
+
+  // Semantic Search Logic
+  // Embeds any images that are missing a fresh vector and writes them back to state
+  const ensureIndexed = useCallback(async (): Promise<ImageItem[]> => {
+    const updates = await indexImages(images);
+    if (updates.size === 0) return images;
+    setImages(prev => withEmbeddings(prev, updates));
+    return withEmbeddings(images, updates);
+  }, [images]);
+
+  const handleSemanticSearch = useCallback(async (text: string) => {
+    if (!text.trim()) return;
+    setIsSemanticSearching(true);
+    try {
+      const indexed = await ensureIndexed();
+      setSemanticResults(await searchImages(text, indexed));
+    } catch (e) {
+      console.error("Semantic search failed:", e);
+      alert("Smart search failed. Please check your connection and try again.");
+    } finally {
+      setIsSemanticSearching(false);
+    }
+  }, [ensureIndexed]);
+
+  const handleFindSimilar = useCallback(async (image: ImageItem) => {
+    try {
+      setIsLoading(true);
+      const indexed = await ensureIndexed();
+      const source = indexed.find(img => img.id === image.id) || image;
+      setSemanticResults(findSimilarImages(source, indexed));
+      setSelectedImageId(null); // Close viewer to show results
+    } catch (e) {
+      console.error("Find similar failed:", e);
+      alert("Could not find similar images.");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [ensureIndexed]);
+
   // Selection Logic
   const handleToggleSelection = useCallback((id: string) => {
     setSelectedIds(prev => {
@@ -176,6 +595,7 @@ const App: React.FC = () => {
     
     if (window.confirm(`Are you sure you want to delete ${selectedIds.size} images?`)) {
       setImages(prev => prev.filter(img => !selectedIds.has(img.id)));
+      setAlbums(prev => prev.map(album => removeFromAlbum(album, selectedIds)));
       setSelectedIds(new Set());
     }
   }, [selectedIds]);
@@ -183,6 +603,7 @@ const App: React.FC = () => {
   const handleDeleteSingle = useCallback((id: string) => {
     if (window.confirm("Are you sure you want to delete this image?")) {
       setImages(prev => prev.filter(img => img.id !== id));
+      setAlbums(prev => prev.map(album => removeFromAlbum(album, [id])));
       setSelectedImageId(null);
       // Also remove from selection if it was there
       setSelectedIds(prev => {
@@ -193,41 +614,69 @@ const App: React.FC = () => {
     }
   }, []);
 
+  // Images visible in the gallery (All or the active album)
+  const activeAlbum = albums.find(album => album.id === activeAlbumId) || null;
+  const albumImages = activeAlbum
+    ? images.filter(img => activeAlbum.imageIds.includes(img.id))
+    : images;
+  const visibleImages = semanticResults
+    ? rankedImages(applyGalleryQuery(albumImages, { ...galleryQuery, text: '' }), semanticResults)
+    : applyGalleryQuery(albumImages, galleryQuery);
+  // New images don't join albums or semantic results, so their placeholders are only shown in the full gallery
+  const pendingGenerations = generationJobs.filter(job => job.status === 'queued' || job.status === 'running' || job.status === 'failed');
+  const semanticScores = semanticResults
+    ? new Map(semanticResults.ranked.map(r => [r.id, r.score]))
+    : undefined;
+
   // Navigation Logic
-  const getSelectedIndex = () => images.findIndex(img => img.id === selectedImageId);
+  const getSelectedIndex = () => visibleImages.findIndex(img => img.id === selectedImageId);
   const selectedIndex = getSelectedIndex();
-  const selectedImage = selectedIndex !== -1 ? images[selectedIndex] : null;
+  const selectedImage = selectedIndex !== -1 ? visibleImages[selectedIndex] : null;
 
   const handleNext = () => {
-    if (selectedIndex < images.length - 1) {
-      setSelectedImageId(images[selectedIndex + 1].id);
+    if (selectedIndex < visibleImages.length - 1) {
+      setSelectedImageId(visibleImages[selectedIndex + 1].id);
     }
   };
 
   const handlePrev = () => {
     if (selectedIndex > 0) {
-      setSelectedImageId(images[selectedIndex - 1].id);
+      setSelectedImageId(visibleImages[selectedIndex - 1].id);
     }
   };
 
-  // Determine which images to export (Selected OR All)
-  const imagesToExport = selectedIds.size > 0 
-    ? images.filter(img => selectedIds.has(img.id))
-    : images;
+  // Determine which images to export (Album from sidebar, Selected, OR everything visible)
+  const exportAlbum = albums.find(album => album.id === exportAlbumId) || null;
+  const exportScopeAlbum = exportAlbum || (selectedIds.size === 0 ? activeAlbum : null);
+  const imagesToExport = exportAlbum
+    ? images.filter(img => exportAlbum.imageIds.includes(img.id))
+    : selectedIds.size > 0
+      ? images.filter(img => selectedIds.has(img.id))
+      : visibleImages;
 
   return (
     <div className="min-h-screen flex flex-col bg-gray-950 text-gray-100">
       <Toolbar 
         onUpload={handleUpload}
+        isImporting={isImporting}
         onOpenGenerate={() => setIsGenerationOpen(true)}
         onOpenAddUrl={() => setIsAddUrlOpen(true)}
         onOpenExport={() => setIsExportOpen(true)}
+        onOpenSync={() => setIsSyncOpen(true)}
         onOpenCleanup={() => setIsCleanupOpen(true)}
+        onOpenRename={() => setIsRenameOpen(true)}
         selectedCount={selectedIds.size}
         onDeselectAll={handleDeselectAll}
         onDeleteSelected={handleDeleteSelected}
         activeTab={activeTab}
         onTabChange={setActiveTab}
+        albums={albums}
+        activeAlbumId={activeAlbumId}
+        onAddSelectedToAlbum={handleAddSelectedToAlbum}
+        onRemoveSelectedFromAlbum={handleRemoveSelectedFromAlbum}
+        onOpenAutoTag={() => setIsAutoTagOpen(true)}
+        onGenerateFromSelected={handleGenerateFromSelected}
+        onOpenAiSettings={() => setIsAiSettingsOpen(true)}
       />
 
       <main className="flex-1 container mx-auto max-w-7xl relative">
@@ -238,12 +687,45 @@ const App: React.FC = () => {
                 <span className="ml-2 text-gray-400">Loading...</span>
             </div>
           ) : (
-              <GalleryGrid 
-                images={images} 
-                onImageClick={(img) => setSelectedImageId(img.id)}
-                selectedIds={selectedIds}
-                onToggleSelection={handleToggleSelection}
+            <div className="flex flex-col md:flex-row">
+              <AlbumSidebar
+                albums={albums}
+                totalCount={images.length}
+                activeAlbumId={activeAlbumId}
+                onSelectAlbum={handleSelectAlbum}
+                onCreateAlbum={handleCreateAlbum}
+                onUpdateAlbum={handleUpdateAlbum}
+                onDeleteAlbum={handleDeleteAlbum}
+                onExportAlbum={handleExportAlbum}
               />
+              <div className="flex-1 min-w-0">
+                <GalleryFilterBar
+                  query={galleryQuery}
+                  onChange={setGalleryQuery}
+                  availableMimeTypes={collectMimeTypes(albumImages)}
+                  availableTags={collectTags(albumImages)}
+                  resultCount={visibleImages.length}
+                  totalCount={albumImages.length}
+                  semanticResults={semanticResults}
+                  isSemanticSearching={isSemanticSearching}
+                  onSemanticSearch={handleSemanticSearch}
+                  onClearSemantic={() => setSemanticResults(null)}
+                />
+                <FolderBreadcrumbs
+                  images={albumImages}
+                  folder={galleryQuery.folder}
+                  onChange={(folder) => setGalleryQuery(prev => ({ ...prev, folder }))}
+                />
+                <GalleryGrid 
+                  images={visibleImages} 
+                  onImageClick={(img) => setSelectedImageId(img.id)}
+                  selectedIds={selectedIds}
+                  onToggleSelection={handleToggleSelection}
+                  scores={semanticScores}
+                  pendingJobs={activeAlbumId || semanticResults ? [] : pendingGenerations}
+                />
+              </div>
+            </div>
           )
         ) : (
           <VisualizerTab initialPrompt={visualizerStartingPrompt} />
@@ -254,27 +736,41 @@ const App: React.FC = () => {
       {selectedImage && activeTab === 'gallery' && (
         <ImageViewer
           image={selectedImage}
-          isOpen={!!selectedImage}
+          isOpen={!!selectedImage && !aiEditImage}
           onClose={() => setSelectedImageId(null)}
           onNext={handleNext}
           onPrev={handlePrev}
-          hasNext={selectedIndex < images.length - 1}
+          hasNext={selectedIndex < visibleImages.length - 1}
           hasPrev={selectedIndex > 0}
           onDelete={() => handleDeleteSingle(selectedImage.id)}
           onGenerate={handleGenerateWithPrompt}
+          onRegenerate={handleRegenerate}
           onVisualize={handleVisualize}
+          onAnalysisComplete={handleAnalysisComplete}
+          onFindSimilar={handleFindSimilar}
+          onUpdateTags={handleUpdateTags}
+          onUpdateEdits={handleUpdateEdits}
+          onSaveEdited={handleSaveEdited}
+          onAiEdit={setAiEditImage}
+          lineage={buildLineageTree(images, selectedImage.id)}
+          onOpenImage={setSelectedImageId}
         />
       )}
 
+      <GenerationQueuePanel jobs={generationJobs} />
+
       {/* Generation Modal */}
       <GenerationModal 
         isOpen={isGenerationOpen}
-        onClose={() => {
-            setIsGenerationOpen(false);
-            setInitialGenerationPrompt(''); // Clear prompt on close
-        }}
-        onImageGenerated={handleImageGenerated}
+        onClose={handleCloseGeneration}
         initialPrompt={initialGenerationPrompt}
+        parentId={remixParentId}
+        referenceImages={generationReferences}
+        images={images}
+        onOpenImage={(id) => {
+            handleCloseGeneration();
+            setSelectedImageId(id);
+        }}
       />
 
       {/* Add URL Modal */}
@@ -287,8 +783,36 @@ const App: React.FC = () => {
       {/* Export Modal */}
       <ExportModal
         isOpen={isExportOpen}
-        onClose={() => setIsExportOpen(false)}
+        onClose={() => {
+            setIsExportOpen(false);
+            setExportAlbumId(null);
+        }}
+        images={imagesToExport}
+        defaultFolderPath={exportScopeAlbum?.githubPath}
+        scopeLabel={exportScopeAlbum?.name}
+      />
+
+      {/* Sync Modal */}
+      <SyncModal
+        isOpen={isSyncOpen}
+        onClose={() => setIsSyncOpen(false)}
         images={imagesToExport}
+        defaultFolderPath={exportScopeAlbum?.githubPath}
+        onSynced={handleSynced}
+      />
+
+      {/* Auto-tag Modal */}
+      <AutoTagModal
+        isOpen={isAutoTagOpen}
+        onClose={() => setIsAutoTagOpen(false)}
+        images={images.filter(img => selectedIds.has(img.id))}
+        onApply={handleApplyAutoTags}
+      />
+
+      {/* AI Settings Modal */}
+      <AiSettingsModal
+        isOpen={isAiSettingsOpen}
+        onClose={() => setIsAiSettingsOpen(false)}
       />
 
       {/* Repo Cleanup Modal */}
@@ -296,6 +820,26 @@ const App: React.FC = () => {
         isOpen={isCleanupOpen}
         onClose={() => setIsCleanupOpen(false)}
       />
+
+      <AiEditModal
+        image={aiEditImage}
+        onClose={() => setAiEditImage(null)}
+        onSave={handleAiEdited}
+      />
+
+      {/* Repo Rename Modal */}
+      <RepoRenameModal
+        isOpen={isRenameOpen}
+        onClose={() => setIsRenameOpen(false)}
+      />
+
+      <ImportSummaryModal
+        plan={importReport}
+        onClose={() => setImportReport(null)}
+        policy={importPolicy}
+        onPolicyChange={handleImportPolicyChange}
+        onImportSkipped={handleImportSkipped}
+      />
     </div>
   );
 };
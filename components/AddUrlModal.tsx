@@ -1,26 +1,106 @@
 import React, { useState, useEffect } from 'react';
-import { XMarkIcon, LinkIcon, CloudArrowDownIcon } from '@heroicons/react/24/outline';
-import { isGitHubUrl, getImagesFromGitHub } from '../services/githubService';
+import { XMarkIcon, LinkIcon, CloudArrowDownIcon, FolderIcon } from '@heroicons/react/24/outline';
+import { isGitHubUrl, getImageEntriesFromGitHub, fetchSidecar, fetchImageFromGitHub, GitHubImageEntry } from '../services/githubService';
+import { UrlImport } from '../types';
+import GitHubCredentialsPanel from './GitHubCredentialsPanel';
 
 interface AddUrlModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onAdd: (urls: string[]) => void;
+  onAdd: (imports: UrlImport[]) => void;
 }
 
+// Image counts per folder of a recursive scan, sorted by path
+const groupByFolder = (entries: GitHubImageEntry[]): { folder: string; count: number }[] => {
+  const counts = new Map<string, number>();
+  entries.forEach(entry => counts.set(entry.folder, (counts.get(entry.folder) || 0) + 1));
+  return Array.from(counts.entries())
+    .map(([folder, count]) => ({ folder, count }))
+    .sort((a, b) => a.folder.localeCompare(b.folder, undefined, { numeric: true }));
+};
+
 const AddUrlModal: React.FC<AddUrlModalProps> = ({ isOpen, onClose, onAdd }) => {
   const [url, setUrl] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [statusMessage, setStatusMessage] = useState<string | null>(null);
   const [isGithub, setIsGithub] = useState(false);
+  const [includeSubfolders, setIncludeSubfolders] = useState(false);
+  // Result of a recursive scan, waiting for the user to pick folders
+  const [scanned, setScanned] = useState<GitHubImageEntry[] | null>(null);
+  const [selectedFolders, setSelectedFolders] = useState<Set<string>>(new Set());
 
   useEffect(() => {
     setIsGithub(isGitHubUrl(url));
     setStatusMessage(null);
-  }, [url]);
+    setScanned(null);
+  }, [url, includeSubfolders]);
 
   if (!isOpen) return null;
 
+  const importEntries = async (entries: GitHubImageEntry[]) => {
+    const withSidecars = entries.filter(entry => entry.sidecarUrl);
+    if (withSidecars.length > 0) {
+      setStatusMessage(`Reading metadata for ${withSidecars.length} images...`);
+    }
+    const sidecars = new Map<string, UrlImport['sidecar']>();
+    await Promise.all(withSidecars.map(async entry => {
+      const sidecar = await fetchSidecar(entry);
+      if (sidecar) sidecars.set(entry.url, sidecar);
+    }));
+
+    // Private repo files can't be shown from their URL, so download them now
+    const imports: UrlImport[] = [];
+    let failed = 0;
+    for (let i = 0; i < entries.length; i++) {
+      const entry = entries[i];
+      const item: UrlImport = { url: entry.url, sidecar: sidecars.get(entry.url), folderPath: entry.folder };
+      if (entry.isPrivate) {
+        setStatusMessage(`Downloading private image ${i + 1}/${entries.length}...`);
+        try {
+          item.content = await fetchImageFromGitHub(entry);
+        } catch (error) {
+          console.error(error);
+          failed++;
+          continue;
+        }
+      }
+      imports.push(item);
+    }
+
+    onAdd(imports);
+    setStatusMessage(`Found and added ${imports.length} images!${failed > 0 ? ` (${failed} failed to download)` : ''}`);
+
+    // Small delay to let user read success message
+    setTimeout(() => {
+        setUrl('');
+        setStatusMessage(null);
+        setScanned(null);
+        setIsLoading(false);
+        onClose();
+    }, 1500);
+  };
+
+  const handleImportSelected = async () => {
+    if (!scanned) return;
+    setIsLoading(true);
+    try {
+      await importEntries(scanned.filter(entry => selectedFolders.has(entry.folder)));
+    } catch (error) {
+      console.error(error);
+      setStatusMessage("Failed to process URL.");
+      setIsLoading(false);
+    }
+  };
+
+  const toggleFolder = (folder: string) => {
+    setSelectedFolders(prev => {
+      const next = new Set(prev);
+      if (next.has(folder)) next.delete(folder);
+      else next.add(folder);
+      return next;
+    });
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!url.trim()) return;
@@ -31,28 +111,29 @@ const AddUrlModal: React.FC<AddUrlModalProps> = ({ isOpen, onClose, onAdd }) =>
     try {
       if (isGithub) {
         setStatusMessage("Scanning GitHub repository for images...");
-        const images = await getImagesFromGitHub(url);
+        const entries = await getImageEntriesFromGitHub(url, { recursive: includeSubfolders });
         
-        if (images.length === 0) {
+        if (entries.length === 0) {
           setStatusMessage("No images found in this location.");
           setIsLoading(false);
           return;
         }
 
-        onAdd(images);
-        setStatusMessage(`Found and added ${images.length} images!`);
-        
-        // Small delay to let user read success message
-        setTimeout(() => {
-            setUrl('');
-            setStatusMessage(null);
-            setIsLoading(false);
-            onClose();
-        }, 1500);
+        // Several folders found: let the user choose before importing
+        const folders = groupByFolder(entries);
+        if (folders.length > 1) {
+          setScanned(entries);
+          setSelectedFolders(new Set(folders.map(f => f.folder)));
+          setStatusMessage(null);
+          setIsLoading(false);
+          return;
+        }
+
+        await importEntries(entries);
 
       } else {
         // Standard URL
-        onAdd([url.trim()]);
+        onAdd([{ url: url.trim() }]);
         setUrl('');
         setIsLoading(false);
         onClose();
@@ -93,11 +174,45 @@ const AddUrlModal: React.FC<AddUrlModalProps> = ({ isOpen, onClose, onAdd }) =>
             />
             {isGithub && (
                <p className="text-xs text-gray-500 mt-2">
-                 We'll scan this GitHub page and import all image files found in the folder.
+                 We'll scan this GitHub page and import all image files found in the folder. Private repos need a token.
                </p>
             )}
           </div>
 
+          {isGithub && <GitHubCredentialsPanel />}
+
+          {isGithub && (
+            <label className="flex items-center gap-2 text-sm text-gray-400 cursor-pointer select-none">
+              <input
+                type="checkbox"
+                checked={includeSubfolders}
+                onChange={(e) => setIncludeSubfolders(e.target.checked)}
+                disabled={isLoading}
+                className="rounded border-gray-700 bg-gray-950 text-purple-600 focus:ring-purple-500"
+              />
+              Include subfolders
+            </label>
+          )}
+
+          {scanned && (
+            <div className="bg-gray-950 border border-gray-800 rounded-xl p-3 max-h-60 overflow-y-auto space-y-1">
+              <p className="text-xs text-gray-500 mb-2">Choose which folders to import:</p>
+              {groupByFolder(scanned).map(({ folder, count }) => (
+                <label key={folder} className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer select-none p-1 rounded hover:bg-gray-900">
+                  <input
+                    type="checkbox"
+                    checked={selectedFolders.has(folder)}
+                    onChange={() => toggleFolder(folder)}
+                    className="rounded border-gray-700 bg-gray-950 text-purple-600 focus:ring-purple-500"
+                  />
+                  <FolderIcon className="w-4 h-4 text-gray-500 shrink-0" />
+                  <span className="truncate flex-1">{folder || '(repository root)'}</span>
+                  <span className="text-xs text-gray-500">{count}</span>
+                </label>
+              ))}
+            </div>
+          )}
+
           {statusMessage && (
             <div className={`text-sm ${statusMessage.includes('Found') ? 'text-green-400' : statusMessage.includes('No') || statusMessage.includes('Failed') ? 'text-red-400' : 'text-blue-400'} animate-pulse`}>
               {statusMessage}
@@ -105,20 +220,31 @@ const AddUrlModal: React.FC<AddUrlModalProps> = ({ isOpen, onClose, onAdd }) =>
           )}
 
           <div className="flex justify-end pt-2">
-            <button
-              type="submit"
-              disabled={!url.trim() || isLoading}
-              className={`
-                px-6 py-2.5 rounded-xl font-medium text-white shadow-lg transition-all
-                ${isGithub 
-                    ? 'bg-purple-600 hover:bg-purple-500 shadow-purple-900/30' 
-                    : 'bg-blue-600 hover:bg-blue-500 shadow-blue-900/30'
-                }
-                disabled:opacity-50 disabled:cursor-not-allowed
-              `}
-            >
-              {isLoading ? 'Processing...' : (isGithub ? 'Import All Images' : 'Add Image')}
-            </button>
+            {scanned ? (
+              <button
+                type="button"
+                onClick={handleImportSelected}
+                disabled={selectedFolders.size === 0 || isLoading}
+                className="px-6 py-2.5 rounded-xl font-medium text-white shadow-lg transition-all bg-purple-600 hover:bg-purple-500 shadow-purple-900/30 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isLoading ? 'Processing...' : `Import ${scanned.filter(entry => selectedFolders.has(entry.folder)).length} Images`}
+              </button>
+            ) : (
+              <button
+                type="submit"
+                disabled={!url.trim() || isLoading}
+                className={`
+                  px-6 py-2.5 rounded-xl font-medium text-white shadow-lg transition-all
+                  ${isGithub 
+                      ? 'bg-purple-600 hover:bg-purple-500 shadow-purple-900/30' 
+                      : 'bg-blue-600 hover:bg-blue-500 shadow-blue-900/30'
+                  }
+                  disabled:opacity-50 disabled:cursor-not-allowed
+                `}
+              >
+                {isLoading ? 'Processing...' : (isGithub ? 'Import All Images' : 'Add Image')}
+              </button>
+            )}
           </div>
         </form>
       </div>
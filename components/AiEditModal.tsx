@@ -0,0 +1,303 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { XMarkIcon, SparklesIcon, PaintBrushIcon, TrashIcon, ArrowPathIcon } from '@heroicons/react/24/outline';
+import { ImageItem } from '../types';
+import { editImage } from '../services/geminiService';
+import { loadEditSource, renderEdits, canvasToImageData } from '../services/imageEdits';
+
+interface AiEditModalProps {
+  // The image being edited, null when closed
+  image: ImageItem | null;
+  onClose: () => void;
+  onSave: (parent: ImageItem, result: { base64: string; mimeType: string }, instruction: string) => void;
+}
+
+type ImageData64 = { base64: string; mimeType: string };
+
+const toDataUrl = (data: ImageData64) => `data:${data.mimeType};base64,${data.base64}`;
+
+// Black everywhere except the painted strokes, which become white
+const buildMask = (strokes: HTMLCanvasElement): ImageData64 => {
+  const white = document.createElement('canvas');
+  white.width = strokes.width;
+  white.height = strokes.height;
+  const whiteCtx = white.getContext('2d')!;
+  whiteCtx.drawImage(strokes, 0, 0);
+  whiteCtx.globalCompositeOperation = 'source-in';
+  whiteCtx.fillStyle = '#fff';
+  whiteCtx.fillRect(0, 0, white.width, white.height);
+
+  const mask = document.createElement('canvas');
+  mask.width = strokes.width;
+  mask.height = strokes.height;
+  const maskCtx = mask.getContext('2d')!;
+  maskCtx.fillStyle = '#000';
+  maskCtx.fillRect(0, 0, mask.width, mask.height);
+  maskCtx.drawImage(white, 0, 0);
+  return canvasToImageData(mask, 'image/png');
+};
+
+const AiEditModal: React.FC<AiEditModalProps> = ({ image, onClose, onSave }) => {
+  // The picture as shown in the viewer (viewer edits applied), sent as the source
+  const [source, setSource] = useState<ImageData64 | null>(null);
+  const [sourceSize, setSourceSize] = useState({ width: 1, height: 1 });
+  const [instruction, setInstruction] = useState('');
+  const [usePro, setUsePro] = useState(false);
+  const [isPainting, setIsPainting] = useState(true);
+  const [brushSize, setBrushSize] = useState(40);
+  const [hasMask, setHasMask] = useState(false);
+  const [result, setResult] = useState<ImageData64 | null>(null);
+  const [comparePosition, setComparePosition] = useState(50);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const maskCanvasRef = useRef<HTMLCanvasElement>(null);
+  const lastPointRef = useRef<{ x: number; y: number } | null>(null);
+
+  // Reset and load the source whenever a new image is opened
+  useEffect(() => {
+    if (!image) return;
+    setSource(null);
+    setInstruction('');
+    setResult(null);
+    setHasMask(false);
+    setError(null);
+    setIsGenerating(false);
+
+    let cancelled = false;
+    loadEditSource(image)
+      .then(original => {
+        if (cancelled) return;
+        const rendered = renderEdits(original, image.edits || []);
+        setSourceSize({ width: rendered.width, height: rendered.height });
+        setSource(canvasToImageData(rendered, image.mimeType));
+      })
+      .catch(err => {
+        console.error("Failed to load image for AI edit", err);
+        if (!cancelled) setError("Could not read this image's pixels (the host may block cross-origin access).");
+      });
+    return () => { cancelled = true; };
+  }, [image?.id]);
+
+  if (!image) return null;
+
+  // Pointer position in mask pixels
+  const toCanvasPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = e.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    return {
+      x: (e.clientX - rect.left) * (canvas.width / rect.width),
+      y: (e.clientY - rect.top) * (canvas.height / rect.height),
+    };
+  };
+
+  const paintTo = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const ctx = e.currentTarget.getContext('2d');
+    if (!ctx || !lastPointRef.current) return;
+    const point = toCanvasPoint(e);
+    // Brush size is in screen pixels, so it feels the same at any image size
+    const scale = e.currentTarget.width / e.currentTarget.getBoundingClientRect().width;
+    ctx.strokeStyle = 'rgba(239, 68, 68, 0.6)';
+    ctx.lineWidth = brushSize * scale;
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.beginPath();
+    ctx.moveTo(lastPointRef.current.x, lastPointRef.current.y);
+    ctx.lineTo(point.x, point.y);
+    ctx.stroke();
+    lastPointRef.current = point;
+    setHasMask(true);
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!isPainting || result) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    lastPointRef.current = toCanvasPoint(e);
+    paintTo(e);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (lastPointRef.current) paintTo(e);
+  };
+
+  const handlePointerUp = () => {
+    lastPointRef.current = null;
+  };
+
+  const clearMask = () => {
+    const canvas = maskCanvasRef.current;
+    canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+    setHasMask(false);
+  };
+
+  const handleGenerate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!source || !instruction.trim()) return;
+    setIsGenerating(true);
+    setError(null);
+    try {
+      const mask = hasMask && maskCanvasRef.current ? buildMask(maskCanvasRef.current) : undefined;
+      const edited = await editImage(source, instruction.trim(), { mask, usePro });
+      setResult(edited);
+      setComparePosition(50);
+    } catch (err: any) {
+      setError(err.message || 'The edit failed. Please try again.');
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const handleSave = () => {
+    if (!result) return;
+    onSave(image, result, instruction.trim());
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black/80 backdrop-blur-sm p-4 animate-fade-in">
+      <div className="bg-gray-900 border border-gray-700 rounded-2xl w-full max-w-4xl shadow-2xl overflow-hidden flex flex-col max-h-[95vh] animate-scale-in">
+        <div className="p-4 border-b border-gray-800 flex justify-between items-center bg-gray-900/50">
+          <h3 className="text-white font-semibold flex items-center gap-2">
+            <SparklesIcon className="w-5 h-5 text-purple-500" />
+            AI Edit: <span className="text-gray-400 font-normal truncate max-w-xs">{image.title}</span>
+          </h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-white transition-colors">
+            <XMarkIcon className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4 overflow-y-auto">
+          <div className="relative mx-auto bg-gray-950 rounded-lg overflow-hidden flex items-center justify-center" style={{ maxHeight: '60vh' }}>
+            {!source && !error && (
+              <div className="py-24 text-gray-500 flex items-center gap-2">
+                <ArrowPathIcon className="w-5 h-5 animate-spin" />
+                Loading image...
+              </div>
+            )}
+            {source && (
+              <div className="relative inline-block">
+                <img src={toDataUrl(source)} alt="Before" className="block max-w-full max-h-[60vh] select-none" draggable={false} />
+                {/* Stays mounted under the comparison so the mask survives "Try Again" and "Discard" */}
+                <canvas
+                  ref={maskCanvasRef}
+                  width={sourceSize.width}
+                  height={sourceSize.height}
+                  onPointerDown={handlePointerDown}
+                  onPointerMove={handlePointerMove}
+                  onPointerUp={handlePointerUp}
+                  onPointerCancel={handlePointerUp}
+                  className={`absolute inset-0 w-full h-full touch-none ${result ? 'hidden' : isPainting ? 'cursor-crosshair' : 'pointer-events-none'}`}
+                />
+                {result && (
+                  <>
+                    {/* After image revealed up to the slider */}
+                    <img
+                      src={toDataUrl(result)}
+                      alt="After"
+                      className="absolute inset-0 w-full h-full object-fill select-none"
+                      style={{ clipPath: `inset(0 ${100 - comparePosition}% 0 0)` }}
+                      draggable={false}
+                    />
+                    <div className="absolute top-0 bottom-0 w-0.5 bg-white/80 pointer-events-none" style={{ left: `${comparePosition}%` }} />
+                    <span className="absolute top-2 left-2 text-[10px] bg-black/60 text-white px-2 py-0.5 rounded">After</span>
+                    <span className="absolute top-2 right-2 text-[10px] bg-black/60 text-white px-2 py-0.5 rounded">Before</span>
+                  </>
+                )}
+              </div>
+            )}
+          </div>
+
+          {result ? (
+            <input
+              type="range"
+              min={0}
+              max={100}
+              value={comparePosition}
+              onChange={(e) => setComparePosition(Number(e.target.value))}
+              className="w-full accent-purple-500"
+              aria-label="Before/after comparison"
+            />
+          ) : (
+            <div className="flex flex-wrap items-center gap-3 text-xs text-gray-400">
+              <button
+                type="button"
+                onClick={() => setIsPainting(!isPainting)}
+                className={`flex items-center gap-1 px-3 py-1.5 rounded-lg border transition-colors ${isPainting ? 'bg-purple-600/20 border-purple-500 text-purple-200' : 'bg-gray-800 border-gray-700 text-gray-300 hover:bg-gray-700'}`}
+              >
+                <PaintBrushIcon className="w-4 h-4" />
+                Paint mask
+              </button>
+              <label className="flex items-center gap-2">
+                Brush
+                <input type="range" min={5} max={120} value={brushSize} onChange={(e) => setBrushSize(Number(e.target.value))} className="accent-purple-500" />
+              </label>
+              <button
+                type="button"
+                onClick={clearMask}
+                disabled={!hasMask}
+                className="flex items-center gap-1 px-3 py-1.5 rounded-lg border bg-gray-800 border-gray-700 text-gray-300 hover:bg-gray-700 disabled:opacity-50"
+              >
+                <TrashIcon className="w-4 h-4" />
+                Clear
+              </button>
+              <span className="ml-auto">{hasMask ? 'Only the painted area will change.' : 'No mask: the whole image may change.'}</span>
+            </div>
+          )}
+
+          <form onSubmit={handleGenerate} className="space-y-3">
+            <textarea
+              value={instruction}
+              onChange={(e) => setInstruction(e.target.value)}
+              placeholder="e.g. Replace the sky with a stormy sunset"
+              className="w-full bg-gray-950 border border-gray-700 rounded-xl p-3 text-white placeholder-gray-600 focus:outline-none focus:ring-2 focus:ring-purple-500 min-h-[70px] resize-none"
+              disabled={isGenerating}
+            />
+
+            {error && <p className="text-red-400 text-sm bg-red-900/10 p-2 rounded border border-red-900/30">{error}</p>}
+
+            <div className="flex flex-wrap items-center justify-between gap-3">
+              <label className="flex items-center gap-2 text-xs text-gray-400 cursor-pointer select-none">
+                <input
+                  type="checkbox"
+                  checked={usePro}
+                  onChange={(e) => setUsePro(e.target.checked)}
+                  className="rounded border-gray-700 bg-gray-950 text-purple-600 focus:ring-purple-500"
+                />
+                Pro (HQ) model
+              </label>
+              <div className="flex gap-2">
+                {result && (
+                  <button
+                    type="button"
+                    onClick={() => setResult(null)}
+                    className="px-4 py-2 rounded-xl text-sm text-gray-300 bg-gray-800 hover:bg-gray-700 border border-gray-700"
+                  >
+                    Discard
+                  </button>
+                )}
+                <button
+                  type="submit"
+                  disabled={isGenerating || !source || !instruction.trim()}
+                  className="px-4 py-2 rounded-xl text-sm font-medium text-white bg-purple-600 hover:bg-purple-500 disabled:bg-gray-700 disabled:text-gray-400 flex items-center gap-2"
+                >
+                  {isGenerating ? <ArrowPathIcon className="w-4 h-4 animate-spin" /> : <SparklesIcon className="w-4 h-4" />}
+                  {isGenerating ? 'Editing...' : result ? 'Try Again' : 'Apply Edit'}
+                </button>
+                {result && (
+                  <button
+                    type="button"
+                    onClick={handleSave}
+                    className="px-4 py-2 rounded-xl text-sm font-medium text-white bg-blue-600 hover:bg-blue-500"
+                  >
+                    Add to Gallery
+                  </button>
+                )}
+              </div>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AiEditModal;
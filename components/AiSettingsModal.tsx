@@ -0,0 +1,109 @@
+import React, { useEffect, useState } from 'react';
+import { XMarkIcon, CpuChipIcon, CheckCircleIcon } from '@heroicons/react/24/outline';
+import { AiProviderId, AiTask } from '../services/aiProvider';
+import { AI_PROVIDERS, AiSettings, getAiSettings, getModel, getProvider, saveAiSettings, subscribeAiSettings } from '../services/aiSettings';
+
+// Current settings, re-rendering on change
+export const useAiSettings = (): AiSettings => {
+  const [settings, setSettings] = useState<AiSettings>(getAiSettings());
+  useEffect(() => subscribeAiSettings(() => setSettings(getAiSettings())), []);
+  return settings;
+};
+
+interface AiSettingsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const TASKS: { task: AiTask; label: string; hint?: string }[] = [
+  { task: 'analysis', label: 'Image analysis & auto-tag' },
+  { task: 'image', label: 'Image generation (Standard)' },
+  { task: 'proImage', label: 'Image generation (Pro)' },
+  { task: 'speech', label: 'Read aloud' },
+  { task: 'scene', label: 'Visualizer scenes' },
+  { task: 'embedding', label: 'Semantic search', hint: 'Changing this rebuilds the search index.' },
+];
+
+const inputClass = "w-full bg-gray-950 border border-gray-700 rounded-lg p-2 text-sm text-white focus:outline-none focus:ring-1 focus:ring-purple-500 disabled:opacity-50";
+
+const AiSettingsModal: React.FC<AiSettingsModalProps> = ({ isOpen, onClose }) => {
+  const settings = useAiSettings();
+
+  if (!isOpen) return null;
+
+  const provider = getProvider(settings.providerId);
+
+  const selectProvider = (providerId: AiProviderId) => {
+    saveAiSettings({ ...settings, providerId });
+  };
+
+  const selectModel = (task: AiTask, model: string) => {
+    saveAiSettings({
+      ...settings,
+      models: { ...settings.models, [provider.id]: { ...settings.models[provider.id], [task]: model } }
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm p-4">
+      <div className="bg-gray-900 border border-gray-700 rounded-2xl w-full max-w-lg shadow-2xl overflow-hidden flex flex-col max-h-[90vh]">
+        <div className="p-4 border-b border-gray-800 flex justify-between items-center bg-gray-900/50">
+          <h3 className="text-white font-semibold flex items-center gap-2">
+            <CpuChipIcon className="w-5 h-5 text-purple-400" />
+            AI Settings
+          </h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-white transition-colors">
+            <XMarkIcon className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="p-6 overflow-y-auto flex-1 space-y-6">
+          <div className="space-y-2">
+            <span className="text-xs text-gray-500 font-medium">Provider</span>
+            {AI_PROVIDERS.map(option => (
+              <button
+                key={option.id}
+                onClick={() => selectProvider(option.id)}
+                className={`w-full text-left p-3 rounded-xl border transition-all flex items-start gap-3 ${
+                  option.id === provider.id
+                    ? 'bg-purple-900/30 border-purple-500/50'
+                    : 'bg-gray-800/50 border-gray-700 hover:bg-gray-800'
+                }`}
+              >
+                <CheckCircleIcon className={`w-5 h-5 flex-shrink-0 ${option.id === provider.id ? 'text-purple-400' : 'text-gray-700'}`} />
+                <span>
+                  <span className="block text-sm text-white font-medium">{option.name}</span>
+                  <span className="block text-xs text-gray-400 mt-0.5">{option.description}</span>
+                </span>
+              </button>
+            ))}
+          </div>
+
+          <div className="space-y-3">
+            <span className="text-xs text-gray-500 font-medium">Models</span>
+            {TASKS.map(({ task, label, hint }) => (
+              <label key={task} className="block text-xs text-gray-400">
+                {label}
+                <select
+                  value={getModel(task, provider)}
+                  onChange={(e) => selectModel(task, e.target.value)}
+                  disabled={provider.models[task].length === 1}
+                  className={`${inputClass} mt-1 font-mono`}
+                >
+                  {provider.models[task].map(model => <option key={model} value={model}>{model}</option>)}
+                </select>
+                {hint && <span className="block text-[11px] text-gray-500 mt-1">{hint}</span>}
+              </label>
+            ))}
+          </div>
+
+          <p className="text-xs text-gray-500">
+            Settings apply to new requests. Images already in the gallery keep the model they were made with.
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AiSettingsModal;
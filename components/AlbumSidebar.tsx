@@ -0,0 +1,154 @@
+import React, { useState } from 'react';
+import { Album } from '../types';
+import {
+  FolderIcon,
+  FolderPlusIcon,
+  PhotoIcon,
+  PencilSquareIcon,
+  TrashIcon,
+  CloudArrowUpIcon,
+  CheckIcon,
+  XMarkIcon
+} from '@heroicons/react/24/outline';
+
+interface AlbumSidebarProps {
+  albums: Album[];
+  totalCount: number;
+  activeAlbumId: string | null;
+  onSelectAlbum: (id: string | null) => void;
+  onCreateAlbum: (name: string) => void;
+  onUpdateAlbum: (id: string, changes: Partial<Pick<Album, 'name' | 'githubPath'>>) => void;
+  onDeleteAlbum: (id: string) => void;
+  onExportAlbum: (id: string) => void;
+}
+
+const AlbumSidebar: React.FC<AlbumSidebarProps> = ({
+  albums,
+  totalCount,
+  activeAlbumId,
+  onSelectAlbum,
+  onCreateAlbum,
+  onUpdateAlbum,
+  onDeleteAlbum,
+  onExportAlbum
+}) => {
+  const [newName, setNewName] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editName, setEditName] = useState('');
+  const [editPath, setEditPath] = useState('');
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newName.trim()) return;
+    onCreateAlbum(newName.trim());
+    setNewName('');
+  };
+
+  const startEditing = (album: Album) => {
+    setEditingId(album.id);
+    setEditName(album.name);
+    setEditPath(album.githubPath);
+  };
+
+  const saveEditing = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editingId || !editName.trim()) return;
+    onUpdateAlbum(editingId, { name: editName.trim(), githubPath: editPath.trim() });
+    setEditingId(null);
+  };
+
+  const handleDelete = (album: Album) => {
+    if (window.confirm(`Delete album "${album.name}"? Images will stay in the gallery.`)) {
+      onDeleteAlbum(album.id);
+    }
+  };
+
+  const itemClass = (isActive: boolean) => `
+    w-full flex items-center gap-2 px-3 py-2 rounded-lg text-sm transition-colors text-left
+    ${isActive ? 'bg-gray-800 text-white' : 'text-gray-400 hover:text-gray-200 hover:bg-gray-800/50'}
+  `;
+
+  return (
+    <aside className="w-full md:w-56 shrink-0 p-4 md:border-r border-gray-800 space-y-4">
+      <h3 className="text-xs font-semibold text-gray-500 uppercase tracking-wider">Albums</h3>
+
+      <div className="space-y-1">
+        <button onClick={() => onSelectAlbum(null)} className={itemClass(activeAlbumId === null)}>
+          <PhotoIcon className="w-4 h-4 shrink-0" />
+          <span className="flex-1 truncate">All Images</span>
+          <span className="text-xs text-gray-500">{totalCount}</span>
+        </button>
+
+        {albums.map(album => (
+          editingId === album.id ? (
+            <form key={album.id} onSubmit={saveEditing} className="bg-gray-800/50 rounded-lg p-2 space-y-2">
+              <input
+                type="text"
+                value={editName}
+                onChange={(e) => setEditName(e.target.value)}
+                className="w-full bg-gray-950 border border-gray-700 rounded-md p-1.5 text-sm text-white focus:outline-none focus:ring-1 focus:ring-blue-500"
+                autoFocus
+              />
+              <div>
+                <label className="block text-[10px] text-gray-500 mb-1">GitHub Folder</label>
+                <input
+                  type="text"
+                  value={editPath}
+                  onChange={(e) => setEditPath(e.target.value)}
+                  className="w-full bg-gray-950 border border-gray-700 rounded-md p-1.5 text-xs text-white font-mono focus:outline-none focus:ring-1 focus:ring-blue-500"
+                />
+              </div>
+              <div className="flex justify-end gap-1">
+                <button type="button" onClick={() => setEditingId(null)} className="p-1 text-gray-400 hover:text-white" title="Cancel">
+                  <XMarkIcon className="w-4 h-4" />
+                </button>
+                <button type="submit" className="p-1 text-green-400 hover:text-green-200" title="Save">
+                  <CheckIcon className="w-4 h-4" />
+                </button>
+              </div>
+            </form>
+          ) : (
+            <div key={album.id} className="group relative">
+              <button onClick={() => onSelectAlbum(album.id)} className={itemClass(activeAlbumId === album.id)}>
+                <FolderIcon className="w-4 h-4 shrink-0" />
+                <span className="flex-1 truncate">{album.name}</span>
+                <span className="text-xs text-gray-500 group-hover:opacity-0">{album.imageIds.length}</span>
+              </button>
+              <div className="absolute right-1 top-1/2 -translate-y-1/2 hidden group-hover:flex items-center gap-0.5 bg-gray-800 rounded-md">
+                <button onClick={() => onExportAlbum(album.id)} className="p-1 text-gray-400 hover:text-green-300" title={`Export to ${album.githubPath}`}>
+                  <CloudArrowUpIcon className="w-3.5 h-3.5" />
+                </button>
+                <button onClick={() => startEditing(album)} className="p-1 text-gray-400 hover:text-white" title="Rename / Edit">
+                  <PencilSquareIcon className="w-3.5 h-3.5" />
+                </button>
+                <button onClick={() => handleDelete(album)} className="p-1 text-gray-400 hover:text-red-300" title="Delete Album">
+                  <TrashIcon className="w-3.5 h-3.5" />
+                </button>
+              </div>
+            </div>
+          )
+        ))}
+      </div>
+
+      <form onSubmit={handleCreate} className="flex items-center gap-1">
+        <input
+          type="text"
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          placeholder="New album..."
+          className="flex-1 min-w-0 bg-gray-950 border border-gray-700 rounded-lg p-1.5 text-sm text-white placeholder-gray-600 focus:outline-none focus:ring-1 focus:ring-blue-500"
+        />
+        <button
+          type="submit"
+          disabled={!newName.trim()}
+          className="p-1.5 rounded-lg bg-gray-800 hover:bg-gray-700 text-gray-200 border border-gray-700 disabled:opacity-50"
+          title="Create Album"
+        >
+          <FolderPlusIcon className="w-4 h-4" />
+        </button>
+      </form>
+    </aside>
+  );
+};
+
+export default AlbumSidebar;
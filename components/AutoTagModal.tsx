@@ -0,0 +1,184 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { XMarkIcon, TagIcon, SparklesIcon, ExclamationCircleIcon } from '@heroicons/react/24/outline';
+import { ImageItem } from '../types';
+import { suggestImageTags, urlToBase64 } from '../services/geminiService';
+
+interface AutoTagModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  images: ImageItem[];
+  onApply: (tagsById: Map<string, string[]>) => void;
+}
+
+interface Suggestion {
+  imageId: string;
+  tags: string[];
+  // Tags the user has chosen to keep (all suggested tags start accepted)
+  accepted: Set<string>;
+  error?: string;
+}
+
+const AutoTagModal: React.FC<AutoTagModalProps> = ({ isOpen, onClose, images, onApply }) => {
+  const [suggestions, setSuggestions] = useState<Suggestion[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const cancelledRef = useRef(false);
+
+  // Reset state whenever the modal opens
+  useEffect(() => {
+    if (isOpen) {
+      setSuggestions([]);
+      setProgress(0);
+      setIsRunning(false);
+      cancelledRef.current = false;
+    }
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const handleRun = async () => {
+    setIsRunning(true);
+    setSuggestions([]);
+    setProgress(0);
+    cancelledRef.current = false;
+
+    // Sequential to stay well under the API rate limit
+    for (let i = 0; i < images.length; i++) {
+      if (cancelledRef.current) break;
+      const img = images[i];
+
+      try {
+        let base64 = img.base64Data;
+        if (!base64) {
+          base64 = await urlToBase64(img.url);
+        }
+        const tags = await suggestImageTags(base64);
+        const fresh = tags.filter(tag => !img.tags?.includes(tag));
+        setSuggestions(prev => [...prev, { imageId: img.id, tags: fresh, accepted: new Set(fresh) }]);
+      } catch (err: any) {
+        setSuggestions(prev => [...prev, { imageId: img.id, tags: [], accepted: new Set(), error: err.message || 'Failed' }]);
+      }
+
+      setProgress(Math.round(((i + 1) / images.length) * 100));
+    }
+
+    setIsRunning(false);
+  };
+
+  const toggleTag = (imageId: string, tag: string) => {
+    setSuggestions(prev => prev.map(s => {
+      if (s.imageId !== imageId) return s;
+      const accepted = new Set(s.accepted);
+      if (accepted.has(tag)) accepted.delete(tag);
+      else accepted.add(tag);
+      return { ...s, accepted };
+    }));
+  };
+
+  const handleApply = () => {
+    const tagsById = new Map<string, string[]>();
+    suggestions.forEach(s => {
+      if (s.accepted.size > 0) tagsById.set(s.imageId, Array.from(s.accepted));
+    });
+    onApply(tagsById);
+    onClose();
+  };
+
+  const acceptedCount = suggestions.reduce((sum, s) => sum + s.accepted.size, 0);
+  const imageById = new Map<string, ImageItem>(images.map(img => [img.id, img]));
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm p-4 animate-fade-in">
+      <div className="bg-gray-900 border border-gray-700 rounded-2xl w-full max-w-2xl shadow-2xl overflow-hidden flex flex-col max-h-[90vh] animate-scale-in">
+        <div className="p-4 border-b border-gray-800 flex justify-between items-center bg-gray-900/50">
+          <h3 className="text-white font-semibold flex items-center gap-2">
+            <TagIcon className="w-5 h-5 text-blue-500" />
+            Auto-tag {images.length} Images
+          </h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-white transition-colors">
+            <XMarkIcon className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="p-6 overflow-y-auto flex-1 space-y-4">
+          {suggestions.length === 0 && !isRunning && (
+            <div className="bg-blue-900/20 border border-blue-900/50 rounded-lg p-3 text-sm text-blue-200">
+              Gemini will suggest tags for each selected image. You can review and untick suggestions before they are applied.
+            </div>
+          )}
+
+          {isRunning && (
+            <div className="h-2 w-full bg-gray-800 rounded-full overflow-hidden">
+              <div className="h-full bg-blue-500 transition-all duration-300" style={{ width: `${progress}%` }}></div>
+            </div>
+          )}
+
+          {suggestions.map(s => {
+            const img = imageById.get(s.imageId);
+            if (!img) return null;
+            return (
+              <div key={s.imageId} className="flex gap-3 bg-gray-800/50 rounded-xl p-3 border border-gray-700/50">
+                <img src={img.thumbnailUrl || img.url} alt={img.title} className="w-16 h-16 object-cover rounded-lg shrink-0" />
+                <div className="min-w-0 flex-1">
+                  <p className="text-sm text-white truncate mb-2">{img.title}</p>
+                  {s.error ? (
+                    <p className="text-xs text-red-400 flex items-center gap-1">
+                      <ExclamationCircleIcon className="w-4 h-4" />
+                      {s.error}
+                    </p>
+                  ) : s.tags.length === 0 ? (
+                    <p className="text-xs text-gray-500 italic">No new tags suggested.</p>
+                  ) : (
+                    <div className="flex flex-wrap gap-1.5">
+                      {s.tags.map(tag => {
+                        const isAccepted = s.accepted.has(tag);
+                        return (
+                          <button
+                            key={tag}
+                            onClick={() => toggleTag(s.imageId, tag)}
+                            className={`text-xs px-2.5 py-0.5 rounded-full border transition-all ${isAccepted ? 'bg-blue-900/40 text-blue-200 border-blue-500/40' : 'bg-gray-800 text-gray-500 border-gray-700 line-through'}`}
+                          >
+                            {tag}
+                          </button>
+                        );
+                      })}
+                    </div>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="p-4 bg-gray-900 border-t border-gray-800 flex justify-end gap-3">
+          {isRunning ? (
+            <button
+              onClick={() => { cancelledRef.current = true; }}
+              className="bg-gray-800 hover:bg-gray-700 text-white px-4 py-2 rounded-lg transition-colors border border-gray-700"
+            >
+              Stop
+            </button>
+          ) : (
+            <button
+              onClick={handleRun}
+              disabled={images.length === 0}
+              className="flex items-center gap-2 bg-gray-800 hover:bg-gray-700 text-white px-4 py-2 rounded-lg transition-colors border border-gray-700 disabled:opacity-50"
+            >
+              <SparklesIcon className="w-4 h-4" />
+              {suggestions.length > 0 ? 'Run Again' : 'Suggest Tags'}
+            </button>
+          )}
+          <button
+            onClick={handleApply}
+            disabled={isRunning || acceptedCount === 0}
+            className="bg-blue-600 hover:bg-blue-500 text-white px-6 py-2 rounded-lg transition-colors shadow-lg shadow-blue-900/20 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Apply {acceptedCount} Tags
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AutoTagModal;
@@ -1,24 +1,45 @@
-import React, { useState, useEffect } from 'react';
-import { XMarkIcon, CloudArrowUpIcon, CheckCircleIcon, ExclamationCircleIcon, LockClosedIcon, ArrowPathIcon } from '@heroicons/react/24/outline';
-import { uploadImageToGitHub, convertUrlToBase64Simple } from '../services/githubService';
-import { ImageItem } from '../types';
+import React, { useState, useEffect, useRef } from 'react';
+import { XMarkIcon, CloudArrowUpIcon, CheckCircleIcon, ExclamationCircleIcon, LockClosedIcon, ArrowPathIcon, PauseCircleIcon } from '@heroicons/react/24/outline';
+import { uploadImageToGitHub, convertUrlToBase64Simple, textToBase64, getRepoFiles, commitFilesToGitHub, BatchFileChange, BatchCommitProgress } from '../services/githubService';
+import { toSidecar, getSidecarFileName } from '../services/tags';
+import { assignExportFileNames, computeGitBlobSha } from '../services/syncEngine';
+import { DEFAULT_EXPORT_FOLDER } from '../services/albumStore';
+import { createExportJob, canResumeJob, getJobDoneCount, loadExportJob, saveExportJob, clearExportJob } from '../services/exportJobs';
+import { ImageItem, ExportJob, ExportMode, SyncTarget } from '../types';
+import RateLimitBadge from './RateLimitBadge';
+import GitHubCredentialsPanel, { useGitHubCredentials } from './GitHubCredentialsPanel';
 
 interface ExportModalProps {
   isOpen: boolean;
   onClose: () => void;
   images: ImageItem[];
+  // Target folder for this export (e.g. the album's mapped path)
+  defaultFolderPath?: string;
+  // Human readable name of what is being exported (e.g. an album name)
+  scopeLabel?: string;
 }
 
-const ExportModal: React.FC<ExportModalProps> = ({ isOpen, onClose, images }) => {
-  const [token, setToken] = useState('');
+const parseTarget = (repoStr: string, folderPath: string): SyncTarget | null => {
+  const parts = repoStr.split('/').map(p => p.trim());
+  if (parts.length !== 2 || !parts[0] || !parts[1]) return null;
+  return { owner: parts[0], repo: parts[1], folder: folderPath.trim().replace(/^\/+|\/+$/g, '') };
+};
+
+const ExportModal: React.FC<ExportModalProps> = ({ isOpen, onClose, images, defaultFolderPath = DEFAULT_EXPORT_FOLDER, scopeLabel }) => {
   const [repoStr, setRepoStr] = useState('jaymacmac/pics');
-  const [folderPath, setFolderPath] = useState('lumina-exports');
+  const [folderPath, setFolderPath] = useState(defaultFolderPath);
+  const [includeSidecars, setIncludeSidecars] = useState(true);
+  const [singleCommit, setSingleCommit] = useState(true);
+  const [commitMessage, setCommitMessage] = useState('');
   
   const [isUploading, setIsUploading] = useState(false);
   const [progress, setProgress] = useState(0);
   const [logs, setLogs] = useState<string[]>([]);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState(false);
+  const [resumableJob, setResumableJob] = useState<ExportJob | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const credentialsStatus = useGitHubCredentials();
 
   // Reset state whenever the modal opens
   useEffect(() => {
@@ -28,8 +49,28 @@ const ExportModal: React.FC<ExportModalProps> = ({ isOpen, onClose, images }) =>
       setLogs([]);
       setProgress(0);
       setIsUploading(false);
+      setFolderPath(defaultFolderPath);
     }
-  }, [isOpen]);
+  }, [isOpen, defaultFolderPath]);
+
+  const target = parseTarget(repoStr, folderPath);
+  const mode: ExportMode = singleCommit ? 'single-commit' : 'one-by-one';
+  const targetKey = target ? `${target.owner}/${target.repo}/${target.folder}` : '';
+  // App passes a new array on every render; only the selection matters here
+  const imageIdsKey = images.map(img => img.id).join(',');
+
+  // Look for an interrupted export of the same images to the same place
+  useEffect(() => {
+    if (!isOpen || !target || isUploading) return;
+    let cancelled = false;
+    loadExportJob(target)
+      .then(job => {
+        if (cancelled) return;
+        setResumableJob(job && canResumeJob(job, mode, images.map(img => img.id)) ? job : null);
+      })
+      .catch(() => { if (!cancelled) setResumableJob(null); });
+    return () => { cancelled = true; };
+  }, [isOpen, targetKey, mode, imageIdsKey, isUploading]);
 
   if (!isOpen) return null;
 
@@ -39,82 +80,216 @@ const ExportModal: React.FC<ExportModalProps> = ({ isOpen, onClose, images }) =>
     setLogs([]);
     setSuccess(false);
     
-    if (!token.trim()) {
-      setError("Personal Access Token is required.");
+    if (credentialsStatus !== 'ready') {
+      setError("A GitHub token is required.");
       return;
     }
     
-    const parts = repoStr.split('/');
-    if (parts.length !== 2 || !parts[0] || !parts[1]) {
+    if (!target) {
       setError("Repository must be in 'username/repo' format.");
       return;
     }
-    const [owner, repo] = parts;
+    const { owner, repo } = target;
 
     setIsUploading(true);
     setProgress(0);
 
+    // Record progress as we go so a cancelled or crashed export can pick up where it stopped
+    const job = resumableJob || createExportJob(target, mode, images.map(img => img.id));
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    try {
+      await saveExportJob(job);
+      const complete = singleCommit
+        ? await exportAsSingleCommit(owner, repo, job, controller.signal)
+        : await exportOneByOne(owner, repo, job, controller.signal);
+      if (complete) {
+        await clearExportJob(target);
+        setResumableJob(null);
+      }
+      setSuccess(true);
+    } catch (err: any) {
+      console.error(err);
+      setError(`${err.message || "An unexpected error occurred."} Progress was saved, start again to resume.`);
+    } finally {
+      abortRef.current = null;
+      setIsUploading(false);
+    }
+  };
+
+  const handleCancel = () => {
+    abortRef.current?.abort();
+  };
+
+  const handleDiscardJob = async () => {
+    if (!target) return;
+    await clearExportJob(target).catch(console.error);
+    setResumableJob(null);
+  };
+
+  // One commit per file via the contents API. Returns false if some images failed.
+  const exportOneByOne = async (owner: string, repo: string, job: ExportJob, signal: AbortSignal): Promise<boolean> => {
     let successCount = 0;
     let failCount = 0;
-    const usedNames = new Set<string>();
+    const fileNames = assignExportFileNames(images);
+    const completed = new Set(job.completedIds);
+    if (completed.size > 0) {
+      setLogs([`Resuming: ${completed.size} images already uploaded`]);
+    }
 
-    try {
-      for (let i = 0; i < images.length; i++) {
-        const img = images[i];
-        setLogs(prev => [`Processing ${i + 1}/${images.length}: ${img.title}...`, ...prev.slice(0, 4)]);
-        
-        try {
-          // 1. Get Base64 content
-          let content = img.base64Data;
-          if (!content) {
-            content = await convertUrlToBase64Simple(img.url);
-          }
+    const markCompleted = async (id: string) => {
+      completed.add(id);
+      job.completedIds = Array.from(completed);
+      await saveExportJob(job);
+    };
 
-          // 2. Generate Deterministic Filename
-          const extension = img.mimeType ? img.mimeType.split('/')[1] : 'png';
-          const safeTitle = img.title.replace(/[^a-z0-9]/gi, '_').toLowerCase();
-          
-          // Base filename without random ID
-          let fileName = `${safeTitle}.${extension}`;
-          
-          // Handle duplicates within the current export batch
-          let counter = 1;
-          while (usedNames.has(fileName)) {
-            fileName = `${safeTitle}_${counter}.${extension}`;
-            counter++;
-          }
-          usedNames.add(fileName);
-
-          // 3. Upload
-          // If the file already exists on GitHub, this call will typically fail (422) 
-          // because we are not providing the SHA for update. 
-          // This effectively prevents overwriting or creating duplicate junk files.
-          await uploadImageToGitHub(token, owner, repo, folderPath, fileName, content);
-          successCount++;
-        } catch (err: any) {
-          console.error(err);
-          // 422 usually means file exists but we didn't provide SHA to update it.
-          // We treat this as "Skipped/Exists" which is often what the user wants to avoid duplicates.
-          const msg = err.message || '';
-          if (msg.includes('sha') || msg.includes('422')) {
-             setLogs(prev => [`Skipped: ${img.title} (Already exists)`, ...prev]);
-          } else {
-             failCount++;
-             setLogs(prev => [`Failed: ${img.title} - ${msg}`, ...prev]);
+    for (let i = 0; i < images.length; i++) {
+      if (signal.aborted) throw new Error('Export cancelled.');
+      const img = images[i];
+      if (completed.has(img.id)) continue;
+      setLogs(prev => [`Processing ${i + 1}/${images.length}: ${img.title}...`, ...prev.slice(0, 4)]);
+      
+      try {
+        // 1. Get Base64 content
+        let content = img.base64Data;
+        if (!content) {
+          content = await convertUrlToBase64Simple(img.url);
+        }
+
+        // 2. Deterministic filename (unique within this export batch)
+        const fileName = fileNames.get(img.id)!;
+
+        // 3. Upload
+        // If the file already exists on GitHub, this call will typically fail (422) 
+        // because we are not providing the SHA for update. 
+        // This effectively prevents overwriting or creating duplicate junk files.
+        await uploadImageToGitHub(owner, repo, folderPath, fileName, content);
+        successCount++;
+        await markCompleted(img.id);
+
+        // 4. Metadata sidecar (tags, description) so imports can restore it
+        if (includeSidecars) {
+          const sidecarName = getSidecarFileName(fileName);
+          const sidecarContent = textToBase64(JSON.stringify(toSidecar(img), null, 2));
+          try {
+            await uploadImageToGitHub(owner, repo, folderPath, sidecarName, sidecarContent);
+          } catch (sidecarErr: any) {
+            setLogs(prev => [`Warning: metadata for ${img.title} not saved - ${sidecarErr.message}`, ...prev]);
           }
         }
-        
-        setProgress(Math.round(((i + 1) / images.length) * 100));
+      } catch (err: any) {
+        console.error(err);
+        // 422 usually means file exists but we didn't provide SHA to update it.
+        // We treat this as "Skipped/Exists" which is often what the user wants to avoid duplicates.
+        const msg = err.message || '';
+        if (msg.includes('sha') || msg.includes('422')) {
+           setLogs(prev => [`Skipped: ${img.title} (Already exists)`, ...prev]);
+           await markCompleted(img.id);
+        } else {
+           failCount++;
+           setLogs(prev => [`Failed: ${img.title} - ${msg}`, ...prev]);
+        }
       }
+      
+      setProgress(Math.round(((i + 1) / images.length) * 100));
+    }
 
-      setSuccess(true);
-      setLogs(prev => [`DONE! Uploaded: ${successCount}, Failed/Skipped: ${failCount}`, ...prev]);
+    setLogs(prev => [`DONE! Uploaded: ${successCount}, Failed/Skipped: ${failCount}`, ...prev]);
+    return failCount === 0;
+  };
 
-    } catch (err: any) {
-      setError(err.message || "An unexpected error occurred.");
-    } finally {
-      setIsUploading(false);
+  // Everything in one commit via the Git Data API. Any failure aborts the whole batch.
+  const exportAsSingleCommit = async (owner: string, repo: string, job: ExportJob, signal: AbortSignal): Promise<boolean> => {
+    const folder = folderPath.trim().replace(/^\/+|\/+$/g, '');
+    const fileNames = assignExportFileNames(images);
+
+    // Keep the one-by-one behaviour of never overwriting existing files
+    setLogs(["Checking existing files..."]);
+    let existing = new Set<string>();
+    try {
+      const files = await getRepoFiles(owner, repo, folder);
+      existing = new Set(files.map(f => f.name));
+    } catch (err) {
+      // Folder doesn't exist yet - nothing to skip
     }
+
+    const changes: BatchFileChange[] = [];
+    let skipped = 0;
+
+    for (let i = 0; i < images.length; i++) {
+      if (signal.aborted) throw new Error('Export cancelled.');
+      const img = images[i];
+      const fileName = fileNames.get(img.id)!;
+      if (existing.has(fileName)) {
+        skipped++;
+        setLogs(prev => [`Skipped: ${img.title} (Already exists)`, ...prev]);
+        continue;
+      }
+
+      setLogs(prev => [`Reading ${i + 1}/${images.length}: ${img.title}...`, ...prev.slice(0, 4)]);
+      const content = img.base64Data || await convertUrlToBase64Simple(img.url);
+      const path = folder ? `${folder}/${fileName}` : fileName;
+      changes.push({ path, base64Content: content });
+
+      if (includeSidecars) {
+        changes.push({
+          path: getSidecarFileName(path),
+          base64Content: textToBase64(JSON.stringify(toSidecar(img), null, 2))
+        });
+      }
+      // Reading is the first half of the work, uploading the second
+      setProgress(Math.round(((i + 1) / images.length) * 50));
+    }
+
+    if (changes.length === 0) {
+      setLogs(prev => [`DONE! Nothing new to upload (Skipped: ${skipped})`, ...prev]);
+      return true;
+    }
+
+    // A blob SHA is a hash of the blob's content, so a file edited since the
+    // interrupted run no longer matches its recorded blob and is uploaded again
+    const knownBlobs: Record<string, string> = {};
+    for (const change of changes) {
+      const sha = job.blobShas[change.path];
+      if (!sha) continue;
+      if (change.base64Content && await computeGitBlobSha(change.base64Content) === sha) {
+        knownBlobs[change.path] = sha;
+      } else {
+        delete job.blobShas[change.path];
+      }
+    }
+
+    const reused = Object.keys(knownBlobs).length;
+    if (reused > 0) {
+      setLogs(prev => [`Resuming: ${reused} files already uploaded`, ...prev]);
+    }
+
+    const uploadCount = changes.length;
+    const message = commitMessage.trim() || `Add ${images.length - skipped} images via LuminaView`;
+    const result = await commitFilesToGitHub(owner, repo, changes, message, (p: BatchCommitProgress) => {
+      if (p.phase === 'blobs') {
+        setProgress(50 + Math.round((p.done / p.total) * 45));
+        setLogs(prev => [`Uploading ${p.done}/${p.total}...`, ...prev.slice(0, 4)]);
+      } else if (p.phase !== 'prepare') {
+        setProgress(95);
+        setLogs(prev => [`Creating ${p.phase}...`, ...prev.slice(0, 4)]);
+      }
+    }, {
+      knownBlobs,
+      onBlobCreated: (path, sha) => {
+        job.blobShas[path] = sha;
+        saveExportJob(job).catch(console.error);
+      },
+      signal,
+    });
+
+    setProgress(100);
+    setLogs(prev => [
+      `DONE! Committed ${uploadCount} files to ${result.branch} (${result.commitSha.substring(0, 7)}), Skipped: ${skipped}`,
+      ...prev
+    ]);
+    return true;
   };
 
   const handleReset = () => {
@@ -131,38 +306,43 @@ const ExportModal: React.FC<ExportModalProps> = ({ isOpen, onClose, images }) =>
             <CloudArrowUpIcon className="w-5 h-5 text-green-500" />
             Export to GitHub
           </h3>
-          <button onClick={onClose} className="text-gray-400 hover:text-white transition-colors">
-            <XMarkIcon className="w-6 h-6" />
-          </button>
+          <div className="flex items-center gap-3">
+            <RateLimitBadge />
+            <button onClick={onClose} className="text-gray-400 hover:text-white transition-colors">
+              <XMarkIcon className="w-6 h-6" />
+            </button>
+          </div>
         </div>
 
         <div className="p-6 overflow-y-auto">
           {!success ? (
             <form onSubmit={handleExport} className="space-y-4">
               <div className="bg-blue-900/20 border border-blue-900/50 rounded-lg p-3 text-sm text-blue-200">
-                You are about to export <strong>{images.length}</strong> images to <strong>{repoStr}</strong>.
+                You are about to export <strong>{images.length}</strong> images{scopeLabel && <> from <strong>{scopeLabel}</strong></>} to <strong>{repoStr}</strong>.
               </div>
 
+              {resumableJob && !isUploading && (
+                <div className="flex items-center justify-between gap-2 bg-yellow-900/20 border border-yellow-700/40 rounded-lg p-3 text-sm text-yellow-200">
+                  <span className="flex items-center gap-2">
+                    <PauseCircleIcon className="w-5 h-5 shrink-0" />
+                    A previous export stopped after {getJobDoneCount(resumableJob)} of {resumableJob.imageIds.length} images. Start Upload resumes it.
+                  </span>
+                  <button
+                    type="button"
+                    onClick={handleDiscardJob}
+                    className="text-xs text-yellow-400 hover:text-white shrink-0"
+                  >
+                    Start over
+                  </button>
+                </div>
+              )}
+
               <div>
-                <label className="block text-sm text-gray-400 mb-2">
-                  GitHub Personal Access Token (Classic)
-                </label>
-                <input
-                  type="password"
-                  value={token}
-                  onChange={(e) => setToken(e.target.value)}
-                  placeholder="ghp_xxxxxxxxxxxxxxxxxxxx"
-                  className="w-full bg-gray-950 border border-gray-700 rounded-xl p-3 text-white placeholder-gray-600 focus:outline-none focus:ring-2 focus:ring-green-500"
-                  required
-                />
-                <p className="text-xs text-gray-500 mt-1">
-                  Required scope: <code>repo</code> (for private) or <code>public_repo</code>.
-                </p>
-                
+                <GitHubCredentialsPanel />
                 <div className="flex items-start gap-2 mt-3 p-3 bg-yellow-900/10 rounded-lg border border-yellow-700/30">
                      <LockClosedIcon className="w-5 h-5 text-yellow-500 mt-0.5 shrink-0" />
                      <p className="text-xs text-yellow-200/70 leading-relaxed">
-                       <strong>Security Note:</strong> This token is <u>never stored</u>. It is sent directly to GitHub's API from your browser.
+                       <strong>Security Note:</strong> The token is sent directly to GitHub's API from your browser. It is only saved if you choose to, encrypted with your passphrase.
                      </p>
                 </div>
               </div>
@@ -189,11 +369,46 @@ const ExportModal: React.FC<ExportModalProps> = ({ isOpen, onClose, images }) =>
                   type="text"
                   value={folderPath}
                   onChange={(e) => setFolderPath(e.target.value)}
-                  placeholder="lumina-exports"
+                  placeholder={DEFAULT_EXPORT_FOLDER}
                   className="w-full bg-gray-950 border border-gray-700 rounded-xl p-3 text-white placeholder-gray-600 focus:outline-none focus:ring-2 focus:ring-green-500"
                 />
               </div>
 
+              <label className="flex items-center gap-2 text-sm text-gray-400 cursor-pointer select-none">
+                <input
+                  type="checkbox"
+                  checked={singleCommit}
+                  onChange={(e) => setSingleCommit(e.target.checked)}
+                  className="rounded border-gray-700 bg-gray-950 text-green-600 focus:ring-green-500"
+                />
+                Upload everything as a single commit
+              </label>
+
+              {singleCommit && (
+                <div>
+                  <label className="block text-sm text-gray-400 mb-2">
+                    Commit Message (Optional)
+                  </label>
+                  <input
+                    type="text"
+                    value={commitMessage}
+                    onChange={(e) => setCommitMessage(e.target.value)}
+                    placeholder={`Add ${images.length} images via LuminaView`}
+                    className="w-full bg-gray-950 border border-gray-700 rounded-xl p-3 text-white placeholder-gray-600 focus:outline-none focus:ring-2 focus:ring-green-500"
+                  />
+                </div>
+              )}
+
+              <label className="flex items-center gap-2 text-sm text-gray-400 cursor-pointer select-none">
+                <input
+                  type="checkbox"
+                  checked={includeSidecars}
+                  onChange={(e) => setIncludeSidecars(e.target.checked)}
+                  className="rounded border-gray-700 bg-gray-950 text-green-600 focus:ring-green-500"
+                />
+                Include metadata sidecars (<code>.json</code> with tags &amp; descriptions)
+              </label>
+
               {error && (
                 <div className="text-red-400 text-sm flex items-center gap-2 bg-red-900/10 p-2 rounded">
                   <ExclamationCircleIcon className="w-4 h-4" />
@@ -214,6 +429,15 @@ const ExportModal: React.FC<ExportModalProps> = ({ isOpen, onClose, images }) =>
                             <div key={i}>{log}</div>
                         ))}
                     </div>
+                    <div className="flex justify-end">
+                      <button
+                        type="button"
+                        onClick={handleCancel}
+                        className="text-sm text-gray-400 hover:text-white px-4 py-2 rounded-lg border border-gray-700 transition-colors"
+                      >
+                        Cancel
+                      </button>
+                    </div>
                 </div>
               )}
 
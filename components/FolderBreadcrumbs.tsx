@@ -0,0 +1,65 @@
+import React from 'react';
+import { FolderIcon, ChevronRightIcon } from '@heroicons/react/24/outline';
+import { ImageItem } from '../types';
+import { collectSubfolders } from '../services/galleryQuery';
+
+interface FolderBreadcrumbsProps {
+  images: ImageItem[];
+  folder: string;
+  onChange: (folder: string) => void;
+}
+
+// Navigates the repo folder structure of imported images
+const FolderBreadcrumbs: React.FC<FolderBreadcrumbsProps> = ({ images, folder, onChange }) => {
+  const subfolders = collectSubfolders(images, folder);
+  const segments = folder ? folder.split('/') : [];
+
+  if (segments.length === 0 && subfolders.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap items-center gap-1 mb-4 text-sm">
+      <button
+        onClick={() => onChange('')}
+        className={`flex items-center gap-1 px-2 py-1 rounded-lg transition-colors ${folder ? 'text-gray-400 hover:text-white hover:bg-gray-800' : 'text-white'}`}
+      >
+        <FolderIcon className="w-4 h-4" />
+        All folders
+      </button>
+
+      {segments.map((segment, i) => {
+        const path = segments.slice(0, i + 1).join('/');
+        const isCurrent = i === segments.length - 1;
+        return (
+          <React.Fragment key={path}>
+            <ChevronRightIcon className="w-3.5 h-3.5 text-gray-600" />
+            <button
+              onClick={() => onChange(path)}
+              disabled={isCurrent}
+              className={`px-2 py-1 rounded-lg transition-colors ${isCurrent ? 'text-white' : 'text-gray-400 hover:text-white hover:bg-gray-800'}`}
+            >
+              {segment}
+            </button>
+          </React.Fragment>
+        );
+      })}
+
+      {subfolders.length > 0 && (
+        <div className="flex flex-wrap gap-1.5 ml-2">
+          {subfolders.map(sub => (
+            <button
+              key={sub.path}
+              onClick={() => onChange(sub.path)}
+              className="flex items-center gap-1 px-2.5 py-1 rounded-full text-xs font-medium border bg-gray-800 border-gray-700 text-gray-400 hover:bg-gray-700 transition-all"
+            >
+              <FolderIcon className="w-3.5 h-3.5" />
+              {sub.name}
+              <span className="text-gray-500">{sub.count}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FolderBreadcrumbs;
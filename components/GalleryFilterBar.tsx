@@ -0,0 +1,176 @@
+import React from 'react';
+import { GalleryQuery, GallerySortKey, ImageSource, SemanticResults } from '../types';
+import { DEFAULT_GALLERY_QUERY, isQueryActive } from '../services/galleryQuery';
+import { MagnifyingGlassIcon, XMarkIcon, BarsArrowDownIcon, BarsArrowUpIcon, SparklesIcon, TagIcon } from '@heroicons/react/24/outline';
+
+interface GalleryFilterBarProps {
+  query: GalleryQuery;
+  onChange: (query: GalleryQuery) => void;
+  availableMimeTypes: string[];
+  availableTags: { tag: string; count: number }[];
+  resultCount: number;
+  totalCount: number;
+  semanticResults: SemanticResults | null;
+  isSemanticSearching: boolean;
+  onSemanticSearch: (text: string) => void;
+  onClearSemantic: () => void;
+}
+
+const SOURCE_OPTIONS: { value: ImageSource; label: string }[] = [
+  { value: 'upload', label: 'Uploaded' },
+  { value: 'url', label: 'URL' },
+  { value: 'generated', label: 'Generated' },
+];
+
+const SORT_OPTIONS: { value: GallerySortKey; label: string }[] = [
+  { value: 'createdAt', label: 'Date added' },
+  { value: 'title', label: 'Title' },
+  { value: 'size', label: 'File size' },
+];
+
+// Keep the tag row to a single glance; selected tags are always shown
+const MAX_VISIBLE_TAGS = 20;
+
+const toggleValue = <T,>(list: T[], value: T): T[] => {
+  return list.includes(value) ? list.filter(v => v !== value) : [...list, value];
+};
+
+// 'image/jpeg' -> 'JPEG'
+const formatMimeType = (mimeType: string) => {
+  return mimeType === 'unknown' ? 'Unknown' : mimeType.replace(/^image\//, '').replace('+xml', '').toUpperCase();
+};
+
+const GalleryFilterBar: React.FC<GalleryFilterBarProps> = ({
+  query,
+  onChange,
+  availableMimeTypes,
+  availableTags,
+  resultCount,
+  totalCount,
+  semanticResults,
+  isSemanticSearching,
+  onSemanticSearch,
+  onClearSemantic
+}) => {
+  const chipClass = (isActive: boolean) => `
+    px-2.5 py-1 rounded-full text-xs font-medium border transition-all
+    ${isActive ? 'bg-blue-600/20 border-blue-500 text-blue-200' : 'bg-gray-800 border-gray-700 text-gray-400 hover:bg-gray-700'}
+  `;
+
+  return (
+    <div className="px-4 pt-4 space-y-3">
+      <div className="flex flex-col sm:flex-row gap-2">
+        <div className="relative flex-1">
+          <MagnifyingGlassIcon className="w-4 h-4 text-gray-500 absolute left-3 top-1/2 -translate-y-1/2" />
+          <input
+            type="search"
+            value={query.text}
+            onChange={(e) => onChange({ ...query, text: e.target.value })}
+            placeholder="Search titles, descriptions and AI analysis..."
+            className="w-full bg-gray-900 border border-gray-700 rounded-xl py-2 pl-9 pr-3 text-sm text-white placeholder-gray-600 focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => onSemanticSearch(query.text)}
+            disabled={!query.text.trim() || isSemanticSearching}
+            className="flex items-center gap-2 px-3 py-2 rounded-xl bg-purple-600/20 hover:bg-purple-600/30 text-purple-200 border border-purple-500/30 text-sm font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            title="Search by meaning using Gemini embeddings"
+          >
+            {isSemanticSearching ? (
+              <div className="w-4 h-4 border-2 border-purple-300/30 border-t-purple-200 rounded-full animate-spin"></div>
+            ) : (
+              <SparklesIcon className="w-4 h-4" />
+            )}
+            <span className="hidden sm:inline">Smart Search</span>
+          </button>
+          <select
+            value={query.sortBy}
+            onChange={(e) => onChange({ ...query, sortBy: e.target.value as GallerySortKey })}
+            className="bg-gray-900 border border-gray-700 rounded-xl py-2 px-3 text-sm text-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            {SORT_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+          <button
+            onClick={() => onChange({ ...query, sortDir: query.sortDir === 'asc' ? 'desc' : 'asc' })}
+            className="p-2 rounded-xl bg-gray-900 hover:bg-gray-800 text-gray-200 border border-gray-700 transition-colors"
+            title={query.sortDir === 'asc' ? 'Ascending' : 'Descending'}
+          >
+            {query.sortDir === 'asc' ? <BarsArrowUpIcon className="w-5 h-5" /> : <BarsArrowDownIcon className="w-5 h-5" />}
+          </button>
+        </div>
+      </div>
+
+      {semanticResults && (
+        <div className="flex items-center gap-2 bg-purple-900/20 border border-purple-900/50 rounded-lg px-3 py-2 text-sm text-purple-200 animate-fade-in">
+          <SparklesIcon className="w-4 h-4 shrink-0" />
+          <span className="flex-1 truncate">
+            {semanticResults.ranked.length} closest matches for <strong>{semanticResults.label}</strong>
+          </span>
+          <button onClick={onClearSemantic} className="flex items-center gap-1 text-xs text-purple-300 hover:text-white transition-colors">
+            <XMarkIcon className="w-3.5 h-3.5" />
+            Clear
+          </button>
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-1.5">
+        {SOURCE_OPTIONS.map(option => (
+          <button
+            key={option.value}
+            onClick={() => onChange({ ...query, sources: toggleValue(query.sources, option.value) })}
+            className={chipClass(query.sources.includes(option.value))}
+          >
+            {option.label}
+          </button>
+        ))}
+
+        {availableMimeTypes.length > 1 && <div className="h-4 w-px bg-gray-700 mx-1"></div>}
+
+        {availableMimeTypes.length > 1 && availableMimeTypes.map(mimeType => (
+          <button
+            key={mimeType}
+            onClick={() => onChange({ ...query, mimeTypes: toggleValue(query.mimeTypes, mimeType) })}
+            className={chipClass(query.mimeTypes.includes(mimeType))}
+          >
+            {formatMimeType(mimeType)}
+          </button>
+        ))}
+
+        {availableTags.length > 0 && <div className="h-4 w-px bg-gray-700 mx-1"></div>}
+
+        {availableTags
+          .filter(({ tag }, i) => i < MAX_VISIBLE_TAGS || query.tags.includes(tag))
+          .map(({ tag, count }) => (
+            <button
+              key={tag}
+              onClick={() => onChange({ ...query, tags: toggleValue(query.tags, tag) })}
+              className={`${chipClass(query.tags.includes(tag))} flex items-center gap-1`}
+            >
+              <TagIcon className="w-3 h-3" />
+              {tag}
+              <span className="opacity-50">{count}</span>
+            </button>
+          ))}
+
+        {isQueryActive(query) && (
+          <>
+            <span className="text-xs text-gray-500 ml-auto">{resultCount} of {totalCount}</span>
+            <button
+              onClick={() => onChange({ ...DEFAULT_GALLERY_QUERY, sortBy: query.sortBy, sortDir: query.sortDir })}
+              className="flex items-center gap-1 text-xs text-gray-400 hover:text-white transition-colors"
+            >
+              <XMarkIcon className="w-3.5 h-3.5" />
+              Clear
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default GalleryFilterBar;
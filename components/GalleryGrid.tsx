@@ -1,17 +1,22 @@
 import React from 'react';
-import { ImageItem } from '../types';
+import { ImageItem, GenerationJob } from '../types';
 import { PhotoIcon, CheckCircleIcon } from '@heroicons/react/24/outline';
 import { CheckCircleIcon as CheckCircleIconSolid } from '@heroicons/react/24/solid';
+import GenerationJobTile from './GenerationJobTile';
 
 interface GalleryGridProps {
   images: ImageItem[];
   onImageClick: (image: ImageItem) => void;
   selectedIds: Set<string>;
   onToggleSelection: (id: string) => void;
+  // Similarity scores (0-1) shown as a badge when displaying semantic results
+  scores?: Map<string, number>;
+  // Queued, running and failed generations, shown as placeholders before the images
+  pendingJobs?: GenerationJob[];
 }
 
-const GalleryGrid: React.FC<GalleryGridProps> = ({ images, onImageClick, selectedIds, onToggleSelection }) => {
-  if (images.length === 0) {
+const GalleryGrid: React.FC<GalleryGridProps> = ({ images, onImageClick, selectedIds, onToggleSelection, scores, pendingJobs = [] }) => {
+  if (images.length === 0 && pendingJobs.length === 0) {
     return (
       <div className="flex flex-col items-center justify-center py-32 text-gray-500 animate-fade-in">
         <PhotoIcon className="w-24 h-24 mb-4 opacity-20" />
@@ -23,6 +28,7 @@ const GalleryGrid: React.FC<GalleryGridProps> = ({ images, onImageClick, selecte
 
   return (
     <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-4 p-4">
+      {pendingJobs.map(job => <GenerationJobTile key={job.id} job={job} />)}
       {images.map((img, index) => {
         const isSelected = selectedIds.has(img.id);
         // Stagger animation delay up to a max limit to avoid long waits on huge lists
@@ -62,6 +68,13 @@ const GalleryGrid: React.FC<GalleryGridProps> = ({ images, onImageClick, selecte
               )}
             </div>
 
+            {/* Similarity Badge */}
+            {scores?.has(img.id) && (
+              <span className="absolute top-2 right-2 z-10 text-[10px] font-medium bg-purple-900/80 text-purple-200 px-2 py-0.5 rounded-full">
+                {Math.round(scores.get(img.id)! * 100)}%
+              </span>
+            )}
+
             {/* Info Overlay */}
             <div className="absolute inset-0 bg-gradient-to-t from-black/80 via-black/20 to-transparent opacity-0 group-hover:opacity-100 transition-opacity duration-300 flex flex-col justify-end p-3 pointer-events-none">
               <h3 className="text-white text-sm font-medium truncate">{img.title}</h3>
@@ -0,0 +1,53 @@
+import React from 'react';
+import { ArrowPathIcon, XMarkIcon, ExclamationTriangleIcon } from '@heroicons/react/24/outline';
+import { GenerationJob } from '../types';
+import { cancelGenerationJob, retryGenerationJob, dismissGenerationJob } from '../services/generationQueue';
+import { composePrompt } from '../services/stylePresets';
+
+interface GenerationJobTileProps {
+  job: GenerationJob;
+}
+
+// Gallery placeholder for an image that is still being generated (or failed to)
+const GenerationJobTile: React.FC<GenerationJobTileProps> = ({ job }) => {
+  const { generation } = job;
+  const isFailed = job.status === 'failed';
+
+  return (
+    <div
+      className={`relative aspect-square overflow-hidden rounded-xl border flex flex-col items-center justify-center gap-2 p-4 text-center animate-fade-in ${isFailed ? 'bg-red-900/10 border-red-900/50' : 'bg-gray-800/60 border-dashed border-gray-700'}`}
+      title={composePrompt(generation)}
+    >
+      {isFailed ? (
+        <ExclamationTriangleIcon className="w-8 h-8 text-red-400" />
+      ) : (
+        <div className={`w-8 h-8 border-2 rounded-full ${job.status === 'running' ? 'border-purple-500/30 border-t-purple-400 animate-spin' : 'border-gray-600'}`}></div>
+      )}
+      <p className="text-xs text-gray-300 line-clamp-2">{generation.prompt}</p>
+      <span className={`text-[10px] ${isFailed ? 'text-red-300' : 'text-gray-500'}`}>
+        {isFailed ? job.error || 'Failed' : job.status === 'running' ? `Generating${generation.style !== 'Original' ? ` · ${generation.style}` : ''}...` : 'Queued'}
+      </span>
+
+      <div className="absolute top-2 right-2 flex gap-1">
+        {isFailed && (
+          <button
+            onClick={() => retryGenerationJob(job.id)}
+            className="p-1 rounded-full bg-black/40 text-gray-300 hover:text-white hover:bg-black/60"
+            title="Retry"
+          >
+            <ArrowPathIcon className="w-4 h-4" />
+          </button>
+        )}
+        <button
+          onClick={() => isFailed ? dismissGenerationJob(job.id) : cancelGenerationJob(job.id)}
+          className="p-1 rounded-full bg-black/40 text-gray-300 hover:text-white hover:bg-black/60"
+          title={isFailed ? 'Dismiss' : 'Cancel'}
+        >
+          <XMarkIcon className="w-4 h-4" />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default GenerationJobTile;
@@ -1,42 +1,70 @@
 import React, { useState, useEffect } from 'react';
-import { XMarkIcon, SparklesIcon, KeyIcon, BoltIcon, StarIcon, Square2StackIcon, TvIcon, DevicePhoneMobileIcon, RectangleStackIcon } from '@heroicons/react/24/outline';
-import { generateImage } from '../services/geminiService';
+import { XMarkIcon, SparklesIcon, KeyIcon, BoltIcon, StarIcon, Square2StackIcon, TvIcon, DevicePhoneMobileIcon, RectangleStackIcon, Cog6ToothIcon, BookOpenIcon, BookmarkIcon, PhotoIcon } from '@heroicons/react/24/outline';
+import { getImageModel, getImageModelCapabilities, fitImageOptions } from '../services/geminiService';
+import { getActiveProvider } from '../services/aiSettings';
+import { enqueueGenerations, loadGeneratorSettings, saveGeneratorSettings } from '../services/generationQueue';
+import { DEFAULT_STYLE_PRESETS, NO_STYLE_PRESET, loadStylePresets, saveStylePresets } from '../services/stylePresets';
+import { expandTemplate, extractVariables, parseValueList, MAX_COMBINATIONS } from '../services/promptLibrary';
+import { ImageItem, ImageAspectRatio, ImageSize, ReferenceRole, SavedPrompt, StylePreset } from '../types';
+import StylePresetManager from './StylePresetManager';
+import PromptLibraryPanel from './PromptLibraryPanel';
+import SavePromptForm from './SavePromptForm';
 
 interface GenerationModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onImageGenerated: (data: { base64: string, prompt: string, mimeType: string }) => void;
   initialPrompt?: string;
+  // Image the initial prompt came from (Remix)
+  parentId?: string;
+  // Gallery images picked as references (the gallery selection)
+  referenceImages?: ImageItem[];
+  // Gallery, so the prompt library can show what each prompt produced
+  images?: ImageItem[];
+  onOpenImage?: (id: string) => void;
 }
 
-type AspectRatio = '1:1' | '16:9' | '9:16';
-
-// Define the available style presets
-const STYLE_PRESETS = [
-  { label: "Original", suffix: "" },
-  { label: "Calming", suffix: ", minimalist, calming, simple, clean lines, soft lighting" },
-  { label: "Vibrant", suffix: ", vivid, high contrast, neon, dramatic lighting" },
-  { label: "Vintage", suffix: ", vintage, retro style, warm tones, pastel color palette" },
-  { label: "Cyberpunk", suffix: ", cyberpunk, futuristic, neon lights, high tech, dark atmosphere, cyan and magenta" },
-  { label: "Watercolor", suffix: ", watercolor painting style, artistic, soft blended colors, white background, dreamy" },
-  { label: "Noir", suffix: ", film noir style, black and white, high contrast, cinematic shadows, dramatic, mysterious" },
-  { label: "Psychedelic", suffix: ", psychedelic, swirling colors, trippy, abstract, vibrant patterns, hallucinogenic style" }
-];
-
-const GenerationModal: React.FC<GenerationModalProps> = ({ isOpen, onClose, onImageGenerated, initialPrompt }) => {
+// Icon for the shape of a ratio
+const ratioIcon = (ratio: ImageAspectRatio) => {
+  const [w, h] = ratio.split(':').map(Number);
+  return w === h ? Square2StackIcon : w > h ? TvIcon : DevicePhoneMobileIcon;
+};
+
+const GenerationModal: React.FC<GenerationModalProps> = ({ isOpen, onClose, initialPrompt, parentId, referenceImages, images, onOpenImage }) => {
   const [prompt, setPrompt] = useState('');
-  const [isGenerating, setIsGenerating] = useState(false);
   const [error, setError] = useState<string | null>(null);
   
   // Model selection state
-  const [usePro, setUsePro] = useState(false);
+  // The last model, ratio and size used are remembered between sessions
+  const [settings] = useState(loadGeneratorSettings);
+  const [usePro, setUsePro] = useState(settings.usePro);
   const [hasApiKey, setHasApiKey] = useState(false);
   
-  // Aspect Ratio State
-  const [aspectRatio, setAspectRatio] = useState<AspectRatio>('16:9');
+  // Aspect Ratio & Size State
+  const [aspectRatio, setAspectRatio] = useState<ImageAspectRatio>(settings.aspectRatio);
+  const [imageSize, setImageSize] = useState<ImageSize | undefined>(settings.imageSize);
+  const capabilities = getImageModelCapabilities(usePro);
+
+  // Keep the ratio and size valid for the model, and remember the choice
+  useEffect(() => {
+    const fitted = fitImageOptions(usePro, aspectRatio, imageSize);
+    if (fitted.aspectRatio !== aspectRatio) setAspectRatio(fitted.aspectRatio);
+    if (fitted.imageSize !== imageSize) setImageSize(fitted.imageSize);
+    saveGeneratorSettings({ usePro, ...fitted });
+  }, [usePro, aspectRatio, imageSize]);
   
-  // Variations State (Number of outputs)
-  const [variationCount, setVariationCount] = useState(1);
+  // Style presets: one image per selected preset
+  const [presets, setPresets] = useState<StylePreset[]>(DEFAULT_STYLE_PRESETS);
+  const [selectedPresetIds, setSelectedPresetIds] = useState<string[]>([DEFAULT_STYLE_PRESETS[0].id]);
+  // Style presets or the prompt library, shown in place of the form
+  const [panel, setPanel] = useState<'presets' | 'library' | null>(null);
+
+  // Prompt library: the entry in use, and raw "a, b, c" values per template variable
+  const [libraryPrompt, setLibraryPrompt] = useState<SavedPrompt | null>(null);
+  const [variableInputs, setVariableInputs] = useState<Record<string, string>>({});
+  const [isSavingPrompt, setIsSavingPrompt] = useState(false);
+
+  // Reference images sent with every job of the run
+  const [references, setReferences] = useState<{ image: ImageItem; role: ReferenceRole }[]>([]);
 
   // Check for API key availability when modal opens or mode changes
   useEffect(() => {
@@ -45,10 +73,32 @@ const GenerationModal: React.FC<GenerationModalProps> = ({ isOpen, onClose, onIm
     }
   }, [isOpen]);
 
+  useEffect(() => {
+    if (!isOpen) return;
+    setPanel(null);
+    setIsSavingPrompt(false);
+    loadStylePresets()
+      .then(loaded => {
+        setPresets(loaded);
+        // Keep the previous picks that still exist, or fall back to the first preset
+        setSelectedPresetIds(prev => {
+          const kept = prev.filter(id => loaded.some(p => p.id === id));
+          return kept.length > 0 || loaded.length === 0 ? kept : [loaded[0].id];
+        });
+      })
+      .catch(error => console.error("Failed to load style presets:", error));
+  }, [isOpen]);
+
+  // Start from the gallery selection; style is the more common use
+  useEffect(() => {
+    if (isOpen) setReferences((referenceImages || []).map(image => ({ image, role: 'style' })));
+  }, [isOpen, referenceImages]);
+
   // Load initial prompt if provided (e.g. from Remix)
   useEffect(() => {
     if (isOpen && initialPrompt) {
         setPrompt(initialPrompt);
+        setLibraryPrompt(null);
     }
   }, [isOpen, initialPrompt]);
 
@@ -81,63 +131,82 @@ const GenerationModal: React.FC<GenerationModalProps> = ({ isOpen, onClose, onIm
 
   if (!isOpen) return null;
 
-  const handleGenerate = async (e: React.FormEvent) => {
+  // Picked presets, in list order. Without any presets the prompt is sent as written.
+  const selectedPresets = presets.length === 0
+    ? [NO_STYLE_PRESET]
+    : presets.filter(preset => selectedPresetIds.includes(preset.id));
+
+  const togglePreset = (id: string) => {
+    setSelectedPresetIds(prev => prev.includes(id) ? prev.filter(p => p !== id) : [...prev, id]);
+  };
+
+  // Template variables and every combination of their values
+  const variables = extractVariables(prompt);
+  const variableValues = Object.fromEntries(variables.map(name => [name, parseValueList(variableInputs[name] || '')]));
+  const missingValues = variables.filter(name => variableValues[name].length === 0);
+  const combinations = missingValues.length === 0 ? expandTemplate(prompt, variableValues) : [];
+  const jobCount = (variables.length > 0 ? combinations.length : 1) * selectedPresets.length;
+  // Only credit the library entry while its text is what gets generated
+  const activeLibraryPrompt = libraryPrompt?.text === prompt ? libraryPrompt : null;
+  // Every model the run uses has to accept that many references
+  const maxReferences = Math.min(...selectedPresets.map(preset => getImageModelCapabilities(preset.usePro ?? usePro).maxReferences), capabilities.maxReferences);
+  const canGenerate = !!prompt.trim() && selectedPresets.length > 0 && missingValues.length === 0 && jobCount <= MAX_COMBINATIONS && references.length <= maxReferences;
+
+  const handleUsePrompt = (saved: SavedPrompt) => {
+    setPrompt(saved.text);
+    setLibraryPrompt(saved);
+    setVariableInputs(Object.fromEntries(Object.entries(saved.variables || {}).map(([name, values]) => [name, values.join(', ')])));
+    setPanel(null);
+  };
+
+  const handlePromptSaved = (saved: SavedPrompt) => {
+    setLibraryPrompt(saved);
+    setIsSavingPrompt(false);
+  };
+
+  const handlePresetsChange = (next: StylePreset[]) => {
+    setPresets(next);
+    setSelectedPresetIds(prev => prev.filter(id => next.some(p => p.id === id)));
+    saveStylePresets(next).catch(error => console.error("Failed to save style presets:", error));
+  };
+
+  // Jobs run in the background queue, so the modal closes right away
+  const handleGenerate = (e: React.FormEvent) => {
     e.preventDefault();
-    if (!prompt.trim()) return;
-
-    setIsGenerating(true);
-    setError(null);
-
-    try {
-      if (variationCount > 1) {
-        // Pick the top N styles
-        const selectedStyles = STYLE_PRESETS.slice(0, variationCount);
-
-        // Create an array of promises to run in parallel
-        const promises = selectedStyles.map(async (style) => {
-            try {
-                const finalPrompt = prompt + style.suffix;
-                // Add label to prompt only if it's not original to avoid clutter
-                const promptLabel = style.label === "Original" ? prompt : `${prompt} (${style.label})`;
-                
-                const { base64, mimeType } = await generateImage(finalPrompt, { 
-                    usePro: usePro,
-                    aspectRatio: aspectRatio 
-                });
-                onImageGenerated({ base64, prompt: promptLabel, mimeType });
-            } catch (err) {
-                console.error(`Failed to generate variation: ${style.label}`, err);
-            }
-        });
+    if (!canGenerate) return;
 
-        await Promise.all(promises);
-      } else {
-        // Single Image Generation (Original)
-        const { base64, mimeType } = await generateImage(prompt, { 
-            usePro: usePro,
-            aspectRatio: aspectRatio 
-        });
-        onImageGenerated({ base64, prompt, mimeType });
-      }
+    // One job per combination and selected style; a preset's own ratio and model win over the ones picked here
+    const prompts = variables.length > 0 ? combinations : [{ prompt, variables: undefined }];
+    enqueueGenerations(prompts.flatMap(combination => selectedPresets.map(preset => {
+      const presetUsePro = preset.usePro ?? usePro;
+      const fitted = fitImageOptions(presetUsePro, preset.aspectRatio || aspectRatio, imageSize);
+      return {
+        generation: {
+          prompt: combination.prompt,
+          style: preset.name,
+          styleSuffix: preset.suffix,
+          negativeHints: preset.negativeHints,
+          model: getImageModel(presetUsePro),
+          usePro: presetUsePro,
+          aspectRatio: fitted.aspectRatio,
+          imageSize: fitted.imageSize,
+          promptId: activeLibraryPrompt?.id,
+          variables: combination.variables,
+          references: references.length > 0 ? references.map(ref => ({ imageId: ref.image.id, role: ref.role })) : undefined
+        },
+        parentId,
+        referenceImages: references.map(ref => ref.image)
+      };
+    })));
 
-      setPrompt('');
-      onClose();
-    } catch (err: any) {
-        console.error(err);
-        if (err.message && err.message.includes("Requested entity was not found")) {
-            setError("Session expired. Please select your API key again.");
-            setHasApiKey(false);
-        } else {
-            setError("Failed to generate image. Please check your connection and try again.");
-        }
-    } finally {
-      setIsGenerating(false);
-    }
+    setPrompt('');
+    setLibraryPrompt(null);
+    onClose();
   };
 
   // Only force key selection if using Pro mode AND key is missing
   // Standard mode skips this check to allow frictionless usage (assuming env key or free tier works)
-  const showApiKeyWarning = !hasApiKey && usePro;
+  const showApiKeyWarning = getActiveProvider().requiresApiKey && !hasApiKey && (usePro || selectedPresets.some(preset => preset.usePro));
 
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm p-4 animate-fade-in">
@@ -153,173 +222,298 @@ const GenerationModal: React.FC<GenerationModalProps> = ({ isOpen, onClose, onIm
         </div>
 
         <div className="p-6 space-y-6 overflow-y-auto">
-          {/* Settings Row: Model & Ratio */}
-          <div className="space-y-4">
-            {/* Model Selection Tabs */}
-            <div className="bg-gray-950 p-1 rounded-xl flex">
-              <button
-                type="button"
-                onClick={() => setUsePro(false)}
-                className={`flex-1 flex items-center justify-center gap-2 py-2 rounded-lg text-sm font-medium transition-all ${!usePro ? 'bg-gray-800 text-white shadow-sm' : 'text-gray-400 hover:text-gray-200'}`}
-              >
-                <BoltIcon className="w-4 h-4" />
-                Standard
-              </button>
-              <button
-                type="button"
-                onClick={() => setUsePro(true)}
-                className={`flex-1 flex items-center justify-center gap-2 py-2 rounded-lg text-sm font-medium transition-all ${usePro ? 'bg-gradient-to-r from-purple-900/50 to-blue-900/50 text-white shadow-sm border border-purple-500/30' : 'text-gray-400 hover:text-gray-200'}`}
-              >
-                <StarIcon className="w-4 h-4 text-yellow-400" />
-                Pro (HQ)
-              </button>
-            </div>
-
-            {/* Aspect Ratio & Variations Controls */}
-            <div className="flex flex-col gap-3">
-                {/* Aspect Ratio */}
-                <div className="flex justify-between items-center">
-                    <span className="text-xs text-gray-500 font-medium">Aspect Ratio</span>
-                    <div className="flex gap-2">
-                        <button
-                            type="button"
-                            onClick={() => setAspectRatio('1:1')}
-                            className={`flex items-center gap-1 px-3 py-1.5 rounded-lg text-xs font-medium border transition-all ${aspectRatio === '1:1' ? 'bg-blue-600/20 border-blue-500 text-blue-200' : 'bg-gray-800 border-gray-700 text-gray-400 hover:bg-gray-700'}`}
-                        >
-                            <Square2StackIcon className="w-3.5 h-3.5" />
-                            1:1
-                        </button>
-                        <button
-                            type="button"
-                            onClick={() => setAspectRatio('16:9')}
-                            className={`flex items-center gap-1 px-3 py-1.5 rounded-lg text-xs font-medium border transition-all ${aspectRatio === '16:9' ? 'bg-blue-600/20 border-blue-500 text-blue-200' : 'bg-gray-800 border-gray-700 text-gray-400 hover:bg-gray-700'}`}
-                        >
-                            <TvIcon className="w-3.5 h-3.5" />
-                            16:9
-                        </button>
-                        <button
-                            type="button"
-                            onClick={() => setAspectRatio('9:16')}
-                            className={`flex items-center gap-1 px-3 py-1.5 rounded-lg text-xs font-medium border transition-all ${aspectRatio === '9:16' ? 'bg-blue-600/20 border-blue-500 text-blue-200' : 'bg-gray-800 border-gray-700 text-gray-400 hover:bg-gray-700'}`}
-                        >
-                            <DevicePhoneMobileIcon className="w-3.5 h-3.5" />
-                            9:16
-                        </button>
-                    </div>
+          {panel === 'presets' ? (
+            <StylePresetManager presets={presets} onChange={handlePresetsChange} onBack={() => setPanel(null)} />
+          ) : panel === 'library' ? (
+            <PromptLibraryPanel target="image" onUse={handleUsePrompt} onBack={() => setPanel(null)} images={images} onOpenImage={onOpenImage} />
+          ) : (
+            <>
+              {/* Settings Row: Model & Ratio */}
+              <div className="space-y-4">
+                {/* Model Selection Tabs */}
+                <div className="bg-gray-950 p-1 rounded-xl flex">
+                  <button
+                    type="button"
+                    onClick={() => setUsePro(false)}
+                    className={`flex-1 flex items-center justify-center gap-2 py-2 rounded-lg text-sm font-medium transition-all ${!usePro ? 'bg-gray-800 text-white shadow-sm' : 'text-gray-400 hover:text-gray-200'}`}
+                  >
+                    <BoltIcon className="w-4 h-4" />
+                    Standard
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setUsePro(true)}
+                    className={`flex-1 flex items-center justify-center gap-2 py-2 rounded-lg text-sm font-medium transition-all ${usePro ? 'bg-gradient-to-r from-purple-900/50 to-blue-900/50 text-white shadow-sm border border-purple-500/30' : 'text-gray-400 hover:text-gray-200'}`}
+                  >
+                    <StarIcon className="w-4 h-4 text-yellow-400" />
+                    Pro (HQ)
+                  </button>
                 </div>
 
-                {/* Variation Count Selector */}
-                <div className="flex justify-between items-center">
-                    <span className="text-xs text-gray-500 font-medium flex items-center gap-1">
-                        Variations
-                        <RectangleStackIcon className="w-3 h-3" />
-                    </span>
-                    <div className="flex bg-gray-950 p-1 rounded-lg">
-                        {[1, 2, 4, 8].map((count) => (
+                {/* Aspect Ratio & Variations Controls */}
+                <div className="flex flex-col gap-3">
+                    {/* Aspect Ratio */}
+                    <div className="flex justify-between items-start gap-3">
+                        <span className="text-xs text-gray-500 font-medium pt-1.5">Aspect Ratio</span>
+                        <div className="flex flex-wrap justify-end gap-1.5">
+                            {capabilities.aspectRatios.map(ratio => {
+                                const Icon = ratioIcon(ratio);
+                                return (
+                                    <button
+                                        key={ratio}
+                                        type="button"
+                                        onClick={() => setAspectRatio(ratio)}
+                                        className={`flex items-center gap-1 px-2.5 py-1.5 rounded-lg text-xs font-medium border transition-all ${aspectRatio === ratio ? 'bg-blue-600/20 border-blue-500 text-blue-200' : 'bg-gray-800 border-gray-700 text-gray-400 hover:bg-gray-700'}`}
+                                    >
+                                        <Icon className="w-3.5 h-3.5" />
+                                        {ratio}
+                                    </button>
+                                );
+                            })}
+                        </div>
+                    </div>
+
+                    {/* Output Size (only for models that offer a choice) */}
+                    <div className="flex justify-between items-center">
+                        <span className="text-xs text-gray-500 font-medium">Size</span>
+                        {capabilities.sizes.length > 0 ? (
+                            <div className="flex bg-gray-950 p-1 rounded-lg">
+                                {capabilities.sizes.map(size => (
+                                    <button
+                                        key={size}
+                                        type="button"
+                                        onClick={() => setImageSize(size)}
+                                        className={`w-10 h-7 text-xs font-medium rounded-md transition-all ${imageSize === size ? 'bg-purple-600 text-white shadow-sm' : 'text-gray-400 hover:text-white hover:bg-gray-800'}`}
+                                    >
+                                        {size}
+                                    </button>
+                                ))}
+                            </div>
+                        ) : (
+                            <span className="text-xs text-gray-500 italic">Fixed for Standard · switch to Pro for 2K/4K</span>
+                        )}
+                    </div>
+
+                    {/* Reference Images */}
+                    {references.length > 0 && (
+                        <div className="space-y-2">
+                            <span className="text-xs text-gray-500 font-medium flex items-center gap-1">
+                                References
+                                <PhotoIcon className="w-3 h-3" />
+                            </span>
+                            <div className="flex flex-wrap gap-2">
+                                {references.map(ref => (
+                                    <div key={ref.image.id} className="w-20 space-y-1">
+                                        <div className="relative aspect-square rounded-lg overflow-hidden border border-gray-700">
+                                            <img src={ref.image.thumbnailUrl || ref.image.url} alt={ref.image.title} className="w-full h-full object-cover" />
+                                            <button
+                                                type="button"
+                                                onClick={() => setReferences(prev => prev.filter(r => r.image.id !== ref.image.id))}
+                                                className="absolute top-1 right-1 p-0.5 rounded-full bg-black/60 text-gray-300 hover:text-white"
+                                                title="Don't use this image"
+                                            >
+                                                <XMarkIcon className="w-3 h-3" />
+                                            </button>
+                                        </div>
+                                        <button
+                                            type="button"
+                                            onClick={() => setReferences(prev => prev.map(r => r.image.id === ref.image.id ? { ...r, role: r.role === 'style' ? 'subject' : 'style' } : r))}
+                                            className={`w-full text-[10px] py-0.5 rounded-full border ${ref.role === 'style' ? 'bg-purple-900/30 text-purple-300 border-purple-500/30' : 'bg-blue-900/30 text-blue-300 border-blue-500/30'}`}
+                                            title="Style: copy the look. Subject: keep what is shown. Click to switch."
+                                        >
+                                            {ref.role === 'style' ? 'Style' : 'Subject'}
+                                        </button>
+                                    </div>
+                                ))}
+                            </div>
+                            {references.length > maxReferences && (
+                                <p className="text-xs text-red-400">This model takes at most {maxReferences} reference images. Remove {references.length - maxReferences}.</p>
+                            )}
+                        </div>
+                    )}
+
+                    {/* Style Preset Picker */}
+                    <div className="space-y-2">
+                        <div className="flex justify-between items-center">
+                            <span className="text-xs text-gray-500 font-medium flex items-center gap-1">
+                                Styles
+                                <RectangleStackIcon className="w-3 h-3" />
+                                {selectedPresets.length > 1 && <span className="text-purple-300">({selectedPresets.length} variations)</span>}
+                            </span>
                             <button
-                                key={count}
                                 type="button"
-                                onClick={() => setVariationCount(count)}
-                                className={`
-                                    w-8 h-7 text-xs font-medium rounded-md transition-all
-                                    ${variationCount === count 
-                                        ? 'bg-purple-600 text-white shadow-sm' 
-                                        : 'text-gray-400 hover:text-white hover:bg-gray-800'
-                                    }
-                                `}
-                                title={`Generate ${count} image${count > 1 ? 's' : ''}`}
+                                onClick={() => setPanel('presets')}
+                                className="flex items-center gap-1 text-xs text-gray-400 hover:text-white transition-colors"
                             >
-                                {count}x
+                                <Cog6ToothIcon className="w-3.5 h-3.5" />
+                                Manage
                             </button>
-                        ))}
+                        </div>
+                        <div className="flex flex-wrap gap-1.5 bg-gray-950/50 p-2 rounded-lg border border-gray-800/50">
+                            {presets.length === 0 && (
+                                <span className="text-[11px] text-gray-500 px-1 py-1">No styles saved. The prompt is sent as written.</span>
+                            )}
+                            {presets.map(preset => (
+                                <button
+                                    key={preset.id}
+                                    type="button"
+                                    onClick={() => togglePreset(preset.id)}
+                                    className={`text-[11px] px-2.5 py-1 rounded-full border transition-all ${selectedPresetIds.includes(preset.id) ? 'bg-purple-600/30 border-purple-500 text-purple-200' : 'bg-gray-800 border-gray-700 text-gray-400 hover:text-white'}`}
+                                    title={[
+                                        preset.suffix || 'Prompt only',
+                                        preset.negativeHints && `Avoid: ${preset.negativeHints}`,
+                                        preset.aspectRatio && `Always ${preset.aspectRatio}`,
+                                        preset.usePro !== undefined && `Always ${preset.usePro ? 'Pro' : 'Standard'}`
+                                    ].filter(Boolean).join('\n')}
+                                >
+                                    {preset.name}
+                                </button>
+                            ))}
+                        </div>
                     </div>
                 </div>
-                
-                {/* Visual feedback for selected styles */}
-                {variationCount > 1 && (
-                     <div className="flex flex-wrap gap-1.5 mt-1 bg-gray-950/50 p-2 rounded-lg border border-gray-800/50">
-                        {STYLE_PRESETS.slice(0, variationCount).map((s, i) => (
-                            <span key={i} className="text-[10px] bg-purple-900/30 text-purple-300 px-2 py-0.5 rounded-full border border-purple-500/20">
-                                {s.label}
-                            </span>
-                        ))}
-                     </div>
+              </div>
+
+              <form onSubmit={handleGenerate} className="space-y-4">
+                <div>
+                  <div className="flex justify-between items-center mb-2">
+                    <label className="block text-sm text-gray-400">
+                      Prompt
+                      {activeLibraryPrompt && <span className="ml-2 text-xs text-purple-300">from "{activeLibraryPrompt.title}"</span>}
+                    </label>
+                    <div className="flex gap-3">
+                      <button
+                        type="button"
+                        onClick={() => setIsSavingPrompt(true)}
+                        disabled={!prompt.trim()}
+                        className="flex items-center gap-1 text-xs text-gray-400 hover:text-white transition-colors disabled:opacity-50"
+                      >
+                        <BookmarkIcon className="w-3.5 h-3.5" />
+                        Save
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => setPanel('library')}
+                        className="flex items-center gap-1 text-xs text-gray-400 hover:text-white transition-colors"
+                      >
+                        <BookOpenIcon className="w-3.5 h-3.5" />
+                        Library
+                      </button>
+                    </div>
+                  </div>
+                  <textarea
+                    value={prompt}
+                    onChange={(e) => setPrompt(e.target.value)}
+                    placeholder={usePro ? "Detailed portrait of a cyberpunk street warrior, 2K resolution, cinematic lighting..." : "A cute robot holding a flower... or a template: A {subject} in {season}"}
+                    className="w-full bg-gray-950 border border-gray-700 rounded-xl p-3 text-white placeholder-gray-600 focus:outline-none focus:ring-2 focus:ring-purple-500 min-h-[100px] resize-none"
+                  />
+                </div>
+
+                {isSavingPrompt && (
+                  <SavePromptForm
+                    text={prompt}
+                    target="image"
+                    variables={variables.length > 0 ? variableValues : undefined}
+                    existing={libraryPrompt}
+                    onSaved={handlePromptSaved}
+                    onCancel={() => setIsSavingPrompt(false)}
+                  />
+                )}
+
+                {/* Template variables and the combinations they expand to */}
+                {variables.length > 0 && (
+                  <div className="space-y-2">
+                    {variables.map(name => (
+                      <label key={name} className="flex items-center gap-2 text-xs text-gray-400">
+                        <span className="w-24 truncate font-mono text-blue-300">{`{${name}}`}</span>
+                        <input
+                          type="text"
+                          value={variableInputs[name] || ''}
+                          onChange={(e) => setVariableInputs(prev => ({ ...prev, [name]: e.target.value }))}
+                          placeholder="Values, comma separated"
+                          className="flex-1 bg-gray-950 border border-gray-700 rounded-lg p-2 text-sm text-white placeholder-gray-600 focus:outline-none focus:ring-1 focus:ring-purple-500"
+                        />
+                      </label>
+                    ))}
+                    {combinations.length > 0 && (
+                      <div className="max-h-40 overflow-y-auto rounded-lg border border-gray-800">
+                        <table className="w-full text-xs">
+                          <thead className="bg-gray-950 text-gray-500 sticky top-0">
+                            <tr>
+                              {variables.map(name => <th key={name} className="text-left font-medium px-2 py-1">{name}</th>)}
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {combinations.map((combination, i) => (
+                              <tr key={i} className="border-t border-gray-800 text-gray-300" title={combination.prompt}>
+                                {variables.map(name => <td key={name} className="px-2 py-1 truncate">{combination.variables[name]}</td>)}
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      </div>
+                    )}
+                    <p className={`text-xs ${jobCount > MAX_COMBINATIONS ? 'text-red-400' : 'text-gray-500'}`}>
+                      {missingValues.length > 0
+                        ? `Add values for ${missingValues.map(name => `{${name}}`).join(', ')}.`
+                        : `${combinations.length} combination${combinations.length === 1 ? '' : 's'} × ${selectedPresets.length} style${selectedPresets.length === 1 ? '' : 's'} = ${jobCount} image${jobCount === 1 ? '' : 's'}${jobCount > MAX_COMBINATIONS ? ` (max ${MAX_COMBINATIONS} per run)` : ''}`}
+                    </p>
+                  </div>
                 )}
-            </div>
-          </div>
-
-          <form onSubmit={handleGenerate} className="space-y-4">
-            <div>
-              <label className="block text-sm text-gray-400 mb-2">Prompt</label>
-              <textarea
-                value={prompt}
-                onChange={(e) => setPrompt(e.target.value)}
-                placeholder={usePro ? "Detailed portrait of a cyberpunk street warrior, 2K resolution, cinematic lighting..." : "A cute robot holding a flower..."}
-                className="w-full bg-gray-950 border border-gray-700 rounded-xl p-3 text-white placeholder-gray-600 focus:outline-none focus:ring-2 focus:ring-purple-500 min-h-[100px] resize-none"
-                disabled={isGenerating}
-              />
-            </div>
             
-            {error && <p className="text-red-400 text-sm bg-red-900/10 p-2 rounded border border-red-900/30">{error}</p>}
-
-            {/* API Key Requirement - Only show if using PRO and no key */}
-            {showApiKeyWarning ? (
-               <div className="bg-gray-800/50 border border-purple-500/30 rounded-xl p-4 space-y-3">
-                 <div className="flex items-start gap-3">
-                    <div className="p-2 bg-purple-500/10 rounded-lg">
-                        <KeyIcon className="w-5 h-5 text-purple-400" />
-                    </div>
-                    <div>
-                        <h4 className="text-sm font-medium text-white">Connect Google Cloud Project</h4>
-                        <p className="text-xs text-gray-400 mt-1">
-                            To use High-Quality (Pro) mode, you must select a Google Cloud Project.
-                        </p>
-                    </div>
-                 </div>
-                 <button
-                    type="button"
-                    onClick={handleSelectKey}
-                    className="w-full py-2 bg-gray-700 hover:bg-gray-600 text-white text-sm font-medium rounded-lg transition-colors flex items-center justify-center gap-2 border border-gray-600"
-                 >
-                    Select Cloud Project
-                 </button>
-                 <div className="text-center">
-                    <a href="https://ai.google.dev/gemini-api/docs/billing" target="_blank" rel="noreferrer" className="text-[10px] text-gray-500 hover:text-gray-400 underline">
-                        Learn more about billing
-                    </a>
-                 </div>
-               </div>
-            ) : (
-                <div className="flex justify-end pt-2">
-                    <button
-                    type="submit"
-                    disabled={isGenerating || !prompt.trim()}
-                    className={`
-                        w-full sm:w-auto px-6 py-2.5 rounded-xl font-medium text-white shadow-lg 
-                        flex items-center justify-center gap-2 transition-all
-                        ${isGenerating || !prompt.trim() 
-                        ? 'bg-gray-700 cursor-not-allowed text-gray-400' 
-                        : usePro 
-                            ? 'bg-gradient-to-r from-purple-600 to-blue-600 hover:from-purple-500 hover:to-blue-500 shadow-purple-900/30'
-                            : 'bg-purple-600 hover:bg-purple-500 shadow-purple-900/30'
-                        }
-                    `}
-                    >
-                    {isGenerating ? (
-                        <>
-                        <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin"></div>
-                        {variationCount > 1 ? `Generating ${variationCount}x...` : 'Generating...'}
-                        </>
-                    ) : (
-                        <>
+                {error && <p className="text-red-400 text-sm bg-red-900/10 p-2 rounded border border-red-900/30">{error}</p>}
+
+                {/* API Key Requirement - Only show if using PRO and no key */}
+                {showApiKeyWarning ? (
+                   <div className="bg-gray-800/50 border border-purple-500/30 rounded-xl p-4 space-y-3">
+                     <div className="flex items-start gap-3">
+                        <div className="p-2 bg-purple-500/10 rounded-lg">
+                            <KeyIcon className="w-5 h-5 text-purple-400" />
+                        </div>
+                        <div>
+                            <h4 className="text-sm font-medium text-white">Connect Google Cloud Project</h4>
+                            <p className="text-xs text-gray-400 mt-1">
+                                To use High-Quality (Pro) mode, you must select a Google Cloud Project.
+                            </p>
+                        </div>
+                     </div>
+                     <button
+                        type="button"
+                        onClick={handleSelectKey}
+                        className="w-full py-2 bg-gray-700 hover:bg-gray-600 text-white text-sm font-medium rounded-lg transition-colors flex items-center justify-center gap-2 border border-gray-600"
+                     >
+                        Select Cloud Project
+                     </button>
+                     <div className="text-center">
+                        <a href="https://ai.google.dev/gemini-api/docs/billing" target="_blank" rel="noreferrer" className="text-[10px] text-gray-500 hover:text-gray-400 underline">
+                            Learn more about billing
+                        </a>
+                     </div>
+                   </div>
+                ) : (
+                    <div className="flex justify-end pt-2">
+                        <button
+                        type="submit"
+                        disabled={!canGenerate}
+                        className={`
+                            w-full sm:w-auto px-6 py-2.5 rounded-xl font-medium text-white shadow-lg 
+                            flex items-center justify-center gap-2 transition-all
+                            ${!canGenerate 
+                            ? 'bg-gray-700 cursor-not-allowed text-gray-400' 
+                            : usePro 
+                                ? 'bg-gradient-to-r from-purple-600 to-blue-600 hover:from-purple-500 hover:to-blue-500 shadow-purple-900/30'
+                                : 'bg-purple-600 hover:bg-purple-500 shadow-purple-900/30'
+                            }
+                        `}
+                        >
                         <SparklesIcon className="w-5 h-5" />
-                        {variationCount > 1 ? `Generate ${variationCount} Styles` : 'Generate'}
-                        </>
-                    )}
-                    </button>
-                </div>
-            )}
-          </form>
+                        {jobCount > 1 ? `Generate ${jobCount} Images` : 'Generate'}
+                        </button>
+                    </div>
+                )}
+              </form>
+            </>
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,135 @@
+import React, { useState } from 'react';
+import { SparklesIcon, ChevronUpIcon, ChevronDownIcon, ArrowPathIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import { GenerationJob, GenerationJobStatus } from '../types';
+import {
+  CONCURRENCY_OPTIONS,
+  loadGenerationConcurrency,
+  setGenerationConcurrency,
+  cancelGenerationJob,
+  cancelAllGenerationJobs,
+  retryGenerationJob,
+  retryFailedGenerationJobs,
+  clearFinishedGenerationJobs
+} from '../services/generationQueue';
+import { composePrompt } from '../services/stylePresets';
+
+interface GenerationQueuePanelProps {
+  jobs: GenerationJob[];
+}
+
+const STATUS_STYLES: Record<GenerationJobStatus, string> = {
+  queued: 'text-gray-400',
+  running: 'text-purple-300',
+  done: 'text-green-400',
+  failed: 'text-red-400',
+  cancelled: 'text-gray-500',
+};
+
+const GenerationQueuePanel: React.FC<GenerationQueuePanelProps> = ({ jobs }) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [concurrency, setConcurrency] = useState(loadGenerationConcurrency);
+
+  if (jobs.length === 0) return null;
+
+  const count = (status: GenerationJobStatus) => jobs.filter(job => job.status === status).length;
+  const active = count('running') + count('queued');
+  const failed = jobs.filter(job => job.status === 'failed');
+
+  const handleConcurrency = (value: number) => {
+    setConcurrency(value);
+    setGenerationConcurrency(value);
+  };
+
+  const summary = active > 0
+    ? `Generating ${count('running')} · ${count('queued')} queued`
+    : `Done: ${count('done')} generated${failed.length > 0 ? `, ${failed.length} failed` : ''}`;
+
+  return (
+    <div className="fixed bottom-4 right-4 z-40 w-80 bg-gray-900 border border-gray-700 rounded-xl shadow-2xl overflow-hidden animate-fade-in">
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="w-full p-3 flex items-center gap-2 text-left hover:bg-gray-800/50 transition-colors"
+      >
+        <SparklesIcon className={`w-5 h-5 text-purple-400 ${active > 0 ? 'animate-pulse' : ''}`} />
+        <span className="flex-1 text-sm text-white">{summary}</span>
+        {failed.length > 0 && (
+          <span className="text-[10px] bg-red-900/50 text-red-300 px-2 py-0.5 rounded-full">{failed.length} failed</span>
+        )}
+        {isExpanded ? <ChevronDownIcon className="w-4 h-4 text-gray-400" /> : <ChevronUpIcon className="w-4 h-4 text-gray-400" />}
+      </button>
+
+      {isExpanded && (
+        <div className="border-t border-gray-800 p-3 space-y-3">
+          <div className="flex items-center justify-between text-xs text-gray-400">
+            <span>Run at once</span>
+            <div className="flex bg-gray-950 p-1 rounded-lg">
+              {CONCURRENCY_OPTIONS.map(value => (
+                <button
+                  key={value}
+                  onClick={() => handleConcurrency(value)}
+                  className={`w-7 h-6 rounded-md font-medium transition-all ${concurrency === value ? 'bg-purple-600 text-white' : 'text-gray-400 hover:text-white hover:bg-gray-800'}`}
+                >
+                  {value}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {failed.length > 0 && (
+            <div className="bg-red-900/10 border border-red-900/30 rounded-lg p-2 space-y-1">
+              <p className="text-xs font-medium text-red-300">Failed generations</p>
+              {failed.map(job => (
+                <p key={job.id} className="text-[11px] text-red-200/80 truncate" title={job.error}>
+                  {job.generation.prompt}{job.generation.style !== 'Original' ? ` (${job.generation.style})` : ''}: {job.error}
+                </p>
+              ))}
+            </div>
+          )}
+
+          <ul className="max-h-60 overflow-y-auto space-y-1">
+            {jobs.map(job => (
+              <li key={job.id} className="flex items-center gap-2 text-xs bg-gray-800/50 rounded-md px-2 py-1">
+                <span className="flex-1 truncate text-gray-300" title={composePrompt(job.generation)}>
+                  {job.generation.prompt}{job.generation.style !== 'Original' ? ` (${job.generation.style})` : ''}
+                </span>
+                <span className={`capitalize ${STATUS_STYLES[job.status]}`}>
+                  {job.status}{job.attempts > 1 ? ` ×${job.attempts}` : ''}
+                </span>
+                {(job.status === 'queued' || job.status === 'running') && (
+                  <button onClick={() => cancelGenerationJob(job.id)} className="p-0.5 rounded hover:bg-gray-700 text-gray-500 hover:text-white" title="Cancel">
+                    <XMarkIcon className="w-3.5 h-3.5" />
+                  </button>
+                )}
+                {(job.status === 'failed' || job.status === 'cancelled') && (
+                  <button onClick={() => retryGenerationJob(job.id)} className="p-0.5 rounded hover:bg-gray-700 text-gray-500 hover:text-white" title="Retry">
+                    <ArrowPathIcon className="w-3.5 h-3.5" />
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+
+          <div className="flex gap-2">
+            {failed.length > 0 && (
+              <button onClick={retryFailedGenerationJobs} className="flex-1 py-1.5 text-xs rounded-lg bg-gray-800 border border-gray-700 text-gray-300 hover:bg-gray-700">
+                Retry Failed
+              </button>
+            )}
+            {active > 0 && (
+              <button onClick={cancelAllGenerationJobs} className="flex-1 py-1.5 text-xs rounded-lg bg-gray-800 border border-gray-700 text-gray-300 hover:bg-gray-700">
+                Cancel All
+              </button>
+            )}
+            {jobs.length > active && (
+              <button onClick={clearFinishedGenerationJobs} className="flex-1 py-1.5 text-xs rounded-lg bg-gray-800 border border-gray-700 text-gray-300 hover:bg-gray-700">
+                Clear Finished
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GenerationQueuePanel;
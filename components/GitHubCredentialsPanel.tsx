@@ -0,0 +1,171 @@
+import React, { useState, useEffect } from 'react';
+import { KeyIcon, LockClosedIcon, LockOpenIcon, CheckCircleIcon } from '@heroicons/react/24/outline';
+import {
+  CredentialsStatus,
+  getCredentialsStatus,
+  getGitHubToken,
+  subscribeCredentials,
+  setGitHubToken,
+  unlockStoredToken,
+  forgetGitHubToken,
+  maskToken
+} from '../services/credentials';
+
+// Current credentials status, re-rendered whenever the token changes
+export const useGitHubCredentials = (): CredentialsStatus => {
+  const [status, setStatus] = useState<CredentialsStatus>(getCredentialsStatus());
+  useEffect(() => subscribeCredentials(() => setStatus(getCredentialsStatus())), []);
+  return status;
+};
+
+const inputClass = "w-full bg-gray-950 border border-gray-700 rounded-lg p-2 text-sm text-white placeholder-gray-600 focus:outline-none focus:ring-1 focus:ring-blue-500";
+
+// Shared token entry used by every GitHub dialog. Rendered inside other forms,
+// so it uses plain buttons instead of a nested <form>.
+const GitHubCredentialsPanel: React.FC = () => {
+  const status = useGitHubCredentials();
+  const [isEditing, setIsEditing] = useState(false);
+  const [tokenInput, setTokenInput] = useState('');
+  const [remember, setRemember] = useState(false);
+  const [passphrase, setPassphrase] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  const run = async (action: () => Promise<void>) => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      await action();
+      setTokenInput('');
+      setPassphrase('');
+      setIsEditing(false);
+    } catch (err: any) {
+      setError(err.message || 'Something went wrong');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleSave = () => {
+    if (remember && !passphrase) {
+      setError('Choose a passphrase to encrypt the saved token.');
+      return;
+    }
+    run(() => setGitHubToken(tokenInput, remember ? passphrase : undefined));
+  };
+
+  const handleUnlock = () => run(() => unlockStoredToken(passphrase));
+
+  const submitOnEnter = (handler: () => void) => (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      handler();
+    }
+  };
+
+  if (status === 'ready' && !isEditing) {
+    return (
+      <div className="flex items-center justify-between gap-2 bg-gray-800/50 border border-gray-700/50 rounded-lg p-2.5 text-sm">
+        <span className="flex items-center gap-2 text-gray-300">
+          <CheckCircleIcon className="w-4 h-4 text-green-500" />
+          GitHub token {maskToken(getGitHubToken() || '')}
+        </span>
+        <div className="flex gap-3 text-xs">
+          <button type="button" onClick={() => setIsEditing(true)} className="text-gray-400 hover:text-white">Change</button>
+          <button type="button" onClick={forgetGitHubToken} className="text-red-400 hover:text-red-300">Forget</button>
+        </div>
+      </div>
+    );
+  }
+
+  if (status === 'locked' && !isEditing) {
+    return (
+      <div className="bg-gray-800/50 border border-gray-700/50 rounded-lg p-3 space-y-2">
+        <label className="flex items-center gap-2 text-xs text-gray-400">
+          <LockClosedIcon className="w-4 h-4 text-yellow-500" />
+          A saved GitHub token is locked. Enter your passphrase to use it.
+        </label>
+        <div className="flex gap-2">
+          <input
+            type="password"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            onKeyDown={submitOnEnter(handleUnlock)}
+            placeholder="Passphrase"
+            className={inputClass}
+          />
+          <button
+            type="button"
+            onClick={handleUnlock}
+            disabled={isBusy || !passphrase}
+            className="flex items-center gap-1 bg-blue-600 hover:bg-blue-500 text-white px-3 rounded-lg text-sm disabled:opacity-50"
+          >
+            <LockOpenIcon className="w-4 h-4" />
+            Unlock
+          </button>
+        </div>
+        {error && <p className="text-xs text-red-400">{error}</p>}
+        <button type="button" onClick={() => setIsEditing(true)} className="text-xs text-gray-500 hover:text-white">
+          Use a different token
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-gray-800/50 border border-gray-700/50 rounded-lg p-3 space-y-2">
+      <label className="flex items-center gap-2 text-xs text-gray-400">
+        <KeyIcon className="w-4 h-4" />
+        GitHub Personal Access Token (<code>repo</code> scope for private repos, otherwise <code>public_repo</code>)
+      </label>
+      <input
+        type="password"
+        value={tokenInput}
+        onChange={(e) => setTokenInput(e.target.value)}
+        onKeyDown={submitOnEnter(handleSave)}
+        placeholder="ghp_..."
+        className={inputClass}
+      />
+      <label className="flex items-center gap-2 text-xs text-gray-400 cursor-pointer select-none">
+        <input
+          type="checkbox"
+          checked={remember}
+          onChange={(e) => setRemember(e.target.checked)}
+          className="rounded border-gray-700 bg-gray-950 text-blue-600 focus:ring-blue-500"
+        />
+        Remember on this device (encrypted with a passphrase)
+      </label>
+      {remember && (
+        <input
+          type="password"
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+          onKeyDown={submitOnEnter(handleSave)}
+          placeholder="Passphrase"
+          className={inputClass}
+        />
+      )}
+      {error && <p className="text-xs text-red-400">{error}</p>}
+      <div className="flex justify-end gap-3">
+        {isEditing && (
+          <button type="button" onClick={() => setIsEditing(false)} className="text-xs text-gray-400 hover:text-white">
+            Cancel
+          </button>
+        )}
+        <button
+          type="button"
+          onClick={handleSave}
+          disabled={isBusy || !tokenInput.trim()}
+          className="bg-blue-600 hover:bg-blue-500 text-white px-3 py-1.5 rounded-lg text-sm disabled:opacity-50"
+        >
+          Use Token
+        </button>
+      </div>
+      <p className="text-[10px] text-gray-500">
+        Without "Remember", the token is kept in memory only and is gone when you close the tab.
+      </p>
+    </div>
+  );
+};
+
+export default GitHubCredentialsPanel;
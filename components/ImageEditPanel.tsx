@@ -0,0 +1,242 @@
+import React, { useState, useEffect } from 'react';
+import {
+  ArrowUturnLeftIcon,
+  ArrowUturnRightIcon,
+  ArrowsRightLeftIcon,
+  ArrowsUpDownIcon,
+  XMarkIcon,
+  DocumentDuplicateIcon,
+  ArrowPathIcon
+} from '@heroicons/react/24/outline';
+import { ImageEdit } from '../types';
+import { CROP_PRESETS, NEUTRAL_ADJUST, aspectCrop, describeEdit, editedSize } from '../services/imageEdits';
+
+interface ImageEditPanelProps {
+  edits: ImageEdit[];
+  // Pixel size of the original, null while it loads
+  sourceSize: { width: number; height: number } | null;
+  error: string | null;
+  isSaving: boolean;
+  onChange: (edits: ImageEdit[]) => void;
+  onSaveAsNew: () => void;
+  onRevert: () => void;
+}
+
+type AdjustKey = keyof typeof NEUTRAL_ADJUST;
+
+const ADJUST_SLIDERS: { key: AdjustKey; label: string; min: number; max: number; step: number }[] = [
+  { key: 'exposure', label: 'Exposure', min: -2, max: 2, step: 0.1 },
+  { key: 'contrast', label: 'Contrast', min: -100, max: 100, step: 1 },
+  { key: 'saturation', label: 'Saturation', min: -100, max: 100, step: 1 },
+];
+
+const sectionTitle = "text-xs font-semibold text-gray-400 uppercase tracking-wide mb-2";
+const toolButton = "flex items-center justify-center gap-1 px-3 py-1.5 rounded-lg text-xs font-medium border bg-gray-800 border-gray-700 text-gray-300 hover:bg-gray-700 transition-colors disabled:opacity-50";
+const activeToolButton = "flex items-center justify-center gap-1 px-3 py-1.5 rounded-lg text-xs font-medium border bg-blue-600/20 border-blue-500 text-blue-200 transition-colors";
+
+const ImageEditPanel: React.FC<ImageEditPanelProps> = ({ edits, sourceSize, error, isSaving, onChange, onSaveAsNew, onRevert }) => {
+  const last = edits[edits.length - 1];
+  // Sliders and the crop position keep refining the top edit instead of stacking new ones
+  const withoutLast = last ? edits.slice(0, -1) : edits;
+  const size = sourceSize && editedSize(sourceSize.width, sourceSize.height, edits);
+  const [resizeWidth, setResizeWidth] = useState('');
+
+  useEffect(() => {
+    if (size) setResizeWidth(String(size.width));
+  }, [size?.width]);
+
+  const replaceOrPush = (type: ImageEdit['type'], edit: ImageEdit) => {
+    onChange(last?.type === type ? [...withoutLast, edit] : [...edits, edit]);
+  };
+
+  const handleCrop = (aspect: string) => {
+    if (!sourceSize) return;
+    const base = last?.type === 'crop' ? withoutLast : edits;
+    const { width, height } = editedSize(sourceSize.width, sourceSize.height, base);
+    onChange([...base, aspectCrop(aspect, width, height)]);
+  };
+
+  const cropPosition = last?.type === 'crop'
+    ? (last.width < 1 ? last.x / (1 - last.width) : last.height < 1 ? last.y / (1 - last.height) : 0.5)
+    : 0.5;
+
+  const handleCropPosition = (position: number) => {
+    if (!sourceSize || last?.type !== 'crop') return;
+    const { width, height } = editedSize(sourceSize.width, sourceSize.height, withoutLast);
+    onChange([...withoutLast, aspectCrop(last.aspect, width, height, position)]);
+  };
+
+  // Consecutive rotations are merged; a full turn cancels out
+  const handleRotate = (degrees: 90 | 270) => {
+    if (last?.type === 'rotate') {
+      const total = (last.degrees + degrees) % 360;
+      onChange(total === 0 ? withoutLast : [...withoutLast, { type: 'rotate', degrees: total as 90 | 180 | 270 }]);
+    } else {
+      onChange([...edits, { type: 'rotate', degrees }]);
+    }
+  };
+
+  const handleFlip = (axis: 'horizontal' | 'vertical') => {
+    // Flipping twice is a no-op
+    if (last?.type === 'flip' && last.axis === axis) onChange(withoutLast);
+    else onChange([...edits, { type: 'flip', axis }]);
+  };
+
+  const adjust = last?.type === 'adjust' ? last : { type: 'adjust' as const, ...NEUTRAL_ADJUST };
+
+  const handleAdjust = (key: AdjustKey, value: number) => {
+    replaceOrPush('adjust', { ...adjust, [key]: value });
+  };
+
+  const resizeHeight = size && Number(resizeWidth) > 0 ? Math.round(size.height * Number(resizeWidth) / size.width) : 0;
+
+  const handleResize = () => {
+    const width = Math.round(Number(resizeWidth));
+    if (!size || width <= 0 || width === size.width) return;
+    replaceOrPush('resize', { type: 'resize', width, height: resizeHeight });
+  };
+
+  if (error) {
+    return <p className="text-sm text-red-400">{error}</p>;
+  }
+
+  if (!sourceSize) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-gray-400">
+        <ArrowPathIcon className="w-4 h-4 animate-spin" />
+        Loading original...
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h4 className={sectionTitle}>Crop</h4>
+        <div className="flex flex-wrap gap-2">
+          {CROP_PRESETS.map(preset => (
+            <button
+              key={preset.value}
+              onClick={() => handleCrop(preset.value)}
+              className={last?.type === 'crop' && last.aspect === preset.value ? activeToolButton : toolButton}
+            >
+              {preset.value}
+            </button>
+          ))}
+        </div>
+        {last?.type === 'crop' && (last.width < 1 || last.height < 1) && (
+          <label className="block mt-3 text-xs text-gray-500">
+            Position
+            <input
+              type="range"
+              min={0}
+              max={1}
+              step={0.01}
+              value={cropPosition}
+              onChange={(e) => handleCropPosition(Number(e.target.value))}
+              className="w-full accent-blue-500"
+            />
+          </label>
+        )}
+      </div>
+
+      <div>
+        <h4 className={sectionTitle}>Rotate & Flip</h4>
+        <div className="flex flex-wrap gap-2">
+          <button onClick={() => handleRotate(270)} className={toolButton} title="Rotate left">
+            <ArrowUturnLeftIcon className="w-4 h-4" />
+          </button>
+          <button onClick={() => handleRotate(90)} className={toolButton} title="Rotate right">
+            <ArrowUturnRightIcon className="w-4 h-4" />
+          </button>
+          <button onClick={() => handleFlip('horizontal')} className={toolButton} title="Flip horizontal">
+            <ArrowsRightLeftIcon className="w-4 h-4" />
+          </button>
+          <button onClick={() => handleFlip('vertical')} className={toolButton} title="Flip vertical">
+            <ArrowsUpDownIcon className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      <div>
+        <h4 className={sectionTitle}>Adjust</h4>
+        <div className="space-y-2">
+          {ADJUST_SLIDERS.map(slider => (
+            <label key={slider.key} className="block text-xs text-gray-500">
+              <span className="flex justify-between">
+                {slider.label}
+                <span className="font-mono text-gray-400">{adjust[slider.key] > 0 ? '+' : ''}{adjust[slider.key]}</span>
+              </span>
+              <input
+                type="range"
+                min={slider.min}
+                max={slider.max}
+                step={slider.step}
+                value={adjust[slider.key]}
+                onChange={(e) => handleAdjust(slider.key, Number(e.target.value))}
+                onDoubleClick={() => handleAdjust(slider.key, 0)}
+                className="w-full accent-blue-500"
+              />
+            </label>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <h4 className={sectionTitle}>Resize</h4>
+        <div className="flex items-center gap-2 text-xs text-gray-400">
+          <input
+            type="number"
+            min={1}
+            value={resizeWidth}
+            onChange={(e) => setResizeWidth(e.target.value)}
+            className="w-20 bg-gray-950 border border-gray-700 rounded-md p-1 text-white focus:outline-none focus:ring-1 focus:ring-blue-500"
+          />
+          × {resizeHeight || '—'} px
+          <button onClick={handleResize} disabled={!resizeHeight || Number(resizeWidth) === size!.width} className={`${toolButton} ml-auto`}>
+            Apply
+          </button>
+        </div>
+      </div>
+
+      <div>
+        <h4 className={sectionTitle}>Edit Stack</h4>
+        {edits.length === 0 ? (
+          <p className="text-xs text-gray-500 italic">No edits. The original is shown.</p>
+        ) : (
+          <ol className="space-y-1">
+            {edits.map((edit, i) => (
+              <li key={i} className="flex items-center justify-between text-xs bg-gray-800/50 border border-gray-700/50 rounded-md px-2 py-1 text-gray-300">
+                {i + 1}. {describeEdit(edit)}
+                <button
+                  onClick={() => onChange(edits.filter((_, j) => j !== i))}
+                  className="p-0.5 rounded hover:bg-gray-700 text-gray-500 hover:text-white"
+                  title="Remove this edit"
+                >
+                  <XMarkIcon className="w-3 h-3" />
+                </button>
+              </li>
+            ))}
+          </ol>
+        )}
+        <p className="text-[10px] text-gray-500 mt-2">{size!.width}×{size!.height} px</p>
+      </div>
+
+      <div className="flex gap-2">
+        <button onClick={onRevert} disabled={edits.length === 0 || isSaving} className={`${toolButton} flex-1`}>
+          Revert
+        </button>
+        <button
+          onClick={onSaveAsNew}
+          disabled={edits.length === 0 || isSaving}
+          className="flex-1 flex items-center justify-center gap-1 px-3 py-1.5 rounded-lg text-xs font-medium bg-blue-600 hover:bg-blue-500 text-white transition-colors disabled:opacity-50"
+        >
+          {isSaving ? <ArrowPathIcon className="w-4 h-4 animate-spin" /> : <DocumentDuplicateIcon className="w-4 h-4" />}
+          Save as New Image
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ImageEditPanel;
@@ -1,6 +1,11 @@
 import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { ImageItem } from '../types';
+import { ImageItem, ImageEdit } from '../types';
 import { analyzeImage, urlToBase64, generateSpeech } from '../services/geminiService';
+import { mergeTags } from '../services/tags';
+import { loadEditSource, renderEdits, canvasToImageData } from '../services/imageEdits';
+import { LineageNode } from '../services/lineage';
+import ImageEditPanel from './ImageEditPanel';
+import LineageTree from './LineageTree';
 import { 
   XMarkIcon, 
   ChevronLeftIcon, 
@@ -10,7 +15,12 @@ import {
   SpeakerWaveIcon,
   TrashIcon,
   PaintBrushIcon,
-  CubeTransparentIcon
+  CubeTransparentIcon,
+  MagnifyingGlassCircleIcon,
+  TagIcon,
+  AdjustmentsHorizontalIcon,
+  ArrowPathIcon,
+  ShareIcon
 } from '@heroicons/react/24/outline';
 
 interface ImageViewerProps {
@@ -22,8 +32,21 @@ interface ImageViewerProps {
   hasNext: boolean;
   hasPrev: boolean;
   onDelete: () => void;
-  onGenerate: (prompt: string) => void;
+  // Opens the generator with the prompt; parentId links the result back as a remix
+  onGenerate: (prompt: string, parentId?: string) => void;
+  // Queues another image with the same generation record
+  onRegenerate: (image: ImageItem) => void;
   onVisualize: (image: ImageItem) => void;
+  onAnalysisComplete: (id: string, analysis: string) => void;
+  onFindSimilar: (image: ImageItem) => void;
+  onUpdateTags: (id: string, tags: string[]) => void;
+  onUpdateEdits: (id: string, edits: ImageEdit[]) => void;
+  // Adds the edited pixels to the gallery as a new image
+  onSaveEdited: (image: ImageItem, content: { base64: string; mimeType: string }) => void;
+  onAiEdit: (image: ImageItem) => void;
+  // Remixes and AI edits this image belongs to, null if it has no relatives
+  lineage: LineageNode | null;
+  onOpenImage: (id: string) => void;
 }
 
 // Audio helpers
@@ -66,26 +89,75 @@ const ImageViewer: React.FC<ImageViewerProps> = ({
   hasPrev,
   onDelete,
   onGenerate,
-  onVisualize
+  onRegenerate,
+  onVisualize,
+  onAnalysisComplete,
+  onFindSimilar,
+  onUpdateTags,
+  onUpdateEdits,
+  onSaveEdited,
+  onAiEdit,
+  lineage,
+  onOpenImage
 }) => {
   const [isAnalyzing, setIsAnalyzing] = useState(false);
-  const [analysis, setAnalysis] = useState<string | null>(image.description || null);
+  const [analysis, setAnalysis] = useState<string | null>(image.analysis || image.description || null);
   const [showInfo, setShowInfo] = useState(false);
+  const [tagInput, setTagInput] = useState('');
+  const [regenerateCount, setRegenerateCount] = useState(0);
+
+  // Editing state: the original pixels are loaded once per image and the edit stack replayed on them
+  const [showEdit, setShowEdit] = useState(false);
+  const [editSource, setEditSource] = useState<HTMLCanvasElement | null>(null);
+  const [editError, setEditError] = useState<string | null>(null);
+  const [isSavingEdit, setIsSavingEdit] = useState(false);
+  const previewCanvasRef = useRef<HTMLCanvasElement>(null);
+  const edits = image.edits || [];
+  const showEdited = !!editSource && edits.length > 0;
   
   // Audio state
   const [isSpeaking, setIsSpeaking] = useState(false);
   const audioContextRef = useRef<AudioContext | null>(null);
   const audioSourceRef = useRef<AudioBufferSourceNode | null>(null);
 
-  // Reset local state when image changes
+  // Reset local state when image changes (keyed by id so cached analysis updates don't close the panel)
   useEffect(() => {
-    setAnalysis(image.description || null);
+    setAnalysis(image.analysis || image.description || null);
     setShowInfo(false);
+    setTagInput('');
+    setRegenerateCount(0);
+    setEditSource(null);
+    setEditError(null);
     stopAudio();
-  }, [image]);
+  }, [image.id]);
+
+  const needsEditSource = showEdit || edits.length > 0;
+  useEffect(() => {
+    if (!needsEditSource || editSource || editError) return;
+    let cancelled = false;
+    loadEditSource(image)
+      .then(source => { if (!cancelled) setEditSource(source); })
+      .catch(error => {
+        console.error("Failed to load image for editing", error);
+        if (!cancelled) setEditError("This image can't be edited here: its pixels could not be read (the host may block cross-origin access).");
+      });
+    return () => { cancelled = true; };
+  }, [image.id, needsEditSource, editSource, editError]);
+
+  // Replay the stack whenever it changes
+  useEffect(() => {
+    const canvas = previewCanvasRef.current;
+    if (!showEdited || !canvas) return;
+    const rendered = renderEdits(editSource!, edits);
+    canvas.width = rendered.width;
+    canvas.height = rendered.height;
+    canvas.getContext('2d')?.drawImage(rendered, 0, 0);
+  }, [showEdited, editSource, image.edits]);
 
   const handleKeyDown = useCallback((e: KeyboardEvent) => {
     if (!isOpen) return;
+    // Don't hijack typing in the info panel (e.g. the tag input)
+    if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
     if (e.key === 'Escape') onClose();
     if (e.key === 'ArrowRight' && hasNext) onNext();
     if (e.key === 'ArrowLeft' && hasPrev) onPrev();
@@ -118,6 +190,11 @@ const ImageViewer: React.FC<ImageViewerProps> = ({
     setIsSpeaking(false);
   };
 
+  const handleRegenerate = () => {
+    onRegenerate(image);
+    setRegenerateCount(count => count + 1);
+  };
+
   const handleAnalyze = async () => {
     if (analysis) {
       setShowInfo(true);
@@ -133,6 +210,7 @@ const ImageViewer: React.FC<ImageViewerProps> = ({
       }
       const result = await analyzeImage(base64);
       setAnalysis(result);
+      onAnalysisComplete(image.id, result);
     } catch (error) {
       setAnalysis("Failed to analyze image. Please try again.");
     } finally {
@@ -140,6 +218,21 @@ const ImageViewer: React.FC<ImageViewerProps> = ({
     }
   };
 
+  const handleAddTag = (e: React.FormEvent) => {
+    e.preventDefault();
+    // Allow "a, b, c" to add several tags at once
+    const added = tagInput.split(',');
+    const tags = mergeTags(image.tags, added);
+    if (tags.length !== (image.tags || []).length) {
+      onUpdateTags(image.id, tags);
+    }
+    setTagInput('');
+  };
+
+  const handleRemoveTag = (tag: string) => {
+    onUpdateTags(image.id, (image.tags || []).filter(t => t !== tag));
+  };
+
   const handleSpeak = async () => {
     if (isSpeaking) {
       stopAudio();
@@ -181,6 +274,19 @@ const ImageViewer: React.FC<ImageViewerProps> = ({
     }
   };
 
+  const handleSaveEdited = () => {
+    if (!editSource || edits.length === 0) return;
+    setIsSavingEdit(true);
+    try {
+      onSaveEdited(image, canvasToImageData(renderEdits(editSource, edits), image.mimeType));
+    } catch (error) {
+      console.error("Failed to save edited image", error);
+      setEditError("Could not export the edited image.");
+    } finally {
+      setIsSavingEdit(false);
+    }
+  };
+
   if (!isOpen) return null;
 
   return (
@@ -197,6 +303,14 @@ const ImageViewer: React.FC<ImageViewerProps> = ({
             <TrashIcon className="w-6 h-6" />
           </button>
 
+          <button 
+            onClick={() => onFindSimilar(image)}
+            className="p-2 rounded-full transition-colors text-blue-400 hover:text-blue-200 hover:bg-blue-900/20"
+            title="Find Similar Images"
+          >
+            <MagnifyingGlassCircleIcon className="w-6 h-6" />
+          </button>
+
           <button 
             onClick={() => onVisualize(image)}
             className="p-2 rounded-full transition-colors text-purple-400 hover:text-purple-200 hover:bg-purple-900/20"
@@ -206,7 +320,23 @@ const ImageViewer: React.FC<ImageViewerProps> = ({
           </button>
           
           <button 
-            onClick={() => setShowInfo(!showInfo)}
+            onClick={() => onAiEdit(image)}
+            className="p-2 rounded-full transition-colors text-purple-400 hover:text-purple-200 hover:bg-purple-900/20"
+            title="AI Edit (inpaint or transform this image)"
+          >
+            <SparklesIcon className="w-6 h-6" />
+          </button>
+
+          <button 
+            onClick={() => { setShowEdit(!showEdit); setShowInfo(false); }}
+            className={`p-2 rounded-full transition-colors ${showEdit ? 'bg-white/20 text-white' : 'text-gray-300 hover:text-white hover:bg-white/10'}`}
+            title="Edit Image"
+          >
+            <AdjustmentsHorizontalIcon className="w-6 h-6" />
+          </button>
+
+          <button 
+            onClick={() => { setShowInfo(!showInfo); setShowEdit(false); }}
             className={`p-2 rounded-full transition-colors ${showInfo ? 'bg-white/20 text-white' : 'text-gray-300 hover:text-white hover:bg-white/10'}`}
             title="Image Info & AI Analysis"
           >
@@ -225,11 +355,18 @@ const ImageViewer: React.FC<ImageViewerProps> = ({
       {/* Main Image Area */}
       <div className="relative w-full h-full flex items-center justify-center p-4 md:p-12">
         <div className="relative max-w-full max-h-full">
-           <img 
-            src={image.url} 
-            alt={image.title}
-            className="max-w-full max-h-[85vh] object-contain shadow-2xl rounded-sm select-none"
-          />
+          {showEdited ? (
+            <canvas
+              ref={previewCanvasRef}
+              className="max-w-full max-h-[85vh] shadow-2xl rounded-sm select-none"
+            />
+          ) : (
+            <img 
+              src={image.url} 
+              alt={image.title}
+              className="max-w-full max-h-[85vh] object-contain shadow-2xl rounded-sm select-none"
+            />
+          )}
         </div>
       </div>
 
@@ -252,6 +389,27 @@ const ImageViewer: React.FC<ImageViewerProps> = ({
         </button>
       )}
 
+      {/* Edit Panel */}
+      <div 
+        className={`absolute right-0 top-0 bottom-0 w-full md:w-80 bg-gray-900/95 border-l border-gray-700 p-6 transform transition-transform duration-300 ease-in-out z-40 overflow-y-auto ${showEdit ? 'translate-x-0' : 'translate-x-full'}`}
+      >
+        <div className="mt-16">
+          <h3 className="text-lg font-semibold text-white mb-4 flex items-center gap-2">
+            <AdjustmentsHorizontalIcon className="w-5 h-5 text-blue-400" />
+            Edit
+          </h3>
+          <ImageEditPanel
+            edits={edits}
+            sourceSize={editSource && { width: editSource.width, height: editSource.height }}
+            error={editError}
+            isSaving={isSavingEdit}
+            onChange={(next) => onUpdateEdits(image.id, next)}
+            onSaveAsNew={handleSaveEdited}
+            onRevert={() => onUpdateEdits(image.id, [])}
+          />
+        </div>
+      </div>
+
       {/* Info/Analysis Panel */}
       <div 
         className={`absolute right-0 top-0 bottom-0 w-full md:w-96 bg-gray-900/95 border-l border-gray-700 p-6 transform transition-transform duration-300 ease-in-out z-40 overflow-y-auto ${showInfo ? 'translate-x-0' : 'translate-x-full'}`}
@@ -263,6 +421,118 @@ const ImageViewer: React.FC<ImageViewerProps> = ({
             <p className="text-gray-400 text-sm">Source: <span className="capitalize">{image.source}</span></p>
           </div>
 
+          {image.generation && (
+            <div className="border-t border-gray-700 pt-6">
+              <h3 className="text-lg font-semibold text-white mb-3 flex items-center gap-2">
+                <PaintBrushIcon className="w-5 h-5 text-purple-400" />
+                Generation
+              </h3>
+              <p className="text-gray-300 text-sm bg-gray-800/50 rounded-lg p-3 border border-gray-700 whitespace-pre-line mb-3">
+                {image.generation.prompt}
+              </p>
+              <dl className="grid grid-cols-[auto,1fr] gap-x-3 gap-y-1 text-xs mb-3">
+                <dt className="text-gray-500">Style</dt>
+                <dd className="text-gray-300">{image.generation.style}</dd>
+                {image.generation.negativeHints && (
+                  <>
+                    <dt className="text-gray-500">Avoid</dt>
+                    <dd className="text-gray-300">{image.generation.negativeHints}</dd>
+                  </>
+                )}
+                {image.generation.variables && Object.entries(image.generation.variables).map(([name, value]) => (
+                  <React.Fragment key={name}>
+                    <dt className="text-gray-500 font-mono">{`{${name}}`}</dt>
+                    <dd className="text-gray-300">{value}</dd>
+                  </React.Fragment>
+                ))}
+                <dt className="text-gray-500">Model</dt>
+                <dd className="text-gray-300 font-mono">{image.generation.model}</dd>
+                <dt className="text-gray-500">Aspect</dt>
+                <dd className="text-gray-300">{image.generation.aspectRatio}{image.generation.imageSize ? ` · ${image.generation.imageSize}` : ''}</dd>
+                {image.generation.references && (
+                  <>
+                    <dt className="text-gray-500">References</dt>
+                    <dd className="flex flex-wrap gap-x-2 text-gray-300">
+                      {image.generation.references.map((ref, i) => (
+                        <button key={ref.imageId} onClick={() => onOpenImage(ref.imageId)} className="hover:text-white underline decoration-gray-600">
+                          #{i + 1} {ref.role === 'style' ? 'Style' : 'Subject'}
+                        </button>
+                      ))}
+                    </dd>
+                  </>
+                )}
+              </dl>
+              <div className="flex flex-wrap gap-2">
+                <button
+                  onClick={handleRegenerate}
+                  className="flex items-center gap-2 text-xs px-3 py-1.5 rounded-full border border-purple-500/50 text-purple-300 hover:bg-purple-500/20 transition-all"
+                  title="Queue another image with the same prompt, style, model and aspect ratio"
+                >
+                  <ArrowPathIcon className="w-3.5 h-3.5" />
+                  Regenerate
+                </button>
+                <button
+                  onClick={() => onGenerate(image.generation!.prompt, image.id)}
+                  className="flex items-center gap-2 text-xs px-3 py-1.5 rounded-full border border-gray-600 text-gray-400 hover:text-white hover:border-gray-400 transition-all"
+                  title="Open the generator with this prompt"
+                >
+                  <PaintBrushIcon className="w-3.5 h-3.5" />
+                  Edit Prompt
+                </button>
+              </div>
+              {regenerateCount > 0 && (
+                <p className="text-xs text-gray-500 mt-2">
+                  {regenerateCount === 1 ? 'Queued.' : `Queued ${regenerateCount}.`} New images appear at the top of the gallery.
+                </p>
+              )}
+            </div>
+          )}
+
+          {lineage && (
+            <div className="border-t border-gray-700 pt-6">
+              <h3 className="text-lg font-semibold text-white mb-3 flex items-center gap-2">
+                <ShareIcon className="w-5 h-5 text-blue-400" />
+                Lineage
+              </h3>
+              <ul className="space-y-1">
+                <LineageTree node={lineage} currentId={image.id} onOpenImage={onOpenImage} />
+              </ul>
+            </div>
+          )}
+
+          <div className="border-t border-gray-700 pt-6">
+            <h3 className="text-lg font-semibold text-white mb-3 flex items-center gap-2">
+              <TagIcon className="w-5 h-5 text-blue-400" />
+              Tags
+            </h3>
+            <div className="flex flex-wrap gap-1.5 mb-3">
+              {(image.tags || []).length === 0 && (
+                <span className="text-xs text-gray-500 italic">No tags yet.</span>
+              )}
+              {(image.tags || []).map(tag => (
+                <span key={tag} className="flex items-center gap-1 text-xs bg-blue-900/30 text-blue-200 pl-2.5 pr-1 py-0.5 rounded-full border border-blue-500/20">
+                  {tag}
+                  <button
+                    onClick={() => handleRemoveTag(tag)}
+                    className="p-0.5 rounded-full hover:bg-blue-500/20"
+                    title={`Remove "${tag}"`}
+                  >
+                    <XMarkIcon className="w-3 h-3" />
+                  </button>
+                </span>
+              ))}
+            </div>
+            <form onSubmit={handleAddTag}>
+              <input
+                type="text"
+                value={tagInput}
+                onChange={(e) => setTagInput(e.target.value)}
+                placeholder="Add tags (comma separated)..."
+                className="w-full bg-gray-950 border border-gray-700 rounded-lg p-2 text-sm text-white placeholder-gray-600 focus:outline-none focus:ring-1 focus:ring-blue-500"
+              />
+            </form>
+          </div>
+
           <div className="border-t border-gray-700 pt-6">
             <div className="flex items-center justify-between mb-4">
               <h3 className="text-lg font-semibold text-white flex items-center gap-2">
@@ -313,7 +583,7 @@ const ImageViewer: React.FC<ImageViewerProps> = ({
                     </button>
                    
                    <button 
-                    onClick={() => onGenerate(analysis)}
+                    onClick={() => onGenerate(analysis, image.id)}
                     className="flex items-center gap-2 text-xs px-3 py-1.5 rounded-full border border-purple-500/50 text-purple-300 hover:bg-purple-500/20 transition-all"
                     title="Create a new image based on this description"
                    >
@@ -0,0 +1,98 @@
+import React from 'react';
+import { XMarkIcon, DocumentDuplicateIcon } from '@heroicons/react/24/outline';
+import { ImportDuplicatePolicy } from '../types';
+import { ImportPlan, DUPLICATE_POLICIES } from '../services/importDedupe';
+
+interface ImportSummaryModalProps {
+  plan: ImportPlan | null;
+  onClose: () => void;
+  policy: ImportDuplicatePolicy;
+  onPolicyChange: (policy: ImportDuplicatePolicy) => void;
+  // Add the skipped images after all
+  onImportSkipped: () => void;
+}
+
+const ImportSummaryModal: React.FC<ImportSummaryModalProps> = ({ plan, onClose, policy, onPolicyChange, onImportSkipped }) => {
+  if (!plan) return null;
+
+  const skipped = new Set(plan.skipped.map(m => m.image));
+  const replacedIds = new Set(plan.replaced.map(img => img.id));
+
+  const outcome = (match: ImportPlan['duplicates'][number]) => {
+    if (skipped.has(match.image)) return { label: 'Skipped', className: 'text-yellow-400' };
+    if (replacedIds.has(match.duplicateOf.id)) return { label: 'Replaced', className: 'text-blue-400' };
+    return { label: 'Kept both', className: 'text-green-400' };
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm p-4 animate-fade-in">
+      <div className="bg-gray-900 border border-gray-700 rounded-2xl w-full max-w-2xl shadow-2xl overflow-hidden flex flex-col max-h-[90vh] animate-scale-in">
+        <div className="p-4 border-b border-gray-800 flex justify-between items-center bg-gray-900/50">
+          <h3 className="text-white font-semibold flex items-center gap-2">
+            <DocumentDuplicateIcon className="w-5 h-5 text-yellow-500" />
+            Duplicates Found
+          </h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-white transition-colors">
+            <XMarkIcon className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="p-6 overflow-y-auto flex-1 space-y-4">
+          <p className="text-sm text-gray-400">
+            Added {plan.added.length}, replaced {plan.replaced.length}, skipped {plan.skipped.length} of {plan.added.length + plan.replaced.length + plan.skipped.length} imported images.
+          </p>
+
+          <div className="space-y-2">
+            {plan.duplicates.map(match => {
+              const { label, className } = outcome(match);
+              return (
+                <div key={match.image.id} className="flex items-center gap-3 p-2 rounded-lg bg-gray-800/50 border border-gray-700/50">
+                  <img src={match.image.thumbnailUrl || match.image.url} alt={match.image.title} className="w-14 h-14 object-cover rounded" />
+                  <img src={match.duplicateOf.thumbnailUrl || match.duplicateOf.url} alt={match.duplicateOf.title} className="w-14 h-14 object-cover rounded opacity-70" />
+                  <div className="flex-1 min-w-0 text-sm">
+                    <div className="text-gray-200 truncate">{match.image.title}</div>
+                    <div className="text-xs text-gray-500 truncate">
+                      {match.kind === 'identical' ? 'Identical to' : 'Looks like'} "{match.duplicateOf.title}"
+                    </div>
+                  </div>
+                  <span className={`text-xs font-medium ${className}`}>{label}</span>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+
+        <div className="p-4 bg-gray-900 border-t border-gray-800 flex flex-wrap items-center justify-between gap-3">
+          <label className="flex items-center gap-2 text-xs text-gray-400">
+            Duplicates on import:
+            <select
+              value={policy}
+              onChange={(e) => onPolicyChange(e.target.value as ImportDuplicatePolicy)}
+              className="bg-gray-950 border border-gray-700 rounded-md py-1 px-2 text-xs text-gray-200 focus:outline-none focus:ring-1 focus:ring-blue-500"
+            >
+              {DUPLICATE_POLICIES.map(p => <option key={p.value} value={p.value}>{p.label}</option>)}
+            </select>
+          </label>
+          <div className="flex gap-2">
+            {plan.skipped.length > 0 && (
+              <button
+                onClick={onImportSkipped}
+                className="bg-gray-800 hover:bg-gray-700 text-white px-4 py-2 rounded-lg text-sm transition-colors border border-gray-700"
+              >
+                Import {plan.skipped.length} Skipped Anyway
+              </button>
+            )}
+            <button
+              onClick={onClose}
+              className="bg-blue-600 hover:bg-blue-500 text-white px-4 py-2 rounded-lg text-sm transition-colors"
+            >
+              Done
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImportSummaryModal;
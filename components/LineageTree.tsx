@@ -0,0 +1,36 @@
+import React from 'react';
+import { LineageNode } from '../services/lineage';
+
+interface LineageTreeProps {
+  node: LineageNode;
+  currentId: string;
+  onOpenImage: (id: string) => void;
+}
+
+const LineageTree: React.FC<LineageTreeProps> = ({ node, currentId, onOpenImage }) => {
+  const { image } = node;
+  const isCurrent = image.id === currentId;
+
+  return (
+    <li>
+      <button
+        onClick={() => onOpenImage(image.id)}
+        disabled={isCurrent}
+        className={`w-full flex items-center gap-2 p-1 rounded-lg text-left transition-colors ${isCurrent ? 'bg-blue-600/20 border border-blue-500/50' : 'hover:bg-gray-800 border border-transparent'}`}
+        title={image.title}
+      >
+        <img src={image.thumbnailUrl || image.url} alt="" className="w-8 h-8 rounded object-cover flex-shrink-0" />
+        <span className={`text-xs truncate ${isCurrent ? 'text-blue-200' : 'text-gray-300'}`}>{image.title}</span>
+      </button>
+      {node.children.length > 0 && (
+        <ul className="ml-4 pl-2 border-l border-gray-700 space-y-1 mt-1">
+          {node.children.map(child => (
+            <LineageTree key={child.image.id} node={child} currentId={currentId} onOpenImage={onOpenImage} />
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+};
+
+export default LineageTree;
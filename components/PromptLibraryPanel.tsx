@@ -0,0 +1,164 @@
+import React, { useEffect, useState } from 'react';
+import { ArrowLeftIcon, FolderIcon, TrashIcon, PhotoIcon, MagnifyingGlassIcon } from '@heroicons/react/24/outline';
+import { ImageItem, PromptTarget, SavedPrompt } from '../types';
+import { collectPromptFolders, deletePrompt, extractVariables, loadPrompts } from '../services/promptLibrary';
+
+interface PromptLibraryPanelProps {
+  target: PromptTarget;
+  onUse: (prompt: SavedPrompt) => void;
+  onBack: () => void;
+  // Gallery, to show which images each prompt produced
+  images?: ImageItem[];
+  onOpenImage?: (id: string) => void;
+}
+
+const PromptLibraryPanel: React.FC<PromptLibraryPanelProps> = ({ target, onUse, onBack, images = [], onOpenImage }) => {
+  const [prompts, setPrompts] = useState<SavedPrompt[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [search, setSearch] = useState('');
+  const [folder, setFolder] = useState('');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadPrompts()
+      .then(all => setPrompts(all.filter(prompt => prompt.target === target)))
+      .catch(error => console.error("Failed to load prompt library:", error))
+      .finally(() => setIsLoading(false));
+  }, [target]);
+
+  const handleDelete = async (prompt: SavedPrompt) => {
+    if (!window.confirm(`Delete "${prompt.title}" from the library? Images it produced are kept.`)) return;
+    try {
+      await deletePrompt(prompt.id);
+      setPrompts(prev => prev.filter(p => p.id !== prompt.id));
+    } catch (error) {
+      console.error("Failed to delete prompt:", error);
+    }
+  };
+
+  const produced = (id: string) => images.filter(image => image.generation?.promptId === id);
+
+  const needle = search.trim().toLowerCase();
+  const visible = prompts.filter(prompt =>
+    (!folder || prompt.folder === folder || prompt.folder.startsWith(`${folder}/`)) &&
+    (!needle || prompt.title.toLowerCase().includes(needle) || prompt.text.toLowerCase().includes(needle))
+  );
+
+  // Group by folder, top level first
+  const groups = new Map<string, SavedPrompt[]>();
+  [...visible].sort((a, b) => a.folder.localeCompare(b.folder)).forEach(prompt => {
+    groups.set(prompt.folder, [...(groups.get(prompt.folder) || []), prompt]);
+  });
+
+  return (
+    <div className="space-y-4">
+      <button onClick={onBack} className="flex items-center gap-1 text-sm text-gray-400 hover:text-white">
+        <ArrowLeftIcon className="w-4 h-4" />
+        Back
+      </button>
+
+      <div className="flex gap-2">
+        <div className="relative flex-1">
+          <MagnifyingGlassIcon className="w-4 h-4 text-gray-500 absolute left-2 top-1/2 -translate-y-1/2" />
+          <input
+            type="text"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search prompts..."
+            className="w-full bg-gray-950 border border-gray-700 rounded-lg py-2 pl-8 pr-2 text-sm text-white placeholder-gray-600 focus:outline-none focus:ring-1 focus:ring-purple-500"
+          />
+        </div>
+        <select
+          value={folder}
+          onChange={(e) => setFolder(e.target.value)}
+          className="bg-gray-950 border border-gray-700 rounded-lg p-2 text-sm text-white focus:outline-none focus:ring-1 focus:ring-purple-500"
+        >
+          <option value="">All folders</option>
+          {collectPromptFolders(prompts).map(f => <option key={f} value={f}>{f}</option>)}
+        </select>
+      </div>
+
+      {isLoading ? (
+        <p className="text-sm text-gray-500">Loading library...</p>
+      ) : visible.length === 0 ? (
+        <p className="text-sm text-gray-500 italic">
+          {prompts.length === 0 ? 'No saved prompts yet. Use "Save" next to the prompt to add one.' : 'No prompts match.'}
+        </p>
+      ) : (
+        <div className="space-y-4">
+          {Array.from(groups.entries()).map(([groupFolder, groupPrompts]) => (
+            <div key={groupFolder}>
+              <h4 className="flex items-center gap-1 text-xs font-semibold text-gray-400 uppercase tracking-wide mb-2">
+                <FolderIcon className="w-3.5 h-3.5" />
+                {groupFolder || 'Unfiled'}
+              </h4>
+              <ul className="space-y-2">
+                {groupPrompts.map(prompt => {
+                  const variables = extractVariables(prompt.text);
+                  const results = produced(prompt.id);
+                  return (
+                    <li key={prompt.id} className="bg-gray-800/50 border border-gray-700/50 rounded-lg p-3">
+                      <div className="flex items-start gap-2">
+                        <div className="flex-1 min-w-0">
+                          <p className="text-sm text-white truncate">{prompt.title}</p>
+                          <p className="text-xs text-gray-400 line-clamp-2 mt-0.5">{prompt.text}</p>
+                          <div className="flex flex-wrap gap-1.5 mt-2">
+                            {variables.map(name => (
+                              <span key={name} className="text-[10px] bg-blue-900/30 text-blue-300 px-2 py-0.5 rounded-full border border-blue-500/20">
+                                {`{${name}}`}
+                              </span>
+                            ))}
+                            {target === 'image' && (
+                              <button
+                                onClick={() => setExpandedId(expandedId === prompt.id ? null : prompt.id)}
+                                disabled={results.length === 0}
+                                className="flex items-center gap-1 text-[10px] text-gray-400 hover:text-white disabled:hover:text-gray-400"
+                              >
+                                <PhotoIcon className="w-3 h-3" />
+                                {results.length} image{results.length === 1 ? '' : 's'}
+                              </button>
+                            )}
+                          </div>
+                        </div>
+                        <button
+                          onClick={() => onUse(prompt)}
+                          className="px-3 py-1 text-xs rounded-lg bg-purple-600 hover:bg-purple-500 text-white"
+                        >
+                          Use
+                        </button>
+                        <button
+                          onClick={() => handleDelete(prompt)}
+                          className="p-1 rounded hover:bg-gray-700 text-gray-400 hover:text-red-400"
+                          title="Delete"
+                        >
+                          <TrashIcon className="w-4 h-4" />
+                        </button>
+                      </div>
+
+                      {expandedId === prompt.id && results.length > 0 && (
+                        <div className="grid grid-cols-5 gap-1.5 mt-3">
+                          {results.map(image => (
+                            <button
+                              key={image.id}
+                              onClick={() => onOpenImage?.(image.id)}
+                              className="aspect-square rounded overflow-hidden border border-gray-700 hover:border-purple-500"
+                              title={image.title}
+                            >
+                              <img src={image.thumbnailUrl || image.url} alt={image.title} className="w-full h-full object-cover" />
+                            </button>
+                          ))}
+                        </div>
+                      )}
+                    </li>
+                  );
+                })}
+              </ul>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PromptLibraryPanel;
@@ -0,0 +1,28 @@
+import React, { useState, useEffect } from 'react';
+import { SignalIcon } from '@heroicons/react/24/outline';
+import { getRateLimit, subscribeRateLimit, RateLimitInfo } from '../services/githubService';
+
+// Shows the remaining GitHub API budget, updated after every request
+const RateLimitBadge: React.FC = () => {
+  const [info, setInfo] = useState<RateLimitInfo | null>(getRateLimit());
+
+  useEffect(() => subscribeRateLimit(setInfo), []);
+
+  if (!info) return null;
+
+  const ratio = info.limit > 0 ? info.remaining / info.limit : 0;
+  const color = ratio > 0.25 ? 'text-gray-400' : ratio > 0.05 ? 'text-yellow-400' : 'text-red-400';
+  const resetTime = new Date(info.resetAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+  return (
+    <span
+      className={`flex items-center gap-1 text-xs font-mono ${color}`}
+      title={`GitHub API requests left until ${resetTime}`}
+    >
+      <SignalIcon className="w-3.5 h-3.5" />
+      {info.remaining}/{info.limit}
+    </span>
+  );
+};
+
+export default RateLimitBadge;
@@ -1,28 +1,181 @@
-import React, { useState } from 'react';
-import { XMarkIcon, TrashIcon, ArrowPathIcon, ExclamationTriangleIcon, CheckCircleIcon, ExclamationCircleIcon } from '@heroicons/react/24/outline';
-import { getRepoFiles, deleteFileFromGitHub } from '../services/githubService';
+import React, { useState, useEffect, useRef } from 'react';
+import { XMarkIcon, TrashIcon, ArrowPathIcon, ExclamationTriangleIcon, CheckCircleIcon, ExclamationCircleIcon, DocumentArrowDownIcon } from '@heroicons/react/24/outline';
+import { getRepoFiles, fetchRepoFileBlob, getFileAddedAt, isImageFile, GitHubFile, BatchCommitProgress } from '../services/githubService';
+import { DEFAULT_TRASH_FOLDER, CleanupTarget, moveToTrash, deletePermanently } from '../services/repoTrash';
+import { getSidecarFileName } from '../services/tags';
+import { CleanupRules, DEFAULT_CLEANUP_RULES, RULE_LABELS, RuleMatch, ReportFormat, CleanupReportRow, needsDimensions, isRulesActive, compileNamePattern, evaluateRules, downloadReport } from '../services/cleanupRules';
+import { KeepStrategy, KeepContext, KEEP_STRATEGIES, rankForKeeping } from '../services/keepStrategy';
+import { HashAlgorithm, HashedImage, HASH_ALGORITHMS, DEFAULT_HASH_THRESHOLD, hashImage, hammingDistance, clusterByHash } from '../services/perceptualHash';
+import RateLimitBadge from './RateLimitBadge';
+import GitHubCredentialsPanel, { useGitHubCredentials } from './GitHubCredentialsPanel';
+import RepoTrashPanel from './RepoTrashPanel';
 
 interface RepoCleanupModalProps {
   isOpen: boolean;
   onClose: () => void;
 }
 
+type MatchMode = 'exact' | 'similar' | 'rules';
+
+const MATCH_MODE_LABELS: Record<MatchMode, string> = {
+  exact: 'Identical files',
+  similar: 'Similar images',
+  rules: 'Rules',
+};
+type CleanupView = 'duplicates' | 'trash' | 'history';
+
+const VIEW_LABELS: Record<CleanupView, string> = {
+  duplicates: 'Duplicates',
+  trash: 'Trash',
+  history: 'History',
+};
+
+// A listed file, plus what we learned by downloading it in "similar" mode
+// or checking it against the rules
+interface CleanupFile extends GitHubFile {
+  image?: HashedImage;
+  previewUrl?: string;
+  reasons?: RuleMatch[];
+}
+
 interface DuplicateGroup {
-  sha: string;
-  files: { name: string; path: string; sha: string }[];
+  key: string;
+  label: string;
+  // Ordered so the suggested file to keep comes first
+  files: CleanupFile[];
+  // Rule matches: every file is a candidate, there is no original to keep
+  flagged?: boolean;
 }
 
+const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+// Identical content: same git blob SHA. Groups are ordered by arrangeGroups.
+const groupBySha = (files: CleanupFile[]): DuplicateGroup[] => {
+  const shaMap = new Map<string, CleanupFile[]>();
+  files.forEach(file => {
+    const list = shaMap.get(file.sha) || [];
+    list.push(file);
+    shaMap.set(file.sha, list);
+  });
+
+  const groups: DuplicateGroup[] = [];
+  shaMap.forEach((groupFiles, sha) => {
+    if (groupFiles.length < 2) return;
+    groups.push({ key: sha, label: `SHA: ${sha.substring(0, 10)}...`, files: groupFiles });
+  });
+  return groups;
+};
+
+// Near duplicates: perceptual hashes within the threshold
+const groupBySimilarity = (files: CleanupFile[], algorithm: HashAlgorithm, threshold: number): DuplicateGroup[] => {
+  const hashed = files.filter(file => file.image);
+  return clusterByHash(hashed, file => file.image!.hashes[algorithm], threshold).map(cluster => {
+    const hashes = cluster.map(f => f.image!.hashes[algorithm]);
+    const maxDistance = Math.max(...hashes.flatMap((a, i) => hashes.slice(i + 1).map(b => hammingDistance(a, b))));
+    return {
+      key: cluster[0].path,
+      label: maxDistance === 0 ? 'Visually identical' : `Similar (up to ${maxDistance} bits apart)`,
+      files: cluster
+    };
+  });
+};
+
+// Puts the file to keep first in every duplicate group; rule matches stay as they are
+const arrangeGroups = (groups: DuplicateGroup[], strategy: KeepStrategy, context: KeepContext): DuplicateGroup[] => {
+  return groups.map(group => group.flagged ? group : { ...group, files: rankForKeeping(group.files, strategy, context) });
+};
+
+// One group per rule, each file under the first rule it breaks
+const groupByRule = (files: CleanupFile[]): DuplicateGroup[] => {
+  return (Object.keys(RULE_LABELS) as RuleMatch['rule'][])
+    .map(rule => ({
+      key: rule,
+      label: RULE_LABELS[rule],
+      files: files.filter(file => file.reasons?.[0].rule === rule),
+      flagged: true,
+    }))
+    .filter(group => group.files.length > 0);
+};
+
+// Everything except the first file of each duplicate group, every rule match
+const defaultSelection = (groups: DuplicateGroup[]): Set<string> => {
+  const toDelete = new Set<string>();
+  groups.forEach(group => group.files.slice(group.flagged ? 0 : 1).forEach(file => toDelete.add(file.path)));
+  return toDelete;
+};
+
+// Why each selected file would go, for the dry-run report
+const buildReport = (groups: DuplicateGroup[], selected: Set<string>): CleanupReportRow[] => {
+  return groups.flatMap(group => {
+    const kept = group.files.find(file => !selected.has(file.path));
+    return group.files
+      .filter(file => selected.has(file.path))
+      .map(file => ({
+        path: file.path,
+        sha: file.sha,
+        size: file.size,
+        reasons: file.reasons
+          ? file.reasons.map(match => match.reason)
+          : [`${group.label}${kept ? `, keeping ${kept.path}` : ', no copy kept'}`],
+      }));
+  });
+};
+
 const RepoCleanupModal: React.FC<RepoCleanupModalProps> = ({ isOpen, onClose }) => {
-  const [token, setToken] = useState('');
   const [repoStr, setRepoStr] = useState('jaymacmac/pics');
   const [folderPath, setFolderPath] = useState('lumina-exports');
   
+  const [matchMode, setMatchMode] = useState<MatchMode>('exact');
+  const [algorithm, setAlgorithm] = useState<HashAlgorithm>('phash');
+  const [threshold, setThreshold] = useState(DEFAULT_HASH_THRESHOLD);
+  const [rules, setRules] = useState<CleanupRules>(DEFAULT_CLEANUP_RULES);
+  // Which copy survives, remembered per mode: identical files default to the
+  // shortest path, similar images to the highest resolution
+  const [keepStrategies, setKeepStrategies] = useState<Record<'exact' | 'similar', KeepStrategy>>({
+    exact: 'shortest-path',
+    similar: 'best-quality',
+  });
+  const [preferredFolder, setPreferredFolder] = useState('');
+  // First commit times fetched for 'oldest-commit', kept across scans
+  const addedAtRef = useRef(new Map<string, number | null>());
+  // Downloaded and hashed files of the last "similar" scan, re-clustered when the settings change
+  const [hashedFiles, setHashedFiles] = useState<CleanupFile[]>([]);
+
   const [isScanning, setIsScanning] = useState(false);
   const [duplicates, setDuplicates] = useState<DuplicateGroup[]>([]);
   const [selectedToDelete, setSelectedToDelete] = useState<Set<string>>(new Set());
   const [status, setStatus] = useState<string | null>(null);
   const [isDeleting, setIsDeleting] = useState(false);
   const [showConfirm, setShowConfirm] = useState(false);
+  const [commitMessage, setCommitMessage] = useState('');
+  const [useTrash, setUseTrash] = useState(true);
+  const [trashFolder, setTrashFolder] = useState(DEFAULT_TRASH_FOLDER);
+  const [view, setView] = useState<CleanupView>('duplicates');
+  const [reportFormat, setReportFormat] = useState<ReportFormat>('csv');
+  const credentialsStatus = useGitHubCredentials();
+
+  // Object URLs of the thumbnails shown for the current scan
+  const previewUrlsRef = useRef<string[]>([]);
+  const releasePreviews = () => {
+    previewUrlsRef.current.forEach(url => URL.revokeObjectURL(url));
+    previewUrlsRef.current = [];
+  };
+  useEffect(() => releasePreviews, []);
+
+  const keepContext = (): KeepContext => ({ preferredFolder, addedAt: addedAtRef.current });
+
+  // Tuning the algorithm or threshold regroups without downloading again
+  useEffect(() => {
+    if (hashedFiles.length === 0) return;
+    const groups = arrangeGroups(groupBySimilarity(hashedFiles, algorithm, threshold), keepStrategies.similar, keepContext());
+    setDuplicates(groups);
+    setSelectedToDelete(defaultSelection(groups));
+    setShowConfirm(false);
+  }, [hashedFiles, algorithm, threshold]);
 
   if (!isOpen) return null;
 
@@ -36,18 +189,78 @@ const RepoCleanupModal: React.FC<RepoCleanupModalProps> = ({ isOpen, onClose })
     return [owner, repo];
   };
 
+  // First commit times for the grouped files that don't have one yet
+  const loadAddedDates = async (owner: string, repo: string, groups: DuplicateGroup[]) => {
+    const missing = groups
+      .filter(group => !group.flagged)
+      .flatMap(group => group.files)
+      .filter(file => !addedAtRef.current.has(file.path));
+    for (let i = 0; i < missing.length; i++) {
+      setStatus(`Reading history ${i + 1}/${missing.length}: ${missing[i].name}...`);
+      try {
+        addedAtRef.current.set(missing[i].path, await getFileAddedAt(owner, repo, missing[i].path));
+      } catch (err) {
+        console.error(`Could not read history of ${missing[i].path}`, err);
+        addedAtRef.current.set(missing[i].path, null);
+      }
+    }
+  };
+
+  const applyKeepStrategy = async () => {
+    const repoParts = parseRepo(repoStr);
+    if (!repoParts || matchMode === 'rules') return;
+    const strategy = keepStrategies[matchMode];
+
+    if (strategy === 'oldest-commit') {
+      setIsScanning(true);
+      await loadAddedDates(repoParts[0], repoParts[1], duplicates);
+      setIsScanning(false);
+    }
+    const groups = arrangeGroups(duplicates, strategy, keepContext());
+    setDuplicates(groups);
+    setSelectedToDelete(defaultSelection(groups));
+    const label = KEEP_STRATEGIES.find(s => s.value === strategy)!.label;
+    setStatus(`Keeping by "${label}" in all ${groups.length} groups.`);
+  };
+
+  // Per-group override of the strategy's choice
+  const keepOnly = (groupKey: string, path: string) => {
+    const group = duplicates.find(g => g.key === groupKey);
+    if (!group) return;
+    const kept = group.files.find(file => file.path === path)!;
+    setDuplicates(prev => prev.map(g => g.key === groupKey
+      ? { ...g, files: [kept, ...g.files.filter(file => file.path !== path)] }
+      : g));
+    setSelectedToDelete(prev => {
+      const next = new Set(prev);
+      group.files.forEach(file => file.path === path ? next.delete(file.path) : next.add(file.path));
+      return next;
+    });
+  };
+
   const handleScan = async (e: React.FormEvent) => {
     e.preventDefault();
-    const cleanToken = token.trim();
-    
     const repoParts = parseRepo(repoStr);
-    if (!cleanToken || !repoParts) {
+    if (credentialsStatus !== 'ready' || !repoParts) {
         setStatus("Please enter a valid Token and Repo (user/repo).");
         return;
     }
 
     const [owner, repo] = repoParts;
 
+    if (matchMode === 'rules') {
+        if (!isRulesActive(rules)) {
+            setStatus("Turn on at least one rule.");
+            return;
+        }
+        try {
+            compileNamePattern(rules.namePattern);
+        } catch (err: any) {
+            setStatus(`Error: invalid name pattern (${err.message})`);
+            return;
+        }
+    }
+
     setIsScanning(true);
     setStatus('Scanning repository for files...');
     setDuplicates([]);
@@ -55,52 +268,84 @@ const RepoCleanupModal: React.FC<RepoCleanupModalProps> = ({ isOpen, onClose })
     setShowConfirm(false);
 
     try {
-      const files = await getRepoFiles(cleanToken, owner, repo, folderPath.trim());
-      
-      setStatus(`Found ${files.length} images. Analyzing content...`);
-
-      // Group by SHA
-      const shaMap = new Map<string, typeof files>();
-      files.forEach(file => {
-        const list = shaMap.get(file.sha) || [];
-        list.push(file);
-        shaMap.set(file.sha, list);
-      });
-
-      // Filter groups with > 1 file
-      const dupes: DuplicateGroup[] = [];
-      const toDelete = new Set<string>();
-
-      shaMap.forEach((groupFiles, sha) => {
-        if (groupFiles.length > 1) {
-          // Sort by name length (ascending) - assume shortest name is the "original"
-          // If lengths equal, sort alphabetically
-          const sorted = [...groupFiles].sort((a, b) => {
-            if (a.name.length !== b.name.length) return a.name.length - b.name.length;
-            return a.name.localeCompare(b.name);
-          });
-
-          dupes.push({
-            sha,
-            files: sorted
-          });
-
-          // Mark all except the first (shortest/original) for deletion
-          for (let i = 1; i < sorted.length; i++) {
-            toDelete.add(sorted[i].path);
+      const files = await getRepoFiles(owner, repo, folderPath.trim(), matchMode === 'rules');
+      setHashedFiles([]);
+      releasePreviews();
+      addedAtRef.current = new Map();
+
+      if (matchMode === 'rules') {
+        const checked: CleanupFile[] = [...files];
+        if (needsDimensions(rules)) {
+          // Only the resolution rule needs the pixels
+          for (let i = 0; i < checked.length; i++) {
+            if (!isImageFile(checked[i].name)) continue;
+            setStatus(`Measuring ${i + 1}/${checked.length}: ${checked[i].name}...`);
+            try {
+              const blob = await fetchRepoFileBlob(owner, repo, checked[i]);
+              const image = await hashImage(blob);
+              const previewUrl = URL.createObjectURL(blob);
+              previewUrlsRef.current.push(previewUrl);
+              checked[i] = { ...checked[i], image, previewUrl };
+            } catch (err) {
+              console.error(`Could not read ${checked[i].path}`, err);
+            }
           }
         }
-      });
-
-      setDuplicates(dupes);
-      setSelectedToDelete(toDelete);
-      
-      if (dupes.length === 0) {
-        setStatus('No duplicates found! Your repo is clean.');
-      } else {
-        setStatus(`Found ${dupes.length} groups of duplicate images.`);
+
+        const matches = evaluateRules(
+          checked.map(file => ({ path: file.path, name: file.name, size: file.size, width: file.image?.width, height: file.image?.height })),
+          rules
+        );
+        const groups = groupByRule(checked
+          .filter(file => matches.has(file.path))
+          .map(file => ({ ...file, reasons: matches.get(file.path) })));
+        setDuplicates(groups);
+        setSelectedToDelete(defaultSelection(groups));
+        setStatus(matches.size === 0
+          ? `No files match the rules among ${files.length} files.`
+          : `${matches.size} of ${files.length} files match the rules. Download a dry-run report to review them.`);
+        return;
       }
 
+      if (matchMode === 'exact') {
+        setStatus(`Found ${files.length} images. Analyzing content...`);
+        const found = groupBySha(files);
+        if (keepStrategies.exact === 'oldest-commit') await loadAddedDates(owner, repo, found);
+        const dupes = arrangeGroups(found, keepStrategies.exact, keepContext());
+        setDuplicates(dupes);
+        setSelectedToDelete(defaultSelection(dupes));
+        setStatus(dupes.length === 0
+          ? 'No duplicates found! Your repo is clean.'
+          : `Found ${dupes.length} groups of duplicate images.`);
+        return;
+      }
+
+      // Similar mode: download and hash every image on a canvas
+      const hashed: CleanupFile[] = [];
+      let failed = 0;
+      for (let i = 0; i < files.length; i++) {
+        setStatus(`Hashing ${i + 1}/${files.length}: ${files[i].name}...`);
+        try {
+          const blob = await fetchRepoFileBlob(owner, repo, files[i]);
+          const image = await hashImage(blob);
+          const previewUrl = URL.createObjectURL(blob);
+          previewUrlsRef.current.push(previewUrl);
+          hashed.push({ ...files[i], image, previewUrl });
+        } catch (err) {
+          console.error(`Could not hash ${files[i].path}`, err);
+          failed++;
+        }
+      }
+
+      // Grouping happens in the effect watching hashedFiles
+      const groups = groupBySimilarity(hashed, algorithm, threshold);
+      if (keepStrategies.similar === 'oldest-commit') await loadAddedDates(owner, repo, groups);
+      setHashedFiles(hashed);
+      const skipped = failed > 0 ? ` (${failed} could not be read)` : '';
+      setStatus(groups.length === 0
+        ? `No near-duplicates found among ${hashed.length} images${skipped}.`
+        : `Found ${groups.length} groups of similar images${skipped}. Adjust the threshold to refine.`);
+
     } catch (err: any) {
       console.error(err);
       setStatus(`Error: ${err.message}`);
@@ -115,7 +360,6 @@ const RepoCleanupModal: React.FC<RepoCleanupModalProps> = ({ isOpen, onClose })
     // UI Confirmation is handled by the buttons now, so we proceed directly
     setIsDeleting(true);
     
-    const cleanToken = token.trim();
     const repoParts = parseRepo(repoStr);
 
     if (!repoParts) {
@@ -125,66 +369,76 @@ const RepoCleanupModal: React.FC<RepoCleanupModalProps> = ({ isOpen, onClose })
     }
     const [owner, repo] = repoParts;
     
-    let deletedCount = 0;
-    let errorCount = 0;
-    let lastError = "";
-    
-    const total = selectedToDelete.size;
-
-    // Convert Set to Array for iteration
     const pathsToDelete = Array.from(selectedToDelete) as string[];
+    const total = pathsToDelete.length;
+    const filesByPath = new Map<string, CleanupFile>(duplicates.flatMap(group => group.files).map(file => [file.path, file]));
+    const removedPaths = new Set(pathsToDelete);
+    const verb = useTrash ? 'Trash' : 'Remove';
+    const message = commitMessage.trim() || `${verb} ${total} duplicate files via LuminaView`;
+    let succeeded = false;
 
-    for (const path of pathsToDelete) {
-        try {
-            // Find the file object to get the SHA (needed for deletion)
-            let sha = '';
-            for (const group of duplicates) {
-                const f = group.files.find(f => f.path === path);
-                if (f) {
-                    sha = f.sha;
-                    break;
-                }
-            }
-
-            if (sha) {
-                const fileName = path.split('/').pop();
-                setStatus(`Deleting ${deletedCount + 1}/${total}: ${fileName}...`);
-                
-                await deleteFileFromGitHub(cleanToken, owner, repo, path, sha);
-                deletedCount++;
-            } else {
-                console.warn(`Could not find SHA for ${path}`);
-            }
-        } catch (error: any) {
-            console.error(`Failed to delete ${path}`, error);
-            errorCount++;
-            
-            // Handle common 404 error which usually means permission denied for delete
-            if (error.message && error.message.includes('Not Found')) {
-                lastError = "404 Not Found (Check if Token has 'repo' or 'public_repo' write scope)";
-            } else {
-                lastError = error.message || "Unknown error";
-            }
-        }
-    }
-
-    if (errorCount > 0) {
-        setStatus(`Completed with errors. Deleted: ${deletedCount}. Failed: ${errorCount}. Last Error: ${lastError}`);
-    } else {
-        setStatus(`Cleanup complete! Successfully deleted ${deletedCount} files.`);
+    try {
+        // All files land in a single commit; on failure nothing is removed
+        const onProgress = (p: BatchCommitProgress) => {
+            if (p.phase === 'prepare') setStatus(`Preparing to ${useTrash ? 'trash' : 'delete'} ${total} files...`);
+            else setStatus(`Creating ${p.phase}...`);
+        };
+        // Sidecars go with their image, so list the folder with every file type
+        const folderFiles = new Map((await getRepoFiles(owner, repo, folderPath.trim(), true)).map(file => [file.path, file]));
+        const files: CleanupTarget[] = pathsToDelete.map(path => {
+            const sidecar = folderFiles.get(getSidecarFileName(path));
+            if (sidecar) removedPaths.add(sidecar.path);
+            return { path, sha: filesByPath.get(path)!.sha, sidecar: sidecar && { path: sidecar.path, sha: sidecar.sha } };
+        });
+        const entry = useTrash
+            ? await moveToTrash(owner, repo, files, trashFolder, message, onProgress)
+            : await deletePermanently(owner, repo, files, message, onProgress);
+        succeeded = true;
+        const done = useTrash ? `Moved ${total} files to ${trashFolder}` : `Deleted ${total} files`;
+        setStatus(`Cleanup complete! ${done} in commit ${entry.commitSha.substring(0, 7)}. You can undo it under History.`);
+    } catch (error: any) {
+        console.error("Batch delete failed", error);
+        // Handle common 404 error which usually means permission denied for write
+        const lastError = error.message && error.message.includes('Not Found')
+            ? "404 Not Found (Check if Token has 'repo' or 'public_repo' write scope)"
+            : error.message || "Unknown error";
+        setStatus(`Failed: nothing was changed. Error: ${lastError}`);
     }
     
     setIsDeleting(false);
     setShowConfirm(false); // Reset confirmation state
     
+    // Similar mode: drop the deleted files locally instead of downloading everything again
+    if (succeeded && matchMode === 'similar') {
+        setHashedFiles(prev => prev.filter(file => !removedPaths.has(file.path)));
+        return;
+    }
+    // Rules mode: drop the removed files and their sidecars locally
+    if (succeeded && matchMode === 'rules') {
+        setDuplicates(prev => prev
+            .map(group => ({ ...group, files: group.files.filter(file => !removedPaths.has(file.path)) }))
+            .filter(group => group.files.length > 0));
+        setSelectedToDelete(new Set());
+        return;
+    }
+
     // Refresh scan to show updated state if successful
-    if (errorCount === 0) {
+    if (succeeded) {
         setTimeout(() => {
             handleScan({ preventDefault: () => {} } as any);
         }, 1500);
     }
   };
 
+  const handleDryRun = () => {
+    const rows = buildReport(duplicates, selectedToDelete);
+    downloadReport(rows, reportFormat, {
+      repo: repoStr.trim(),
+      action: useTrash ? `move to ${trashFolder || DEFAULT_TRASH_FOLDER}` : 'delete',
+    });
+    setStatus(`Dry run: report of ${rows.length} files downloaded. Nothing was changed.`);
+  };
+
   const toggleSelection = (path: string) => {
     setSelectedToDelete(prev => {
       const newSet = new Set(prev);
@@ -202,54 +456,224 @@ const RepoCleanupModal: React.FC<RepoCleanupModalProps> = ({ isOpen, onClose })
             <TrashIcon className="w-5 h-5 text-red-500" />
             Cleanup GitHub Duplicates
           </h3>
-          <button onClick={onClose} className="text-gray-400 hover:text-white transition-colors">
-            <XMarkIcon className="w-6 h-6" />
-          </button>
+          <div className="flex items-center gap-3">
+            <RateLimitBadge />
+            <button onClick={onClose} className="text-gray-400 hover:text-white transition-colors">
+              <XMarkIcon className="w-6 h-6" />
+            </button>
+          </div>
+        </div>
+
+        <div className="flex border-b border-gray-800 text-sm">
+          {(Object.keys(VIEW_LABELS) as CleanupView[]).map(v => (
+            <button
+              key={v}
+              onClick={() => setView(v)}
+              disabled={isDeleting}
+              className={`flex-1 py-2 transition-colors ${view === v ? 'text-white border-b-2 border-blue-500' : 'text-gray-500 hover:text-gray-300'}`}
+            >
+              {VIEW_LABELS[v]}
+            </button>
+          ))}
         </div>
 
+        {view !== 'duplicates' ? (
+          <RepoTrashPanel
+            repo={parseRepo(repoStr)}
+            trashFolder={trashFolder}
+            view={view}
+          />
+        ) : (
+        <>
         <div className="p-6 overflow-y-auto flex-1">
           <form onSubmit={handleScan} className="space-y-4 mb-6">
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                <div>
-                    <label className="block text-xs text-gray-500 mb-1">GitHub Token</label>
+            <GitHubCredentialsPanel />
+            <div>
+                <label className="block text-xs text-gray-500 mb-1">Repo (user/repo)</label>
+                <input
+                type="text"
+                value={repoStr}
+                onChange={(e) => setRepoStr(e.target.value)}
+                className="w-full bg-gray-950 border border-gray-700 rounded-lg p-2 text-sm text-white focus:outline-none focus:ring-1 focus:ring-blue-500"
+                required
+                />
+            </div>
+             <div className="flex gap-3">
+                <div className="flex-1">
+                    <label className="block text-xs text-gray-500 mb-1">Folder Path</label>
                     <input
-                    type="password"
-                    value={token}
-                    onChange={(e) => setToken(e.target.value)}
-                    placeholder="ghp_..."
+                    type="text"
+                    value={folderPath}
+                    onChange={(e) => setFolderPath(e.target.value)}
                     className="w-full bg-gray-950 border border-gray-700 rounded-lg p-2 text-sm text-white focus:outline-none focus:ring-1 focus:ring-blue-500"
-                    required
                     />
-                    <p className="text-[10px] text-gray-500 mt-1">Requires <code>repo</code> or <code>public_repo</code> scope.</p>
                 </div>
-                <div>
-                    <label className="block text-xs text-gray-500 mb-1">Repo (user/repo)</label>
+                <div className="w-36">
+                    <label className="block text-xs text-gray-500 mb-1">Trash Folder</label>
                     <input
                     type="text"
-                    value={repoStr}
-                    onChange={(e) => setRepoStr(e.target.value)}
-                    className="w-full bg-gray-950 border border-gray-700 rounded-lg p-2 text-sm text-white focus:outline-none focus:ring-1 focus:ring-blue-500"
-                    required
+                    value={trashFolder}
+                    onChange={(e) => setTrashFolder(e.target.value)}
+                    placeholder={DEFAULT_TRASH_FOLDER}
+                    className="w-full bg-gray-950 border border-gray-700 rounded-lg p-2 text-sm text-white placeholder-gray-600 focus:outline-none focus:ring-1 focus:ring-blue-500"
                     />
                 </div>
             </div>
-             <div>
-                <label className="block text-xs text-gray-500 mb-1">Folder Path</label>
-                <input
-                type="text"
-                value={folderPath}
-                onChange={(e) => setFolderPath(e.target.value)}
-                className="w-full bg-gray-950 border border-gray-700 rounded-lg p-2 text-sm text-white focus:outline-none focus:ring-1 focus:ring-blue-500"
-                />
+
+            <div className="flex flex-wrap items-end gap-4">
+                <div>
+                    <label className="block text-xs text-gray-500 mb-1">Match</label>
+                    <div className="flex rounded-lg overflow-hidden border border-gray-700 text-xs">
+                        {(Object.keys(MATCH_MODE_LABELS) as MatchMode[]).map(mode => (
+                            <button
+                                key={mode}
+                                type="button"
+                                onClick={() => setMatchMode(mode)}
+                                disabled={isScanning}
+                                className={`px-3 py-1.5 ${matchMode === mode ? 'bg-blue-600 text-white' : 'bg-gray-950 text-gray-400 hover:text-white'}`}
+                            >
+                                {MATCH_MODE_LABELS[mode]}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+                {matchMode === 'similar' && (
+                    <>
+                        <div>
+                            <label className="block text-xs text-gray-500 mb-1">Algorithm</label>
+                            <select
+                                value={algorithm}
+                                onChange={(e) => setAlgorithm(e.target.value as HashAlgorithm)}
+                                className="bg-gray-950 border border-gray-700 rounded-lg py-1.5 px-2 text-xs text-white focus:outline-none focus:ring-1 focus:ring-blue-500"
+                            >
+                                {HASH_ALGORITHMS.map(a => <option key={a.value} value={a.value}>{a.label}</option>)}
+                            </select>
+                        </div>
+                        <div className="flex-1 min-w-[10rem]">
+                            <label className="block text-xs text-gray-500 mb-1">
+                                Threshold: {threshold} bits {threshold <= 4 ? '(strict)' : threshold >= 14 ? '(loose)' : ''}
+                            </label>
+                            <input
+                                type="range"
+                                min={0}
+                                max={20}
+                                value={threshold}
+                                onChange={(e) => setThreshold(Number(e.target.value))}
+                                className="w-full accent-blue-500"
+                            />
+                        </div>
+                    </>
+                )}
             </div>
 
+            {matchMode !== 'rules' && (
+                <div className="flex flex-wrap items-end gap-3">
+                    <div>
+                        <label className="block text-xs text-gray-500 mb-1">Keep</label>
+                        <select
+                            value={keepStrategies[matchMode]}
+                            onChange={(e) => setKeepStrategies({ ...keepStrategies, [matchMode]: e.target.value as KeepStrategy })}
+                            className="bg-gray-950 border border-gray-700 rounded-lg py-1.5 px-2 text-xs text-white focus:outline-none focus:ring-1 focus:ring-blue-500"
+                        >
+                            {KEEP_STRATEGIES.map(s => <option key={s.value} value={s.value}>{s.label}</option>)}
+                        </select>
+                    </div>
+                    {keepStrategies[matchMode] === 'preferred-folder' && (
+                        <div className="flex-1 min-w-[8rem]">
+                            <label className="block text-xs text-gray-500 mb-1">Preferred Folder</label>
+                            <input
+                                type="text"
+                                value={preferredFolder}
+                                onChange={(e) => setPreferredFolder(e.target.value)}
+                                placeholder="e.g. originals"
+                                className="w-full bg-gray-950 border border-gray-700 rounded-lg py-1 px-2 text-xs text-white placeholder-gray-600 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                            />
+                        </div>
+                    )}
+                    <button
+                        type="button"
+                        onClick={applyKeepStrategy}
+                        disabled={isScanning || isDeleting || showConfirm || duplicates.length === 0}
+                        className="bg-gray-800 hover:bg-gray-700 text-white px-3 py-1.5 rounded-lg text-xs border border-gray-700 disabled:opacity-50"
+                    >
+                        Apply to All Groups
+                    </button>
+                </div>
+            )}
+
+            {matchMode === 'rules' && (
+                <div className="grid grid-cols-2 gap-3 bg-gray-800/50 border border-gray-700/50 rounded-lg p-3 text-xs text-gray-400">
+                    <label className="flex items-center gap-2">
+                        Min resolution
+                        <input
+                            type="number"
+                            min={0}
+                            value={rules.minWidth || ''}
+                            onChange={(e) => setRules({ ...rules, minWidth: Number(e.target.value) })}
+                            placeholder="W"
+                            className="w-16 bg-gray-950 border border-gray-700 rounded-md p-1 text-white placeholder-gray-600 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                        />
+                        ×
+                        <input
+                            type="number"
+                            min={0}
+                            value={rules.minHeight || ''}
+                            onChange={(e) => setRules({ ...rules, minHeight: Number(e.target.value) })}
+                            placeholder="H"
+                            className="w-16 bg-gray-950 border border-gray-700 rounded-md p-1 text-white placeholder-gray-600 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                        />
+                    </label>
+                    <label className="flex items-center gap-2">
+                        Larger than
+                        <input
+                            type="number"
+                            min={0}
+                            step={0.5}
+                            value={rules.maxSizeMb || ''}
+                            onChange={(e) => setRules({ ...rules, maxSizeMb: Number(e.target.value) })}
+                            placeholder="off"
+                            className="w-16 bg-gray-950 border border-gray-700 rounded-md p-1 text-white placeholder-gray-600 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                        />
+                        MB
+                    </label>
+                    <label className="flex items-center gap-2 cursor-pointer select-none">
+                        <input
+                            type="checkbox"
+                            checked={rules.nonImages}
+                            onChange={(e) => setRules({ ...rules, nonImages: e.target.checked })}
+                            className="rounded border-gray-700 bg-gray-950 text-blue-600 focus:ring-blue-500"
+                        />
+                        Non-image files
+                    </label>
+                    <label className="flex items-center gap-2 cursor-pointer select-none">
+                        <input
+                            type="checkbox"
+                            checked={rules.orphanedSidecars}
+                            onChange={(e) => setRules({ ...rules, orphanedSidecars: e.target.checked })}
+                            className="rounded border-gray-700 bg-gray-950 text-blue-600 focus:ring-blue-500"
+                        />
+                        Sidecars without an image
+                    </label>
+                    <label className="col-span-2 flex items-center gap-2">
+                        Name matches
+                        <input
+                            type="text"
+                            value={rules.namePattern}
+                            onChange={(e) => setRules({ ...rules, namePattern: e.target.value })}
+                            placeholder="*copy*, IMG_????.jpg or /regex/"
+                            className="flex-1 bg-gray-950 border border-gray-700 rounded-md p-1 text-white placeholder-gray-600 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                        />
+                    </label>
+                </div>
+            )}
+
             <button
               type="submit"
               disabled={isScanning || isDeleting || showConfirm}
               className="w-full bg-gray-800 hover:bg-gray-700 text-white py-2 rounded-lg text-sm font-medium transition-colors flex justify-center items-center gap-2 disabled:opacity-50"
             >
               {isScanning ? <ArrowPathIcon className="w-4 h-4 animate-spin" /> : <ArrowPathIcon className="w-4 h-4" />}
-              {isScanning ? 'Scanning...' : 'Scan for Duplicates'}
+              {isScanning ? 'Scanning...' : matchMode === 'exact' ? 'Scan for Duplicates' : matchMode === 'similar' ? 'Scan for Similar Images' : 'Find Matching Files'}
             </button>
           </form>
 
@@ -262,45 +686,94 @@ const RepoCleanupModal: React.FC<RepoCleanupModalProps> = ({ isOpen, onClose })
           {duplicates.length > 0 && (
             <div className="space-y-4 pb-20">
               <div className="flex justify-between items-center text-sm text-gray-400">
-                <span>Select duplicates to remove (Keep the original):</span>
+                <span>{matchMode === 'rules' ? 'Select files to remove:' : 'Select duplicates to remove (Keep the original):'}</span>
                 <span>{selectedToDelete.size} selected</span>
               </div>
               
               <div className="space-y-4">
                 {duplicates.map((group) => (
-                  <div key={group.sha} className="bg-gray-800/50 rounded-xl p-3 border border-gray-700/50">
+                  <div key={group.key} className="bg-gray-800/50 rounded-xl p-3 border border-gray-700/50">
                     <div className="flex items-center gap-2 mb-2">
                         <ExclamationTriangleIcon className="w-4 h-4 text-yellow-500" />
-                        <span className="text-xs text-gray-500 font-mono">SHA: {group.sha.substring(0, 10)}...</span>
+                        <span className="text-xs text-gray-500 font-mono">{group.label}</span>
                     </div>
-                    <div className="space-y-1">
-                      {group.files.map((file, idx) => {
-                        const isSelected = selectedToDelete.has(file.path);
-                        return (
-                          <div 
-                            key={file.path} 
-                            onClick={() => !isDeleting && !showConfirm && toggleSelection(file.path)}
-                            className={`
-                              flex items-center justify-between p-2 rounded-lg cursor-pointer text-sm transition-colors
-                              ${isSelected ? 'bg-red-900/20 hover:bg-red-900/30' : 'bg-green-900/20 hover:bg-green-900/30'}
-                              ${(isDeleting || showConfirm) ? 'pointer-events-none opacity-80' : ''}
-                            `}
-                          >
-                            <span className={`truncate ${isSelected ? 'text-red-200 line-through opacity-70' : 'text-green-200 font-medium'}`}>
-                              {file.name}
-                            </span>
-                            <div className="flex items-center gap-2">
-                                {idx === 0 && !isSelected && <span className="text-[10px] bg-green-900 text-green-200 px-2 py-0.5 rounded">Keep</span>}
-                                {isSelected ? (
-                                    <TrashIcon className="w-4 h-4 text-red-400" />
-                                ) : (
-                                    <CheckCircleIcon className="w-4 h-4 text-green-500" />
+                    {group.files[0].previewUrl ? (
+                      <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+                        {group.files.map((file, idx) => {
+                          const isSelected = selectedToDelete.has(file.path);
+                          return (
+                            <div
+                              key={file.path}
+                              onClick={() => !isDeleting && !showConfirm && toggleSelection(file.path)}
+                              className={`
+                                rounded-lg overflow-hidden cursor-pointer border-2 transition-colors
+                                ${isSelected ? 'border-red-500/60 bg-red-900/20' : 'border-green-500/60 bg-green-900/20'}
+                                ${(isDeleting || showConfirm) ? 'pointer-events-none opacity-80' : ''}
+                              `}
+                            >
+                              <div className="relative aspect-square bg-gray-950">
+                                <img src={file.previewUrl} alt={file.name} className={`w-full h-full object-contain ${isSelected ? 'opacity-50' : ''}`} />
+                                {idx === 0 && !isSelected && !group.flagged && <span className="absolute top-1 left-1 text-[10px] bg-green-900 text-green-200 px-2 py-0.5 rounded">Keep</span>}
+                                {isSelected && <TrashIcon className="absolute top-1 right-1 w-5 h-5 text-red-400" />}
+                                {!group.flagged && idx > 0 && (
+                                  <button
+                                    onClick={(e) => { e.stopPropagation(); keepOnly(group.key, file.path); }}
+                                    className="absolute bottom-1 right-1 text-[10px] bg-gray-900/90 hover:bg-gray-800 text-gray-200 px-2 py-0.5 rounded"
+                                  >
+                                    Keep this
+                                  </button>
                                 )}
+                              </div>
+                              <div className="p-2 text-xs">
+                                <div className={`truncate ${isSelected ? 'text-red-200 line-through' : 'text-green-200 font-medium'}`} title={file.path}>{file.name}</div>
+                                <div className="text-gray-400 font-mono">
+                                  {file.image && `${file.image.width}×${file.image.height} · `}{formatBytes(file.size)}
+                                </div>
+                                {file.reasons && <div className="text-gray-500 truncate">{file.reasons.map(match => match.reason).join(', ')}</div>}
+                              </div>
                             </div>
-                          </div>
-                        );
-                      })}
-                    </div>
+                          );
+                        })}
+                      </div>
+                    ) : (
+                      <div className="space-y-1">
+                        {group.files.map((file, idx) => {
+                          const isSelected = selectedToDelete.has(file.path);
+                          return (
+                            <div 
+                              key={file.path} 
+                              onClick={() => !isDeleting && !showConfirm && toggleSelection(file.path)}
+                              className={`
+                                flex items-center justify-between p-2 rounded-lg cursor-pointer text-sm transition-colors
+                                ${isSelected ? 'bg-red-900/20 hover:bg-red-900/30' : 'bg-green-900/20 hover:bg-green-900/30'}
+                                ${(isDeleting || showConfirm) ? 'pointer-events-none opacity-80' : ''}
+                              `}
+                            >
+                              <span className={`truncate ${isSelected ? 'text-red-200 line-through opacity-70' : 'text-green-200 font-medium'}`}>
+                                {file.name}
+                              </span>
+                              <div className="flex items-center gap-2">
+                                  {file.reasons && <span className="text-xs text-gray-500 truncate">{file.reasons.map(match => match.reason).join(', ')}</span>}
+                                  {idx === 0 && !isSelected && !group.flagged && <span className="text-[10px] bg-green-900 text-green-200 px-2 py-0.5 rounded">Keep</span>}
+                                  {idx > 0 && !group.flagged && (
+                                      <button
+                                          onClick={(e) => { e.stopPropagation(); keepOnly(group.key, file.path); }}
+                                          className="text-[10px] text-gray-400 hover:text-white px-2 py-0.5 rounded border border-gray-700"
+                                      >
+                                          Keep this
+                                      </button>
+                                  )}
+                                  {isSelected ? (
+                                      <TrashIcon className="w-4 h-4 text-red-400" />
+                                  ) : (
+                                      <CheckCircleIcon className="w-4 h-4 text-green-500" />
+                                  )}
+                              </div>
+                            </div>
+                          );
+                        })}
+                      </div>
+                    )}
                   </div>
                 ))}
               </div>
@@ -312,23 +785,66 @@ const RepoCleanupModal: React.FC<RepoCleanupModalProps> = ({ isOpen, onClose })
         {duplicates.length > 0 && (
           <div className="p-4 bg-gray-900 border-t border-gray-800">
             {!showConfirm ? (
-                <button
-                    onClick={() => setShowConfirm(true)}
-                    disabled={isDeleting || selectedToDelete.size === 0}
-                    className="w-full bg-red-600 hover:bg-red-500 text-white py-3 rounded-xl font-bold shadow-lg shadow-red-900/30 transition-all disabled:opacity-50 disabled:cursor-not-allowed flex justify-center items-center gap-2"
-                >
-                    <TrashIcon className="w-5 h-5" />
-                    Delete {selectedToDelete.size} Duplicates
-                </button>
+                <div className="flex gap-3">
+                    <div className="flex rounded-xl overflow-hidden border border-gray-700">
+                        <button
+                            onClick={handleDryRun}
+                            disabled={selectedToDelete.size === 0}
+                            className="bg-gray-800 hover:bg-gray-700 text-white px-4 text-sm font-medium transition-colors disabled:opacity-50 flex items-center gap-2"
+                            title="Download a report of what would be removed, without changing anything"
+                        >
+                            <DocumentArrowDownIcon className="w-5 h-5" />
+                            Dry Run
+                        </button>
+                        <select
+                            value={reportFormat}
+                            onChange={(e) => setReportFormat(e.target.value as ReportFormat)}
+                            className="bg-gray-950 border-l border-gray-700 px-2 text-xs text-gray-300 focus:outline-none"
+                        >
+                            <option value="csv">CSV</option>
+                            <option value="json">JSON</option>
+                        </select>
+                    </div>
+                    <button
+                        onClick={() => setShowConfirm(true)}
+                        disabled={isDeleting || selectedToDelete.size === 0}
+                        className="flex-1 bg-red-600 hover:bg-red-500 text-white py-3 rounded-xl font-bold shadow-lg shadow-red-900/30 transition-all disabled:opacity-50 disabled:cursor-not-allowed flex justify-center items-center gap-2"
+                    >
+                        <TrashIcon className="w-5 h-5" />
+                        {useTrash ? 'Trash' : 'Delete'} {selectedToDelete.size} {matchMode === 'rules' ? 'Files' : 'Duplicates'}
+                    </button>
+                </div>
             ) : (
                 <div className="space-y-3 animate-in fade-in slide-in-from-bottom-2">
                     <div className="flex items-center gap-3 text-yellow-500 bg-yellow-900/20 p-3 rounded-xl border border-yellow-700/30">
                         <ExclamationCircleIcon className="w-6 h-6 flex-shrink-0" />
                         <div className="text-sm">
-                            <p className="font-bold">Permanent Deletion</p>
-                            <p className="opacity-90">Are you sure you want to delete {selectedToDelete.size} files? This cannot be undone.</p>
+                            <p className="font-bold">{useTrash ? 'Move to Trash' : 'Permanent Deletion'}</p>
+                            <p className="opacity-90">
+                                {useTrash
+                                    ? `${selectedToDelete.size} files will be moved to ${trashFolder || DEFAULT_TRASH_FOLDER}/ in a single commit. You can restore them from the Trash tab.`
+                                    : `Are you sure you want to delete ${selectedToDelete.size} files? They will be removed in a single commit.`}
+                            </p>
                         </div>
                     </div>
+                    <label className="flex items-center gap-2 text-xs text-gray-400 cursor-pointer select-none">
+                        <input
+                            type="checkbox"
+                            checked={useTrash}
+                            onChange={(e) => setUseTrash(e.target.checked)}
+                            disabled={isDeleting}
+                            className="rounded border-gray-700 bg-gray-950 text-blue-600 focus:ring-blue-500"
+                        />
+                        Move to trash instead of deleting
+                    </label>
+                    <input
+                        type="text"
+                        value={commitMessage}
+                        onChange={(e) => setCommitMessage(e.target.value)}
+                        placeholder={`${useTrash ? 'Trash' : 'Remove'} ${selectedToDelete.size} duplicate files via LuminaView`}
+                        disabled={isDeleting}
+                        className="w-full bg-gray-950 border border-gray-700 rounded-lg p-2 text-sm text-white placeholder-gray-600 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                    />
                     <div className="flex gap-3">
                         <button
                             onClick={() => setShowConfirm(false)}
@@ -345,10 +861,10 @@ const RepoCleanupModal: React.FC<RepoCleanupModalProps> = ({ isOpen, onClose })
                             {isDeleting ? (
                                 <>
                                     <ArrowPathIcon className="w-5 h-5 animate-spin" />
-                                    Deleting...
+                                    {useTrash ? 'Moving...' : 'Deleting...'}
                                 </>
                             ) : (
-                                'Yes, Delete'
+                                useTrash ? 'Yes, Move to Trash' : 'Yes, Delete'
                             )}
                         </button>
                     </div>
@@ -356,6 +872,8 @@ const RepoCleanupModal: React.FC<RepoCleanupModalProps> = ({ isOpen, onClose })
             )}
           </div>
         )}
+        </>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,375 @@
+import React, { useState, useEffect } from 'react';
+import { XMarkIcon, PencilSquareIcon, ArrowPathIcon, ArrowRightIcon, ExclamationCircleIcon } from '@heroicons/react/24/outline';
+import { DEFAULT_EXPORT_FOLDER } from '../services/albumStore';
+import { getRepoFiles, getFileAddedAt, isImageFile } from '../services/githubService';
+import { getSidecarFileName } from '../services/tags';
+import {
+  RenameSource,
+  RenameTarget,
+  WordSeparator,
+  DEFAULT_RENAME_TEMPLATE,
+  TEMPLATE_TOKENS,
+  usesDate,
+  applyTemplate,
+  findConflicts,
+  listFolderPaths,
+  listDestinationPaths,
+  renameFiles
+} from '../services/repoRename';
+import RateLimitBadge from './RateLimitBadge';
+import GitHubCredentialsPanel, { useGitHubCredentials } from './GitHubCredentialsPanel';
+
+interface RepoRenameModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const SEPARATORS: { value: WordSeparator; label: string }[] = [
+  { value: '-', label: 'dash-words' },
+  { value: '_', label: 'under_score' },
+  { value: ' ', label: 'spaced words' },
+];
+
+const inputClass = "w-full bg-gray-950 border border-gray-700 rounded-lg p-2 text-sm text-white placeholder-gray-600 focus:outline-none focus:ring-1 focus:ring-blue-500";
+
+const RepoRenameModal: React.FC<RepoRenameModalProps> = ({ isOpen, onClose }) => {
+  const [repoStr, setRepoStr] = useState('jaymacmac/pics');
+  const [folderPath, setFolderPath] = useState(DEFAULT_EXPORT_FOLDER);
+
+  // Listed images, each with the path it will get (unchanged until edited)
+  const [targets, setTargets] = useState<RenameTarget[]>([]);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  // Every repo path we know of, to catch renames onto existing files
+  const [knownPaths, setKnownPaths] = useState<Set<string>>(new Set());
+  const [loadedRepo, setLoadedRepo] = useState<[string, string] | null>(null);
+
+  const [template, setTemplate] = useState(DEFAULT_RENAME_TEMPLATE);
+  const [separator, setSeparator] = useState<WordSeparator>('-');
+  const [destination, setDestination] = useState(DEFAULT_EXPORT_FOLDER);
+  const [commitMessage, setCommitMessage] = useState('');
+
+  const [isBusy, setIsBusy] = useState(false);
+  const [status, setStatus] = useState<string | null>(null);
+  const credentialsStatus = useGitHubCredentials();
+
+  // Reset state whenever the modal opens
+  useEffect(() => {
+    if (isOpen) {
+      setTargets([]);
+      setSelected(new Set());
+      setLoadedRepo(null);
+      setStatus(null);
+      setIsBusy(false);
+    }
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const loadFiles = async (owner: string, repo: string, folder: string) => {
+    const files = await getRepoFiles(owner, repo, folder, true);
+    const byPath = new Map(files.map(file => [file.path, file]));
+    const sources: RenameSource[] = files
+      .filter(file => isImageFile(file.name))
+      .map(file => {
+        const sidecar = byPath.get(getSidecarFileName(file.path));
+        return { path: file.path, sha: file.sha, sidecar: sidecar && { path: sidecar.path, sha: sidecar.sha } };
+      })
+      .sort((a, b) => a.path.localeCompare(b.path));
+
+    setTargets(sources.map(source => ({ ...source, to: source.path })));
+    setSelected(new Set(sources.map(source => source.path)));
+    setKnownPaths(new Set(files.map(file => file.path)));
+    setLoadedRepo([owner, repo]);
+    setDestination(folder);
+    return sources.length;
+  };
+
+  const handleLoad = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const parts = repoStr.split('/').map(p => p.trim());
+    if (credentialsStatus !== 'ready' || parts.length !== 2 || !parts[0] || !parts[1]) {
+      setStatus("Error: Please enter a valid Token and Repo (user/repo).");
+      return;
+    }
+
+    setIsBusy(true);
+    setStatus('Listing files...');
+    try {
+      const count = await loadFiles(parts[0], parts[1], folderPath.trim());
+      setStatus(count === 0 ? 'No images in this folder.' : `${count} images. Edit paths directly or apply a template.`);
+    } catch (err: any) {
+      console.error(err);
+      setStatus(`Error: ${err.message}`);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleApplyTemplate = async () => {
+    if (!loadedRepo) return;
+    const [owner, repo] = loadedRepo;
+    const chosen = targets.filter(target => selected.has(target.path));
+    if (chosen.length === 0) return;
+
+    setIsBusy(true);
+    try {
+      const addedAt = new Map<string, number | null>();
+      if (usesDate(template)) {
+        for (let i = 0; i < chosen.length; i++) {
+          setStatus(`Reading history ${i + 1}/${chosen.length}...`);
+          addedAt.set(chosen[i].path, await getFileAddedAt(owner, repo, chosen[i].path).catch(() => null));
+        }
+      }
+
+      // Moving elsewhere: learn what is already there so collisions show up in the preview
+      const destFolder = destination.trim().replace(/^\/+|\/+$/g, '');
+      if (destFolder !== folderPath.trim()) {
+        setStatus(`Checking ${destFolder || 'the repo root'}...`);
+        const existing = await listFolderPaths(owner, repo, destFolder);
+        setKnownPaths(prev => new Set([...prev, ...existing]));
+      }
+
+      const newPaths = applyTemplate(chosen, template, { separator, folder: destFolder, addedAt });
+      const byPath = new Map(chosen.map((target, i) => [target.path, newPaths[i]]));
+      setTargets(prev => prev.map(target => byPath.has(target.path) ? { ...target, to: byPath.get(target.path)! } : target));
+      setStatus(`Template applied to ${chosen.length} files. Review the new paths before committing.`);
+    } catch (err: any) {
+      console.error(err);
+      setStatus(`Error: ${err.message}`);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const changed = targets.filter(target => target.to.trim() !== target.path);
+  const conflicts = findConflicts(changed.map(target => ({ ...target, to: target.to.trim() })), knownPaths);
+
+  const handleCommit = async () => {
+    if (!loadedRepo || changed.length === 0 || conflicts.size > 0) return;
+    const [owner, repo] = loadedRepo;
+    const message = commitMessage.trim() || `Rename ${changed.length} files via LuminaView`;
+
+    const renames = changed.map(target => ({ ...target, to: target.to.trim() }));
+
+    setIsBusy(true);
+    try {
+      // Paths may have been typed into folders never listed: check them all before committing
+      setStatus('Checking destination folders...');
+      const existing = await listDestinationPaths(owner, repo, renames);
+      const known = new Set([...knownPaths, ...existing]);
+      setKnownPaths(known);
+      const found = findConflicts(renames, known);
+      if (found.size > 0) {
+        setStatus(`Stopped: ${found.size} new paths clash with existing files. Nothing was renamed.`);
+        return;
+      }
+
+      const result = await renameFiles(
+        owner,
+        repo,
+        renames,
+        message,
+        (p) => setStatus(p.phase === 'prepare' ? `Preparing ${changed.length} renames...` : `Creating ${p.phase}...`)
+      );
+      await loadFiles(owner, repo, folderPath.trim());
+      setCommitMessage('');
+      setStatus(`Renamed ${changed.length} files in commit ${result.commitSha.substring(0, 7)}.`);
+    } catch (err: any) {
+      console.error("Rename failed", err);
+      setStatus(`Failed: nothing was renamed. Error: ${err.message}`);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const setTargetPath = (path: string, to: string) => {
+    setTargets(prev => prev.map(target => target.path === path ? { ...target, to } : target));
+  };
+
+  const toggleSelected = (path: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(path)) next.delete(path);
+      else next.add(path);
+      return next;
+    });
+  };
+
+  const allSelected = targets.length > 0 && selected.size === targets.length;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm p-4">
+      <div className="bg-gray-900 border border-gray-700 rounded-2xl w-full max-w-3xl shadow-2xl overflow-hidden flex flex-col max-h-[90vh]">
+        <div className="p-4 border-b border-gray-800 flex justify-between items-center bg-gray-900/50">
+          <h3 className="text-white font-semibold flex items-center gap-2">
+            <PencilSquareIcon className="w-5 h-5 text-blue-400" />
+            Rename GitHub Files
+          </h3>
+          <div className="flex items-center gap-3">
+            <RateLimitBadge />
+            <button onClick={onClose} className="text-gray-400 hover:text-white transition-colors">
+              <XMarkIcon className="w-6 h-6" />
+            </button>
+          </div>
+        </div>
+
+        <div className="p-6 overflow-y-auto flex-1 space-y-4">
+          <form onSubmit={handleLoad} className="space-y-4">
+            <GitHubCredentialsPanel />
+            <div className="flex gap-3">
+              <div className="flex-1">
+                <label className="block text-xs text-gray-500 mb-1">Repo (user/repo)</label>
+                <input type="text" value={repoStr} onChange={(e) => setRepoStr(e.target.value)} className={inputClass} required />
+              </div>
+              <div className="flex-1">
+                <label className="block text-xs text-gray-500 mb-1">Folder Path</label>
+                <input type="text" value={folderPath} onChange={(e) => setFolderPath(e.target.value)} className={inputClass} />
+              </div>
+            </div>
+            <button
+              type="submit"
+              disabled={isBusy}
+              className="w-full bg-gray-800 hover:bg-gray-700 text-white py-2 rounded-lg text-sm font-medium transition-colors flex justify-center items-center gap-2 disabled:opacity-50"
+            >
+              <ArrowPathIcon className={`w-4 h-4 ${isBusy ? 'animate-spin' : ''}`} />
+              Load Files
+            </button>
+          </form>
+
+          {status && (
+            <div className={`text-sm text-center p-2 rounded bg-gray-950/50 border border-gray-800 ${status.includes('Error') || status.includes('Failed') ? 'text-red-400' : 'text-blue-400'}`}>
+              {status}
+            </div>
+          )}
+
+          {targets.length > 0 && (
+            <>
+              <div className="bg-gray-800/50 border border-gray-700/50 rounded-lg p-3 space-y-3">
+                <div className="flex flex-wrap gap-3">
+                  <div className="flex-1 min-w-[12rem]">
+                    <label className="block text-xs text-gray-500 mb-1">Template</label>
+                    <input
+                      type="text"
+                      value={template}
+                      onChange={(e) => setTemplate(e.target.value)}
+                      className={`${inputClass} font-mono`}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs text-gray-500 mb-1">Words</label>
+                    <select
+                      value={separator}
+                      onChange={(e) => setSeparator(e.target.value as WordSeparator)}
+                      className="bg-gray-950 border border-gray-700 rounded-lg p-2 text-sm text-white focus:outline-none focus:ring-1 focus:ring-blue-500"
+                    >
+                      {SEPARATORS.map(s => <option key={s.value} value={s.value}>{s.label}</option>)}
+                    </select>
+                  </div>
+                  <div className="w-40">
+                    <label className="block text-xs text-gray-500 mb-1">Move to Folder</label>
+                    <input type="text" value={destination} onChange={(e) => setDestination(e.target.value)} placeholder="(repo root)" className={inputClass} />
+                  </div>
+                </div>
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <div className="flex flex-wrap gap-1">
+                    {TEMPLATE_TOKENS.map(t => (
+                      <button
+                        key={t.token}
+                        type="button"
+                        onClick={() => setTemplate(prev => prev + t.token)}
+                        title={t.description}
+                        className="text-[10px] font-mono bg-gray-900 hover:bg-gray-700 text-gray-300 px-2 py-0.5 rounded border border-gray-700"
+                      >
+                        {t.token}
+                      </button>
+                    ))}
+                  </div>
+                  <button
+                    type="button"
+                    onClick={handleApplyTemplate}
+                    disabled={isBusy || selected.size === 0 || !template.trim()}
+                    className="bg-blue-600 hover:bg-blue-500 text-white px-3 py-1.5 rounded-lg text-xs disabled:opacity-50"
+                  >
+                    Apply to {selected.size} Selected
+                  </button>
+                </div>
+              </div>
+
+              <div className="space-y-1">
+                <label className="flex items-center gap-2 text-xs text-gray-500 px-2 cursor-pointer select-none">
+                  <input
+                    type="checkbox"
+                    checked={allSelected}
+                    onChange={() => setSelected(allSelected ? new Set() : new Set(targets.map(t => t.path)))}
+                    className="rounded border-gray-700 bg-gray-950 text-blue-600 focus:ring-blue-500"
+                  />
+                  {changed.length} of {targets.length} files will change
+                </label>
+                {targets.map(target => {
+                  const conflict = conflicts.get(target.path);
+                  const isChanged = target.to.trim() !== target.path;
+                  return (
+                    <div key={target.path} className="flex items-center gap-2 p-2 rounded-lg bg-gray-800/50 border border-gray-700/50 text-sm">
+                      <input
+                        type="checkbox"
+                        checked={selected.has(target.path)}
+                        onChange={() => toggleSelected(target.path)}
+                        className="rounded border-gray-700 bg-gray-950 text-blue-600 focus:ring-blue-500"
+                      />
+                      <span className={`w-2/5 truncate ${isChanged ? 'text-gray-500 line-through' : 'text-gray-300'}`} title={target.path}>
+                        {target.path}
+                      </span>
+                      <ArrowRightIcon className="w-4 h-4 text-gray-600 flex-shrink-0" />
+                      <div className="flex-1 min-w-0">
+                        <input
+                          type="text"
+                          value={target.to}
+                          onChange={(e) => setTargetPath(target.path, e.target.value)}
+                          disabled={isBusy}
+                          className={`w-full bg-gray-950 border rounded-md px-2 py-1 text-xs font-mono focus:outline-none focus:ring-1 focus:ring-blue-500 ${conflict ? 'border-red-500 text-red-300' : isChanged ? 'border-blue-700 text-blue-200' : 'border-gray-800 text-gray-400'}`}
+                        />
+                        {conflict && <p className="text-[10px] text-red-400 mt-0.5">{conflict}</p>}
+                        {isChanged && target.sidecar && !conflict && (
+                          <p className="text-[10px] text-gray-500 mt-0.5">Sidecar moves along</p>
+                        )}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            </>
+          )}
+        </div>
+
+        {changed.length > 0 && (
+          <div className="p-4 bg-gray-900 border-t border-gray-800 space-y-3">
+            {conflicts.size > 0 && (
+              <div className="flex items-center gap-2 text-sm text-red-400">
+                <ExclamationCircleIcon className="w-5 h-5" />
+                Fix {conflicts.size} conflicting paths before committing.
+              </div>
+            )}
+            <input
+              type="text"
+              value={commitMessage}
+              onChange={(e) => setCommitMessage(e.target.value)}
+              placeholder={`Rename ${changed.length} files via LuminaView`}
+              disabled={isBusy}
+              className={inputClass}
+            />
+            <button
+              onClick={handleCommit}
+              disabled={isBusy || conflicts.size > 0}
+              className="w-full bg-blue-600 hover:bg-blue-500 text-white py-3 rounded-xl font-bold transition-colors disabled:opacity-50 flex justify-center items-center gap-2"
+            >
+              {isBusy ? <ArrowPathIcon className="w-5 h-5 animate-spin" /> : <PencilSquareIcon className="w-5 h-5" />}
+              Rename {changed.length} Files in One Commit
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RepoRenameModal;
@@ -0,0 +1,214 @@
+import React, { useState, useEffect } from 'react';
+import { ArrowPathIcon, ArrowUturnLeftIcon, TrashIcon } from '@heroicons/react/24/outline';
+import { CleanupJournalEntry } from '../types';
+import { TrashedFile, listTrash, restoreFromTrash, emptyTrash, loadJournal, undoCleanup } from '../services/repoTrash';
+
+interface RepoTrashPanelProps {
+  // Parsed "owner/repo", null while the input is invalid
+  repo: [string, string] | null;
+  trashFolder: string;
+  view: 'trash' | 'history';
+}
+
+const groupByBatch = (files: TrashedFile[]): [string, TrashedFile[]][] => {
+  const batches = new Map<string, TrashedFile[]>();
+  files.forEach(file => batches.set(file.batch, [...(batches.get(file.batch) || []), file]));
+  return Array.from(batches.entries());
+};
+
+const describeEntry = (entry: CleanupJournalEntry): string => {
+  const count = entry.moves.length;
+  const files = `${count} file${count === 1 ? '' : 's'}`;
+  if (entry.mode === 'delete') return `Deleted ${files}`;
+  return entry.mode === 'restore' ? `Restored ${files}` : `Trashed ${files}`;
+};
+
+// Trash and History tabs of the repo cleanup dialog
+const RepoTrashPanel: React.FC<RepoTrashPanelProps> = ({ repo, trashFolder, view }) => {
+  const [trashed, setTrashed] = useState<TrashedFile[]>([]);
+  const [journal, setJournal] = useState<CleanupJournalEntry[]>([]);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [isLoading, setIsLoading] = useState(false);
+  const [isBusy, setIsBusy] = useState(false);
+  const [confirmEmpty, setConfirmEmpty] = useState(false);
+  const [status, setStatus] = useState<string | null>(null);
+
+  const owner = repo?.[0];
+  const name = repo?.[1];
+
+  const refresh = async () => {
+    if (!owner || !name) return;
+    setIsLoading(true);
+    setSelected(new Set());
+    setConfirmEmpty(false);
+    try {
+      if (view === 'trash') setTrashed(await listTrash(owner, name, trashFolder));
+      else setJournal(await loadJournal(owner, name));
+    } catch (error: any) {
+      console.error("Failed to load cleanup data", error);
+      setStatus(`Error: ${error.message || 'Could not load'}`);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    setStatus(null);
+    refresh();
+  }, [owner, name, trashFolder, view]);
+
+  const run = async (action: () => Promise<string>) => {
+    setIsBusy(true);
+    setStatus(null);
+    try {
+      setStatus(await action());
+      await refresh();
+    } catch (error: any) {
+      console.error("Cleanup action failed", error);
+      setStatus(`Failed: ${error.message || 'Unknown error'}`);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleRestore = () => {
+    const files = trashed.filter(file => selected.has(file.trashPath));
+    run(async () => {
+      const entry = await restoreFromTrash(owner!, name!, files, `Restore ${files.length} files from trash via LuminaView`);
+      return `Restored ${files.length} files in commit ${entry.commitSha.substring(0, 7)}.`;
+    });
+  };
+
+  const handleEmpty = () => {
+    run(async () => {
+      const entry = await emptyTrash(owner!, name!, trashed, `Empty trash (${trashed.length} files) via LuminaView`);
+      return `Permanently deleted ${trashed.length} files in commit ${entry.commitSha.substring(0, 7)}.`;
+    });
+  };
+
+  const handleUndo = (entry: CleanupJournalEntry) => {
+    run(async () => {
+      await undoCleanup(entry);
+      return `Undid: ${describeEntry(entry).toLowerCase()}.`;
+    });
+  };
+
+  const toggle = (path: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(path)) next.delete(path);
+      else next.add(path);
+      return next;
+    });
+  };
+
+  if (!repo) {
+    return <div className="p-6 text-sm text-gray-500 text-center">Enter a valid repo (user/repo) on the Duplicates tab.</div>;
+  }
+
+  return (
+    <>
+      <div className="p-6 overflow-y-auto flex-1 space-y-4">
+        <div className="flex justify-between items-center text-sm text-gray-400">
+          <span className="font-mono truncate">
+            {owner}/{name}{view === 'trash' ? ` · ${trashFolder}/` : ''}
+          </span>
+          <button onClick={refresh} disabled={isLoading || isBusy} className="text-gray-400 hover:text-white disabled:opacity-50" title="Refresh">
+            <ArrowPathIcon className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />
+          </button>
+        </div>
+
+        {status && (
+          <div className={`text-sm text-center p-2 rounded bg-gray-950/50 border border-gray-800 ${status.includes('Error') || status.includes('Failed') ? 'text-red-400' : 'text-blue-400'}`}>
+            {status}
+          </div>
+        )}
+
+        {view === 'trash' && !isLoading && trashed.length === 0 && (
+          <p className="text-sm text-gray-500 text-center">The trash is empty.</p>
+        )}
+
+        {view === 'trash' && groupByBatch(trashed).map(([batch, files]) => (
+          <div key={batch} className="bg-gray-800/50 rounded-xl p-3 border border-gray-700/50">
+            <div className="text-xs text-gray-500 font-mono mb-2">Trashed {batch.replace('T', ' ')}</div>
+            <div className="space-y-1">
+              {files.map(file => (
+                <label key={file.trashPath} className="flex items-center gap-2 p-2 rounded-lg text-sm cursor-pointer hover:bg-gray-800">
+                  <input
+                    type="checkbox"
+                    checked={selected.has(file.trashPath)}
+                    onChange={() => toggle(file.trashPath)}
+                    disabled={isBusy}
+                    className="rounded border-gray-700 bg-gray-950 text-blue-600 focus:ring-blue-500"
+                  />
+                  <span className="truncate text-gray-200" title={file.trashPath}>{file.originalPath}</span>
+                  {file.sidecar && <span className="text-[10px] text-gray-500 flex-shrink-0">+ sidecar</span>}
+                </label>
+              ))}
+            </div>
+          </div>
+        ))}
+
+        {view === 'history' && !isLoading && journal.length === 0 && (
+          <p className="text-sm text-gray-500 text-center">No cleanups recorded on this device for this repo.</p>
+        )}
+
+        {view === 'history' && journal.map(entry => (
+          <div key={entry.id} className="flex items-center justify-between gap-3 bg-gray-800/50 rounded-xl p-3 border border-gray-700/50">
+            <div className="min-w-0 text-sm">
+              <div className={entry.undoneAt ? 'text-gray-500 line-through' : 'text-gray-200'}>{describeEntry(entry)}</div>
+              <div className="text-xs text-gray-500 font-mono truncate">
+                {new Date(entry.createdAt).toLocaleString()} · {entry.commitSha.substring(0, 7)}
+                {entry.undoneAt && ` · undone ${new Date(entry.undoneAt).toLocaleString()}`}
+              </div>
+            </div>
+            {!entry.undoneAt && (
+              <button
+                onClick={() => handleUndo(entry)}
+                disabled={isBusy}
+                className="flex items-center gap-1 bg-gray-800 hover:bg-gray-700 text-white px-3 py-1.5 rounded-lg text-xs border border-gray-700 disabled:opacity-50"
+              >
+                <ArrowUturnLeftIcon className="w-4 h-4" />
+                Undo
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {view === 'trash' && trashed.length > 0 && (
+        <div className="p-4 bg-gray-900 border-t border-gray-800 flex gap-3">
+          <button
+            onClick={handleRestore}
+            disabled={isBusy || selected.size === 0}
+            className="flex-1 bg-blue-600 hover:bg-blue-500 text-white py-3 rounded-xl font-medium transition-colors disabled:opacity-50 flex justify-center items-center gap-2"
+          >
+            <ArrowUturnLeftIcon className="w-5 h-5" />
+            Restore {selected.size} Files
+          </button>
+          {!confirmEmpty ? (
+            <button
+              onClick={() => setConfirmEmpty(true)}
+              disabled={isBusy}
+              className="flex-1 bg-gray-800 hover:bg-gray-700 text-red-400 py-3 rounded-xl font-medium transition-colors disabled:opacity-50 flex justify-center items-center gap-2"
+            >
+              <TrashIcon className="w-5 h-5" />
+              Empty Trash
+            </button>
+          ) : (
+            <button
+              onClick={handleEmpty}
+              disabled={isBusy}
+              className="flex-1 bg-red-600 hover:bg-red-500 text-white py-3 rounded-xl font-bold transition-colors disabled:opacity-50 flex justify-center items-center gap-2"
+            >
+              {isBusy ? <ArrowPathIcon className="w-5 h-5 animate-spin" /> : <TrashIcon className="w-5 h-5" />}
+              Delete {trashed.length} Forever
+            </button>
+          )}
+        </div>
+      )}
+    </>
+  );
+};
+
+export default RepoTrashPanel;
@@ -0,0 +1,83 @@
+import React, { useEffect, useState } from 'react';
+import { PromptTarget, SavedPrompt } from '../types';
+import { collectPromptFolders, createSavedPrompt, loadPrompts, normalizeFolder, savePrompt, titleFromPrompt } from '../services/promptLibrary';
+
+interface SavePromptFormProps {
+  text: string;
+  target: PromptTarget;
+  variables?: Record<string, string[]>;
+  // Library prompt being edited; saving as new is still offered
+  existing?: SavedPrompt | null;
+  onSaved: (prompt: SavedPrompt) => void;
+  onCancel: () => void;
+}
+
+const inputClass = "w-full bg-gray-950 border border-gray-700 rounded-lg p-2 text-sm text-white placeholder-gray-600 focus:outline-none focus:ring-1 focus:ring-purple-500";
+
+const SavePromptForm: React.FC<SavePromptFormProps> = ({ text, target, variables, existing, onSaved, onCancel }) => {
+  const [title, setTitle] = useState(existing?.title || titleFromPrompt(text));
+  const [folder, setFolder] = useState(existing?.folder || '');
+  const [folders, setFolders] = useState<string[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadPrompts()
+      .then(prompts => setFolders(collectPromptFolders(prompts)))
+      .catch(err => console.error("Failed to load prompt folders:", err));
+  }, []);
+
+  const save = async (asNew: boolean) => {
+    const prompt = existing && !asNew
+      ? { ...existing, title: title.trim() || titleFromPrompt(text), folder: normalizeFolder(folder), text, variables }
+      : createSavedPrompt(text, target, { title, folder, variables });
+    try {
+      await savePrompt(prompt);
+      onSaved(prompt);
+    } catch (err) {
+      console.error("Failed to save prompt:", err);
+      setError("Failed to save prompt.");
+    }
+  };
+
+  return (
+    <div className="bg-gray-800/50 border border-gray-700 rounded-xl p-3 space-y-2">
+      <div className="space-y-2">
+        <input
+          type="text"
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+          placeholder="Title"
+          className={inputClass}
+          autoFocus
+        />
+        <input
+          type="text"
+          value={folder}
+          onChange={(e) => setFolder(e.target.value)}
+          placeholder="Folder (e.g. landscapes/winter)"
+          list="prompt-library-folders"
+          className={inputClass}
+        />
+        <datalist id="prompt-library-folders">
+          {folders.map(f => <option key={f} value={f} />)}
+        </datalist>
+      </div>
+      {error && <p className="text-xs text-red-400">{error}</p>}
+      <div className="flex justify-end gap-2">
+        <button type="button" onClick={onCancel} className="px-3 py-1.5 text-xs text-gray-400 hover:text-white">
+          Cancel
+        </button>
+        {existing && (
+          <button type="button" onClick={() => save(true)} className="px-3 py-1.5 text-xs rounded-lg bg-gray-700 hover:bg-gray-600 text-white">
+            Save as New
+          </button>
+        )}
+        <button type="button" onClick={() => save(false)} disabled={!text.trim()} className="px-3 py-1.5 text-xs rounded-lg bg-purple-600 hover:bg-purple-500 text-white disabled:opacity-50">
+          {existing ? 'Update' : 'Save to Library'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default SavePromptForm;
@@ -0,0 +1,190 @@
+import React, { useRef, useState } from 'react';
+import {
+  ArrowLeftIcon,
+  ChevronUpIcon,
+  ChevronDownIcon,
+  PencilSquareIcon,
+  TrashIcon,
+  PlusIcon,
+  ArrowDownTrayIcon,
+  ArrowUpTrayIcon
+} from '@heroicons/react/24/outline';
+import { StylePreset, ImageAspectRatio } from '../types';
+import { createStylePreset, exportPresetPack, parsePresetPack } from '../services/stylePresets';
+import { ASPECT_RATIOS } from '../services/aiProvider';
+
+interface StylePresetManagerProps {
+  presets: StylePreset[];
+  onChange: (presets: StylePreset[]) => void;
+  onBack: () => void;
+}
+
+const inputClass = "w-full bg-gray-950 border border-gray-700 rounded-lg p-2 text-sm text-white placeholder-gray-600 focus:outline-none focus:ring-1 focus:ring-purple-500";
+const smallButton = "flex items-center gap-1 px-3 py-1.5 rounded-lg text-xs font-medium border bg-gray-800 border-gray-700 text-gray-300 hover:bg-gray-700 transition-colors";
+
+const StylePresetManager: React.FC<StylePresetManagerProps> = ({ presets, onChange, onBack }) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [status, setStatus] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const update = (id: string, changes: Partial<StylePreset>) => {
+    onChange(presets.map(preset => preset.id === id ? { ...preset, ...changes } : preset));
+  };
+
+  const move = (index: number, offset: number) => {
+    const next = [...presets];
+    const [preset] = next.splice(index, 1);
+    next.splice(index + offset, 0, preset);
+    onChange(next);
+  };
+
+  const handleAdd = () => {
+    const preset = createStylePreset();
+    onChange([...presets, preset]);
+    setEditingId(preset.id);
+  };
+
+  const handleDelete = (preset: StylePreset) => {
+    if (!window.confirm(`Delete the "${preset.name}" style?`)) return;
+    onChange(presets.filter(p => p.id !== preset.id));
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const imported = parsePresetPack(await file.text());
+      onChange([...presets, ...imported]);
+      setStatus(`Imported ${imported.length} style${imported.length === 1 ? '' : 's'} from ${file.name}.`);
+    } catch (error: any) {
+      console.error("Preset import failed:", error);
+      setStatus(`Import failed: ${error.message}`);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <button onClick={onBack} className="flex items-center gap-1 text-sm text-gray-400 hover:text-white">
+          <ArrowLeftIcon className="w-4 h-4" />
+          Back
+        </button>
+        <div className="flex gap-2">
+          <button onClick={() => fileInputRef.current?.click()} className={smallButton} title="Add presets from a JSON pack">
+            <ArrowUpTrayIcon className="w-3.5 h-3.5" />
+            Import
+          </button>
+          <button onClick={() => exportPresetPack(presets)} className={smallButton} title="Download all presets as a JSON pack">
+            <ArrowDownTrayIcon className="w-3.5 h-3.5" />
+            Export
+          </button>
+          <input ref={fileInputRef} type="file" accept="application/json,.json" onChange={handleImport} className="hidden" />
+        </div>
+      </div>
+
+      {status && (
+        <p className={`text-xs ${status.includes('failed') ? 'text-red-400' : 'text-gray-400'}`}>{status}</p>
+      )}
+
+      {presets.length === 0 && (
+        <p className="text-xs text-gray-500">No styles. Prompts are sent as written until you add one.</p>
+      )}
+
+      <ul className="space-y-2">
+        {presets.map((preset, index) => (
+          <li key={preset.id} className="bg-gray-800/50 border border-gray-700/50 rounded-lg">
+            <div className="flex items-center gap-2 p-2">
+              <div className="flex flex-col">
+                <button onClick={() => move(index, -1)} disabled={index === 0} className="text-gray-500 hover:text-white disabled:opacity-30" title="Move up">
+                  <ChevronUpIcon className="w-3.5 h-3.5" />
+                </button>
+                <button onClick={() => move(index, 1)} disabled={index === presets.length - 1} className="text-gray-500 hover:text-white disabled:opacity-30" title="Move down">
+                  <ChevronDownIcon className="w-3.5 h-3.5" />
+                </button>
+              </div>
+              <div className="flex-1 min-w-0">
+                <p className="text-sm text-white truncate">{preset.name}</p>
+                <p className="text-[11px] text-gray-500 truncate">{preset.suffix || 'No suffix'}</p>
+              </div>
+              <button
+                onClick={() => setEditingId(editingId === preset.id ? null : preset.id)}
+                className={`p-1 rounded hover:bg-gray-700 ${editingId === preset.id ? 'text-purple-300' : 'text-gray-400 hover:text-white'}`}
+                title="Edit"
+              >
+                <PencilSquareIcon className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => handleDelete(preset)}
+                className="p-1 rounded hover:bg-gray-700 text-gray-400 hover:text-red-400"
+                title="Delete"
+              >
+                <TrashIcon className="w-4 h-4" />
+              </button>
+            </div>
+
+            {editingId === preset.id && (
+              <div className="border-t border-gray-700/50 p-3 space-y-3">
+                <label className="block text-xs text-gray-400">
+                  Name
+                  <input type="text" value={preset.name} onChange={(e) => update(preset.id, { name: e.target.value })} className={`${inputClass} mt-1`} />
+                </label>
+                <label className="block text-xs text-gray-400">
+                  Suffix (appended to the prompt)
+                  <textarea
+                    value={preset.suffix}
+                    onChange={(e) => update(preset.id, { suffix: e.target.value })}
+                    placeholder=", soft lighting, pastel colors"
+                    className={`${inputClass} mt-1 min-h-[60px] resize-none`}
+                  />
+                </label>
+                <label className="block text-xs text-gray-400">
+                  Avoid (negative hints)
+                  <input
+                    type="text"
+                    value={preset.negativeHints || ''}
+                    onChange={(e) => update(preset.id, { negativeHints: e.target.value || undefined })}
+                    placeholder="text, watermarks, blur"
+                    className={`${inputClass} mt-1`}
+                  />
+                </label>
+                <div className="flex gap-3">
+                  <label className="flex-1 block text-xs text-gray-400">
+                    Aspect ratio
+                    <select
+                      value={preset.aspectRatio || ''}
+                      onChange={(e) => update(preset.id, { aspectRatio: (e.target.value || undefined) as ImageAspectRatio | undefined })}
+                      className={`${inputClass} mt-1`}
+                    >
+                      <option value="">Generator's choice</option>
+                      {ASPECT_RATIOS.map(ratio => <option key={ratio} value={ratio}>{ratio}</option>)}
+                    </select>
+                  </label>
+                  <label className="flex-1 block text-xs text-gray-400">
+                    Model
+                    <select
+                      value={preset.usePro === undefined ? '' : preset.usePro ? 'pro' : 'standard'}
+                      onChange={(e) => update(preset.id, { usePro: e.target.value === '' ? undefined : e.target.value === 'pro' })}
+                      className={`${inputClass} mt-1`}
+                    >
+                      <option value="">Generator's choice</option>
+                      <option value="standard">Standard</option>
+                      <option value="pro">Pro (HQ)</option>
+                    </select>
+                  </label>
+                </div>
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      <button onClick={handleAdd} className={`${smallButton} w-full justify-center`}>
+        <PlusIcon className="w-4 h-4" />
+        New Style
+      </button>
+    </div>
+  );
+};
+
+export default StylePresetManager;
@@ -0,0 +1,280 @@
+import React, { useState, useEffect } from 'react';
+import {
+  XMarkIcon,
+  ArrowsRightLeftIcon,
+  ArrowPathIcon,
+  ArrowUpIcon,
+  ArrowDownIcon,
+  CheckCircleIcon,
+  ExclamationCircleIcon
+} from '@heroicons/react/24/outline';
+import { ImageItem } from '../types';
+import { DEFAULT_EXPORT_FOLDER } from '../services/albumStore';
+import {
+  SyncPlan,
+  SyncChange,
+  SyncChangeKind,
+  SyncAction,
+  SyncResult,
+  SYNC_ACTIONS,
+  compareWithRemote,
+  executeSyncPlan
+} from '../services/syncEngine';
+import RateLimitBadge from './RateLimitBadge';
+import GitHubCredentialsPanel, { useGitHubCredentials } from './GitHubCredentialsPanel';
+
+interface SyncModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  images: ImageItem[];
+  defaultFolderPath?: string;
+  onSynced: (result: SyncResult) => void;
+}
+
+const KIND_LABELS: Record<SyncChangeKind, { title: string; className: string }> = {
+  'new-local': { title: 'New in gallery', className: 'text-green-400' },
+  'new-remote': { title: 'New on GitHub', className: 'text-blue-400' },
+  'changed-local': { title: 'Changed in gallery', className: 'text-green-300' },
+  'changed-remote': { title: 'Changed on GitHub', className: 'text-blue-300' },
+  'deleted-local': { title: 'Deleted from gallery', className: 'text-orange-400' },
+  'deleted-remote': { title: 'Deleted from GitHub', className: 'text-orange-300' },
+  'conflict': { title: 'Conflicting names', className: 'text-red-400' },
+};
+
+// Wording of each action depends on what the change is
+const actionLabel = (kind: SyncChangeKind, action: SyncAction): string => {
+  if (action === 'skip') return 'Skip';
+  if (kind === 'deleted-local') return action === 'push' ? 'Delete on GitHub' : 'Restore locally';
+  if (kind === 'deleted-remote') return action === 'pull' ? 'Delete locally' : 'Re-upload';
+  if (kind === 'conflict') return action === 'push' ? 'Keep local' : 'Keep remote';
+  return action === 'push' ? 'Push' : 'Pull';
+};
+
+const KIND_ORDER = Object.keys(KIND_LABELS) as SyncChangeKind[];
+
+const SyncModal: React.FC<SyncModalProps> = ({ isOpen, onClose, images, defaultFolderPath = DEFAULT_EXPORT_FOLDER, onSynced }) => {
+  const [repoStr, setRepoStr] = useState('jaymacmac/pics');
+  const [folderPath, setFolderPath] = useState(defaultFolderPath);
+
+  const [plan, setPlan] = useState<SyncPlan | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [status, setStatus] = useState<string | null>(null);
+  const [result, setResult] = useState<SyncResult | null>(null);
+  const credentialsStatus = useGitHubCredentials();
+
+  // Reset state whenever the modal opens
+  useEffect(() => {
+    if (isOpen) {
+      setPlan(null);
+      setResult(null);
+      setStatus(null);
+      setIsBusy(false);
+      setFolderPath(defaultFolderPath);
+    }
+  }, [isOpen, defaultFolderPath]);
+
+  if (!isOpen) return null;
+
+  const handleCompare = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const parts = repoStr.split('/').map(p => p.trim());
+    if (credentialsStatus !== 'ready' || parts.length !== 2 || !parts[0] || !parts[1]) {
+      setStatus("Error: Please enter a valid Token and Repo (user/repo).");
+      return;
+    }
+
+    setIsBusy(true);
+    setPlan(null);
+    setResult(null);
+    try {
+      const target = { owner: parts[0], repo: parts[1], folder: folderPath.trim() };
+      const newPlan = await compareWithRemote(images, target, setStatus);
+      setPlan(newPlan);
+      setStatus(newPlan.changes.length === 0
+        ? `Everything is in sync (${newPlan.unchanged.length} files).`
+        : `${newPlan.changes.length} differences, ${newPlan.unchanged.length} files already in sync.`);
+    } catch (err: any) {
+      console.error(err);
+      setStatus(`Error: ${err.message}`);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const setAction = (change: SyncChange, action: SyncAction) => {
+    setPlan(prev => prev && {
+      ...prev,
+      changes: prev.changes.map(c => c === change ? { ...c, action } : c)
+    });
+  };
+
+  const setGroupAction = (kind: SyncChangeKind, action: SyncAction) => {
+    setPlan(prev => prev && {
+      ...prev,
+      changes: prev.changes.map(c => c.kind === kind ? { ...c, action } : c)
+    });
+  };
+
+  const handleApply = async () => {
+    if (!plan) return;
+    setIsBusy(true);
+    try {
+      const syncResult = await executeSyncPlan(plan, (message, done, total) => {
+        setStatus(`${message} (${done}/${total})`);
+      });
+      onSynced(syncResult);
+      setResult(syncResult);
+      setPlan(null);
+      setStatus(syncResult.failed.length > 0
+        ? `Completed with errors. Failed: ${syncResult.failed.length}.`
+        : 'Sync complete!');
+    } catch (err: any) {
+      console.error(err);
+      setStatus(`Error: ${err.message}`);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const pendingCount = plan ? plan.changes.filter(c => c.action !== 'skip').length : 0;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm p-4 animate-fade-in">
+      <div className="bg-gray-900 border border-gray-700 rounded-2xl w-full max-w-2xl shadow-2xl overflow-hidden flex flex-col max-h-[90vh] animate-scale-in">
+        <div className="p-4 border-b border-gray-800 flex justify-between items-center bg-gray-900/50">
+          <h3 className="text-white font-semibold flex items-center gap-2">
+            <ArrowsRightLeftIcon className="w-5 h-5 text-blue-500" />
+            Sync with GitHub
+          </h3>
+          <div className="flex items-center gap-3">
+            <RateLimitBadge />
+            <button onClick={onClose} className="text-gray-400 hover:text-white transition-colors">
+              <XMarkIcon className="w-6 h-6" />
+            </button>
+          </div>
+        </div>
+
+        <div className="p-6 overflow-y-auto flex-1">
+          <form onSubmit={handleCompare} className="space-y-4 mb-6">
+            <GitHubCredentialsPanel />
+            <div>
+              <label className="block text-xs text-gray-500 mb-1">Repo (user/repo)</label>
+              <input
+                type="text"
+                value={repoStr}
+                onChange={(e) => setRepoStr(e.target.value)}
+                className="w-full bg-gray-950 border border-gray-700 rounded-lg p-2 text-sm text-white focus:outline-none focus:ring-1 focus:ring-blue-500"
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-xs text-gray-500 mb-1">Folder Path</label>
+              <input
+                type="text"
+                value={folderPath}
+                onChange={(e) => setFolderPath(e.target.value)}
+                className="w-full bg-gray-950 border border-gray-700 rounded-lg p-2 text-sm text-white focus:outline-none focus:ring-1 focus:ring-blue-500"
+              />
+            </div>
+
+            <button
+              type="submit"
+              disabled={isBusy}
+              className="w-full bg-gray-800 hover:bg-gray-700 text-white py-2 rounded-lg text-sm font-medium transition-colors flex justify-center items-center gap-2 disabled:opacity-50"
+            >
+              <ArrowPathIcon className={`w-4 h-4 ${isBusy ? 'animate-spin' : ''}`} />
+              Compare {images.length} Local Images with GitHub
+            </button>
+          </form>
+
+          {status && (
+            <div className={`text-sm mb-4 text-center p-2 rounded bg-gray-950/50 border border-gray-800 ${status.includes('Error') || status.includes('errors') ? 'text-red-400' : 'text-blue-400'}`}>
+              {status}
+            </div>
+          )}
+
+          {result && result.failed.length > 0 && (
+            <div className="bg-gray-950 rounded-lg p-3 max-h-32 overflow-y-auto text-xs text-red-400 font-mono mb-4">
+              {result.failed.map(f => <div key={f.path}>{f.path}: {f.error}</div>)}
+            </div>
+          )}
+
+          {result && result.failed.length === 0 && (
+            <div className="flex flex-col items-center py-4 space-y-2">
+              <CheckCircleIcon className="w-12 h-12 text-green-500" />
+              <p className="text-gray-400 text-sm">
+                Added {result.added.length}, updated {result.replaced.length}, removed {result.removedIds.length} local images.
+              </p>
+            </div>
+          )}
+
+          {plan && KIND_ORDER.map(kind => {
+            const group = plan.changes.filter(c => c.kind === kind);
+            if (group.length === 0) return null;
+            const { title, className } = KIND_LABELS[kind];
+
+            return (
+              <div key={kind} className="mb-4 bg-gray-800/50 rounded-xl p-3 border border-gray-700/50">
+                <div className="flex items-center justify-between mb-2">
+                  <span className={`text-sm font-medium flex items-center gap-2 ${className}`}>
+                    {kind === 'conflict' && <ExclamationCircleIcon className="w-4 h-4" />}
+                    {title} ({group.length})
+                  </span>
+                  <div className="flex gap-1">
+                    {SYNC_ACTIONS[kind].map(action => (
+                      <button
+                        key={action}
+                        onClick={() => setGroupAction(kind, action)}
+                        className="text-[10px] px-2 py-0.5 rounded bg-gray-900 text-gray-400 hover:text-white border border-gray-700"
+                      >
+                        All: {actionLabel(kind, action)}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                <div className="space-y-1">
+                  {group.map(c => (
+                    <div key={`${kind}:${c.path}:${c.local?.image.id || ''}`} className="flex items-center justify-between gap-2 p-2 rounded-lg bg-gray-900/50 text-sm">
+                      <div className="flex items-center gap-2 min-w-0">
+                        {c.action === 'push' && <ArrowUpIcon className="w-3.5 h-3.5 text-green-400 shrink-0" />}
+                        {c.action === 'pull' && <ArrowDownIcon className="w-3.5 h-3.5 text-blue-400 shrink-0" />}
+                        <span className={`truncate ${c.action === 'skip' ? 'text-gray-500' : 'text-gray-200'}`}>
+                          {c.local ? `${c.local.image.title} → ` : ''}{c.path}
+                        </span>
+                      </div>
+                      <select
+                        value={c.action}
+                        onChange={(e) => setAction(c, e.target.value as SyncAction)}
+                        disabled={isBusy}
+                        className="bg-gray-950 border border-gray-700 rounded-md py-1 px-2 text-xs text-gray-200 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                      >
+                        {SYNC_ACTIONS[kind].map(action => (
+                          <option key={action} value={action}>{actionLabel(kind, action)}</option>
+                        ))}
+                      </select>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        {plan && plan.changes.length > 0 && (
+          <div className="p-4 bg-gray-900 border-t border-gray-800">
+            <button
+              onClick={handleApply}
+              disabled={isBusy || pendingCount === 0}
+              className="w-full bg-blue-600 hover:bg-blue-500 text-white py-3 rounded-xl font-bold shadow-lg shadow-blue-900/30 transition-all disabled:opacity-50 disabled:cursor-not-allowed flex justify-center items-center gap-2"
+            >
+              {isBusy ? <ArrowPathIcon className="w-5 h-5 animate-spin" /> : <ArrowsRightLeftIcon className="w-5 h-5" />}
+              Apply {pendingCount} Changes
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SyncModal;
@@ -1,33 +1,63 @@
 import React, { useRef, useState, useEffect } from 'react';
-import { SparklesIcon, ArrowUpTrayIcon, LinkIcon, ArrowsPointingOutIcon, ArrowsPointingInIcon, CloudArrowUpIcon, TrashIcon, XCircleIcon, WrenchScrewdriverIcon, PhotoIcon, CubeTransparentIcon } from '@heroicons/react/24/outline';
+import { SparklesIcon, ArrowUpTrayIcon, LinkIcon, ArrowsPointingOutIcon, ArrowsPointingInIcon, CloudArrowUpIcon, TrashIcon, XCircleIcon, WrenchScrewdriverIcon, PhotoIcon, CubeTransparentIcon, FolderPlusIcon, FolderMinusIcon, TagIcon, ArrowsRightLeftIcon, PencilSquareIcon, SwatchIcon, CpuChipIcon, ArrowPathIcon } from '@heroicons/react/24/outline';
+import { Album } from '../types';
+import { useAiSettings } from './AiSettingsModal';
 
 interface ToolbarProps {
   onUpload: (files: FileList) => void;
+  // An upload or URL import is being checked for duplicates
+  isImporting: boolean;
   onOpenGenerate: () => void;
   onOpenAddUrl: () => void;
   onOpenExport: () => void;
+  onOpenSync: () => void;
   onOpenCleanup: () => void;
+  onOpenRename: () => void;
   selectedCount: number;
   onDeselectAll: () => void;
   onDeleteSelected: () => void;
   activeTab: 'gallery' | 'visualizer';
   onTabChange: (tab: 'gallery' | 'visualizer') => void;
+  albums: Album[];
+  activeAlbumId: string | null;
+  onAddSelectedToAlbum: (albumId: string) => void;
+  onRemoveSelectedFromAlbum: () => void;
+  onOpenAutoTag: () => void;
+  onGenerateFromSelected: () => void;
+  onOpenAiSettings: () => void;
 }
 
 const Toolbar: React.FC<ToolbarProps> = ({ 
   onUpload, 
+  isImporting,
   onOpenGenerate, 
   onOpenAddUrl, 
   onOpenExport, 
+  onOpenSync,
   onOpenCleanup,
+  onOpenRename,
   selectedCount,
   onDeselectAll,
   onDeleteSelected,
   activeTab,
-  onTabChange
+  onTabChange,
+  albums,
+  activeAlbumId,
+  onAddSelectedToAlbum,
+  onRemoveSelectedFromAlbum,
+  onOpenAutoTag,
+  onGenerateFromSelected,
+  onOpenAiSettings
 }) => {
+  const isOffline = useAiSettings().providerId === 'mock';
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [isFullscreen, setIsFullscreen] = useState(false);
+  const [isAlbumMenuOpen, setIsAlbumMenuOpen] = useState(false);
+
+  // Close the album picker when the selection is cleared
+  useEffect(() => {
+    if (selectedCount === 0) setIsAlbumMenuOpen(false);
+  }, [selectedCount]);
 
   useEffect(() => {
     const handleFullScreenChange = () => {
@@ -108,6 +138,19 @@ const Toolbar: React.FC<ToolbarProps> = ({
       </div>
 
       <div className="flex items-center gap-2 sm:gap-3">
+        <button
+          onClick={onOpenAiSettings}
+          className={`p-2 sm:px-3 rounded-lg transition-colors border flex items-center gap-2 text-sm font-medium ${
+            isOffline
+              ? 'bg-amber-900/30 hover:bg-amber-900/50 text-amber-200 border-amber-700/50'
+              : 'bg-gray-800 hover:bg-gray-700 text-gray-200 border-gray-700'
+          }`}
+          title={isOffline ? "AI Settings (offline mock active)" : "AI Settings"}
+        >
+          <CpuChipIcon className="w-5 h-5" />
+          {isOffline && <span className="hidden sm:inline">Offline</span>}
+        </button>
+
         {/* Full Screen Toggle */}
         <button
           onClick={toggleFullScreen}
@@ -123,6 +166,68 @@ const Toolbar: React.FC<ToolbarProps> = ({
 
         {activeTab === 'gallery' && (
           <>
+            {selectedCount > 0 && (
+              <button
+                onClick={onOpenAutoTag}
+                className="p-2 sm:px-4 sm:py-2 rounded-lg bg-gray-800 hover:bg-gray-700 text-gray-200 text-sm font-medium transition-colors border border-gray-700 flex items-center gap-2"
+                title="Suggest Tags with AI"
+              >
+                <TagIcon className="w-4 h-4" />
+                <span className="hidden sm:inline">Auto-tag</span>
+              </button>
+            )}
+
+            {selectedCount > 0 && (
+              <button
+                onClick={onGenerateFromSelected}
+                className="p-2 sm:px-4 sm:py-2 rounded-lg bg-gray-800 hover:bg-gray-700 text-gray-200 text-sm font-medium transition-colors border border-gray-700 flex items-center gap-2"
+                title="Generate with the Selected Images as References"
+              >
+                <SwatchIcon className="w-4 h-4" />
+                <span className="hidden sm:inline">Use as Reference</span>
+              </button>
+            )}
+
+            {selectedCount > 0 && activeAlbumId && (
+              <button
+                onClick={onRemoveSelectedFromAlbum}
+                className="p-2 sm:px-4 sm:py-2 rounded-lg bg-gray-800 hover:bg-gray-700 text-gray-200 text-sm font-medium transition-colors border border-gray-700 flex items-center gap-2"
+                title="Remove Selected from Album"
+              >
+                <FolderMinusIcon className="w-4 h-4" />
+                <span className="hidden sm:inline">Remove from Album</span>
+              </button>
+            )}
+
+            {selectedCount > 0 && albums.length > 0 && (
+              <div className="relative">
+                <button
+                  onClick={() => setIsAlbumMenuOpen(!isAlbumMenuOpen)}
+                  className="p-2 sm:px-4 sm:py-2 rounded-lg bg-gray-800 hover:bg-gray-700 text-gray-200 text-sm font-medium transition-colors border border-gray-700 flex items-center gap-2"
+                  title="Add Selected to Album"
+                >
+                  <FolderPlusIcon className="w-4 h-4" />
+                  <span className="hidden sm:inline">Add to Album</span>
+                </button>
+                {isAlbumMenuOpen && (
+                  <div className="absolute right-0 mt-2 w-48 bg-gray-900 border border-gray-700 rounded-lg shadow-2xl py-1 z-40 animate-fade-in">
+                    {albums.map(album => (
+                      <button
+                        key={album.id}
+                        onClick={() => {
+                          onAddSelectedToAlbum(album.id);
+                          setIsAlbumMenuOpen(false);
+                        }}
+                        className="w-full text-left px-3 py-2 text-sm text-gray-300 hover:bg-gray-800 hover:text-white truncate"
+                      >
+                        {album.name}
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+
             {selectedCount > 0 && (
               <button
                 onClick={onDeleteSelected}
@@ -152,6 +257,22 @@ const Toolbar: React.FC<ToolbarProps> = ({
               <WrenchScrewdriverIcon className="w-5 h-5" />
             </button>
 
+            <button
+              onClick={onOpenRename}
+              className="p-2 rounded-lg bg-gray-800 hover:bg-gray-700 text-gray-200 transition-colors border border-gray-700"
+              title="Rename GitHub Files"
+            >
+              <PencilSquareIcon className="w-5 h-5" />
+            </button>
+
+            <button
+              onClick={onOpenSync}
+              className="p-2 rounded-lg bg-gray-800 hover:bg-gray-700 text-gray-200 transition-colors border border-gray-700"
+              title="Sync with GitHub Folder"
+            >
+              <ArrowsRightLeftIcon className="w-5 h-5" />
+            </button>
+
             <button
               onClick={onOpenExport}
               className={`p-2 sm:px-4 sm:py-2 rounded-lg text-sm font-medium transition-colors border flex items-center gap-2
@@ -170,7 +291,8 @@ const Toolbar: React.FC<ToolbarProps> = ({
             <div className={`flex items-center gap-2 sm:gap-3 ${selectedCount > 0 ? 'opacity-50 hover:opacity-100 transition-opacity' : ''}`}>
                 <button
                 onClick={onOpenAddUrl}
-                className="p-2 sm:px-4 sm:py-2 rounded-lg bg-gray-800 hover:bg-gray-700 text-gray-200 text-sm font-medium transition-colors border border-gray-700 flex items-center gap-2"
+                disabled={isImporting}
+                className="p-2 sm:px-4 sm:py-2 rounded-lg bg-gray-800 hover:bg-gray-700 text-gray-200 text-sm font-medium transition-colors border border-gray-700 flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
                 >
                 <LinkIcon className="w-4 h-4" />
                 <span className="hidden sm:inline">Add URL</span>
@@ -178,10 +300,12 @@ const Toolbar: React.FC<ToolbarProps> = ({
 
                 <button
                 onClick={() => fileInputRef.current?.click()}
-                className="p-2 sm:px-4 sm:py-2 rounded-lg bg-gray-800 hover:bg-gray-700 text-gray-200 text-sm font-medium transition-colors border border-gray-700 flex items-center gap-2"
+                disabled={isImporting}
+                className="p-2 sm:px-4 sm:py-2 rounded-lg bg-gray-800 hover:bg-gray-700 text-gray-200 text-sm font-medium transition-colors border border-gray-700 flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+                title={isImporting ? "Checking imported images for duplicates..." : undefined}
                 >
-                <ArrowUpTrayIcon className="w-4 h-4" />
-                <span className="hidden sm:inline">Upload</span>
+                {isImporting ? <ArrowPathIcon className="w-4 h-4 animate-spin" /> : <ArrowUpTrayIcon className="w-4 h-4" />}
+                <span className="hidden sm:inline">{isImporting ? 'Importing...' : 'Upload'}</span>
                 </button>
 
                 <button
@@ -7,9 +7,14 @@ import {
   ArrowDownTrayIcon, 
   ArrowUpTrayIcon, 
   BugAntIcon,
-  SparklesIcon
+  SparklesIcon,
+  BookOpenIcon,
+  BookmarkIcon
 } from '@heroicons/react/24/outline';
 import LoadingSpinner from '../LoadingSpinner';
+import PromptLibraryPanel from '../PromptLibraryPanel';
+import SavePromptForm from '../SavePromptForm';
+import { SavedPrompt } from '../../types';
 
 interface Preset {
   name: string;
@@ -38,6 +43,11 @@ const VisualizerTab: React.FC<VisualizerTabProps> = ({ initialPrompt }) => {
   const [logs, setLogs] = useState<{type: 'error' | 'info', msg: string}[]>([]);
   const [isGenerating, setIsGenerating] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Prompt library
+  const [isLibraryOpen, setIsLibraryOpen] = useState(false);
+  const [isSavingPrompt, setIsSavingPrompt] = useState(false);
+  const [libraryPrompt, setLibraryPrompt] = useState<SavedPrompt | null>(null);
   
   // Track if we have already auto-run the initial prompt to prevent loops
   const hasAutoRunRef = useRef(false);
@@ -143,6 +153,12 @@ const VisualizerTab: React.FC<VisualizerTabProps> = ({ initialPrompt }) => {
     if (fileInputRef.current) fileInputRef.current.value = '';
   };
 
+  const handleUsePrompt = (saved: SavedPrompt) => {
+    setPrompt(saved.text);
+    setLibraryPrompt(saved);
+    setIsLibraryOpen(false);
+  };
+
   return (
     <div className="flex flex-col md:flex-row h-[calc(100vh-64px)] bg-gray-950">
       {/* Sidebar Controls */}
@@ -150,9 +166,44 @@ const VisualizerTab: React.FC<VisualizerTabProps> = ({ initialPrompt }) => {
         <h2 className="text-white font-semibold flex items-center gap-2 mb-4">
           <CodeBracketIcon className="w-5 h-5 text-purple-500" />
           Scene Prompt
+          <span className="ml-auto flex gap-3">
+            <button
+              onClick={() => setIsSavingPrompt(true)}
+              disabled={!prompt.trim() || isLibraryOpen}
+              className="text-gray-400 hover:text-white transition-colors disabled:opacity-50"
+              title="Save prompt to library"
+            >
+              <BookmarkIcon className="w-4 h-4" />
+            </button>
+            <button
+              onClick={() => setIsLibraryOpen(!isLibraryOpen)}
+              className={`transition-colors ${isLibraryOpen ? 'text-purple-400' : 'text-gray-400 hover:text-white'}`}
+              title="Prompt library"
+            >
+              <BookOpenIcon className="w-4 h-4" />
+            </button>
+          </span>
         </h2>
 
-        <form onSubmit={handleGenerate} className="flex flex-col gap-3 mb-6">
+        {isLibraryOpen && (
+          <div className="flex-1 min-h-0 overflow-y-auto mb-4">
+            <PromptLibraryPanel target="scene" onUse={handleUsePrompt} onBack={() => setIsLibraryOpen(false)} />
+          </div>
+        )}
+
+        {isSavingPrompt && !isLibraryOpen && (
+          <div className="mb-3">
+            <SavePromptForm
+              text={prompt}
+              target="scene"
+              existing={libraryPrompt?.text === prompt ? libraryPrompt : null}
+              onSaved={(saved) => { setLibraryPrompt(saved); setIsSavingPrompt(false); }}
+              onCancel={() => setIsSavingPrompt(false)}
+            />
+          </div>
+        )}
+
+        <form onSubmit={handleGenerate} className={`flex-col gap-3 mb-6 ${isLibraryOpen ? 'hidden' : 'flex'}`}>
           <textarea
             value={prompt}
             onChange={(e) => setPrompt(e.target.value)}
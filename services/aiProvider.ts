@@ -0,0 +1,72 @@
+import { ImageAspectRatio, ImageSize, ReferenceRole } from '../types';
+
+// --- AI providers ---
+//
+// Every model call goes through a provider. Gemini is the real one; the mock
+// answers offline with deterministic output so the UI works without network.
+// Prompt wording and option checks stay in geminiService, shared by both.
+
+export type AiProviderId = 'gemini' | 'mock';
+
+// What a model is picked for; 'image' and 'proImage' back Standard and Pro (HQ)
+export type AiTask = 'analysis' | 'image' | 'proImage' | 'speech' | 'scene' | 'embedding';
+
+export type EmbeddingTask = 'RETRIEVAL_DOCUMENT' | 'RETRIEVAL_QUERY' | 'SEMANTIC_SIMILARITY';
+
+export const ASPECT_RATIOS: ImageAspectRatio[] = ['1:1', '2:3', '3:2', '3:4', '4:3', '4:5', '5:4', '9:16', '16:9', '21:9'];
+
+export interface ImageModelCapabilities {
+  aspectRatios: ImageAspectRatio[];
+  // Empty when the model only renders at one size
+  sizes: ImageSize[];
+  defaultSize?: ImageSize;
+  // Most reference images one request may carry
+  maxReferences: number;
+}
+
+export interface InlineImage {
+  base64: string;
+  mimeType: string;
+}
+
+export interface ImageReference extends InlineImage {
+  role: ReferenceRole;
+}
+
+export interface ImageRequest {
+  model: string;
+  prompt: string;
+  aspectRatio: ImageAspectRatio;
+  imageSize?: ImageSize;
+  // Sent before the prompt, in order
+  references: ImageReference[];
+  signal?: AbortSignal;
+}
+
+export interface EditRequest {
+  model: string;
+  source: InlineImage;
+  mask?: InlineImage;
+  instruction: string;
+}
+
+export interface AiProvider {
+  id: AiProviderId;
+  name: string;
+  description: string;
+  // Gemini calls need a key; the aistudio key picker is only shown for these
+  requiresApiKey: boolean;
+  // Choices per task, default first
+  models: Record<AiTask, string[]>;
+  imageModels: Record<string, ImageModelCapabilities>;
+
+  analyzeImage(model: string, image: InlineImage, prompt: string): Promise<string>;
+  // Raw tags; callers trim and cap them
+  suggestTags(model: string, image: InlineImage, prompt: string): Promise<string[]>;
+  generateImage(request: ImageRequest): Promise<InlineImage>;
+  editImage(request: EditRequest): Promise<InlineImage>;
+  // Base64 of 16-bit mono PCM at 24kHz
+  generateSpeech(model: string, text: string): Promise<string>;
+  generateSceneCode(model: string, prompt: string, systemPrompt: string): Promise<string>;
+  embedTexts(model: string, texts: string[], taskType: EmbeddingTask): Promise<number[][]>;
+}
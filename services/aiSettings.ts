@@ -0,0 +1,60 @@
+import { AiProvider, AiProviderId, AiTask } from './aiProvider';
+import { geminiProvider } from './geminiProvider';
+import { mockProvider } from './mockProvider';
+
+// --- Provider and model selection ---
+
+export const AI_PROVIDERS: AiProvider[] = [geminiProvider, mockProvider];
+
+export interface AiSettings {
+  providerId: AiProviderId;
+  // Chosen model per task, kept per provider so switching back restores them
+  models: Partial<Record<AiProviderId, Partial<Record<AiTask, string>>>>;
+}
+
+const STORAGE_KEY = 'luminaview.aiSettings';
+const DEFAULT_SETTINGS: AiSettings = { providerId: 'gemini', models: {} };
+
+const loadSettings = (): AiSettings => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null');
+    if (!parsed || !AI_PROVIDERS.some(provider => provider.id === parsed.providerId)) return DEFAULT_SETTINGS;
+    return { providerId: parsed.providerId, models: parsed.models && typeof parsed.models === 'object' ? parsed.models : {} };
+  } catch (error) {
+    return DEFAULT_SETTINGS;
+  }
+};
+
+let settings = loadSettings();
+const listeners = new Set<() => void>();
+
+// Returns an unsubscribe function
+export const subscribeAiSettings = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+export const getAiSettings = (): AiSettings => settings;
+
+export const saveAiSettings = (next: AiSettings) => {
+  settings = next;
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+  } catch (error) {
+    console.warn("Failed to save AI settings:", error);
+  }
+  listeners.forEach(listener => listener());
+};
+
+export const getProvider = (id: AiProviderId): AiProvider => {
+  return AI_PROVIDERS.find(provider => provider.id === id) || geminiProvider;
+};
+
+export const getActiveProvider = (): AiProvider => getProvider(settings.providerId);
+
+// Chosen model for the task, or the provider's default when the choice is
+// missing or no longer offered
+export const getModel = (task: AiTask, provider: AiProvider = getActiveProvider()): string => {
+  const chosen = settings.models[provider.id]?.[task];
+  return chosen && provider.models[task].includes(chosen) ? chosen : provider.models[task][0];
+};
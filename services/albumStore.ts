@@ -0,0 +1,40 @@
+import { Album } from '../types';
+import { openDb, requestToPromise, transactionDone, ALBUMS_STORE } from './db';
+
+export const DEFAULT_EXPORT_FOLDER = 'lumina-exports';
+
+export const loadAlbums = async (): Promise<Album[]> => {
+  const db = await openDb();
+  const tx = db.transaction(ALBUMS_STORE, 'readonly');
+  const albums = await requestToPromise(tx.objectStore(ALBUMS_STORE).getAll() as IDBRequest<Album[]>);
+  return albums.sort((a, b) => a.createdAt - b.createdAt);
+};
+
+// Albums are small, so the whole list is rewritten on every change
+export const saveAlbums = async (albums: Album[]): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(ALBUMS_STORE, 'readwrite');
+  const store = tx.objectStore(ALBUMS_STORE);
+  store.clear();
+  albums.forEach(album => store.put(album));
+  await transactionDone(tx);
+};
+
+// --- Helpers ---
+
+// Turn an album name into a GitHub-friendly folder path
+export const albumNameToFolder = (name: string): string => {
+  const slug = name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+  return slug ? `${DEFAULT_EXPORT_FOLDER}/${slug}` : DEFAULT_EXPORT_FOLDER;
+};
+
+export const addToAlbum = (album: Album, ids: Iterable<string>): Album => {
+  const imageIds = new Set(album.imageIds);
+  for (const id of ids) imageIds.add(id);
+  return { ...album, imageIds: Array.from(imageIds) };
+};
+
+export const removeFromAlbum = (album: Album, ids: Iterable<string>): Album => {
+  const toRemove = new Set(ids);
+  return { ...album, imageIds: album.imageIds.filter(id => !toRemove.has(id)) };
+};
@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import { CleanupRules, compileNamePattern, DEFAULT_CLEANUP_RULES, evaluateRules, RuleFile } from './cleanupRules';
+
+const file = (path: string, fields: Partial<RuleFile> = {}): RuleFile => ({
+  path,
+  name: path.split('/').pop()!,
+  size: 1000,
+  ...fields,
+});
+
+const rules = (changes: Partial<CleanupRules>): CleanupRules => ({ ...DEFAULT_CLEANUP_RULES, orphanedSidecars: false, ...changes });
+
+const ruleIds = (results: Map<string, { rule: string }[]>) =>
+  Object.fromEntries(Array.from(results, ([path, matches]) => [path, matches.map(match => match.rule)]));
+
+describe('compileNamePattern', () => {
+  it('treats an empty pattern as no rule', () => {
+    expect(compileNamePattern('  ')).toBeNull();
+  });
+
+  it('matches globs against the whole name, ignoring case', () => {
+    const pattern = compileNamePattern('IMG_????.jpg')!;
+    expect(pattern.test('img_1234.JPG')).toBe(true);
+    expect(pattern.test('IMG_12345.jpg')).toBe(false);
+    expect(pattern.test('old IMG_1234.jpg')).toBe(false);
+
+    const copies = compileNamePattern('*copy*')!;
+    expect(copies.test('sunset copy.png')).toBe(true);
+    expect(copies.test('sunset.png')).toBe(false);
+  });
+
+  it('escapes regex characters in globs', () => {
+    const pattern = compileNamePattern('photo (1).png')!;
+    expect(pattern.test('photo (1).png')).toBe(true);
+    expect(pattern.test('photo 1xpng')).toBe(false);
+  });
+
+  it('accepts /regex/ with flags, and throws on an invalid one', () => {
+    expect(compileNamePattern('/^draft-/i')!.test('Draft-1.png')).toBe(true);
+    expect(compileNamePattern('/^draft-/')!.test('Draft-1.png')).toBe(false);
+    expect(() => compileNamePattern('/(unclosed/')).toThrow();
+  });
+
+  it('drops the g and y flags so repeated tests give the same answer', () => {
+    const pattern = compileNamePattern('/copy/giy')!;
+    expect(pattern.flags).toBe('i');
+    expect([pattern.test('a copy.png'), pattern.test('b copy.png'), pattern.test('c copy.png')]).toEqual([true, true, true]);
+  });
+});
+
+describe('evaluateRules', () => {
+  it('flags images below either minimum dimension', () => {
+    const files = [
+      file('a.png', { width: 100, height: 800 }),
+      file('b.png', { width: 800, height: 800 }),
+      file('c.png'), // dimensions not known
+    ];
+    const results = evaluateRules(files, rules({ minWidth: 640, minHeight: 480 }));
+
+    expect(ruleIds(results)).toEqual({ 'a.png': ['min-resolution'] });
+    expect(results.get('a.png')![0].reason).toBe('Below 640×480 (100×800)');
+  });
+
+  it('flags files over the size limit', () => {
+    const files = [file('big.png', { size: 2 * 1024 * 1024 + 1 }), file('ok.png', { size: 2 * 1024 * 1024 })];
+    expect(ruleIds(evaluateRules(files, rules({ maxSizeMb: 2 })))).toEqual({ 'big.png': ['max-size'] });
+  });
+
+  it('judges sidecars by the orphan rule only', () => {
+    const files = [
+      file('pics/a.png'),
+      file('pics/a.png.json'),
+      file('pics/gone.jpg.json'),
+      file('pics/notes.txt'),
+      file('pics/data.json'),
+    ];
+    const results = evaluateRules(files, rules({ nonImages: true, orphanedSidecars: true }));
+
+    expect(ruleIds(results)).toEqual({
+      'pics/gone.jpg.json': ['orphaned-sidecar'],
+      'pics/notes.txt': ['non-image'],
+      'pics/data.json': ['non-image'],
+    });
+  });
+
+  it('lists every rule a file breaks, and matches patterns on the name only', () => {
+    const files = [file('backups/copy.tmp', { size: 5 * 1024 * 1024 }), file('copy/a.png')];
+    const results = evaluateRules(files, rules({ maxSizeMb: 1, nonImages: true, namePattern: '*copy*' }));
+
+    expect(ruleIds(results)).toEqual({ 'backups/copy.tmp': ['max-size', 'non-image', 'name-pattern'] });
+  });
+
+  it('flags every matching file with a global regex', () => {
+    const files = ['a copy.png', 'b copy.png', 'c copy.png'].map(name => file(name));
+    expect(evaluateRules(files, rules({ namePattern: '/copy/g' })).size).toBe(3);
+  });
+});
@@ -0,0 +1,147 @@
+import { isImageFile } from './githubService';
+
+// --- Rules-based repo cleanup ---
+//
+// Rules flag files for removal regardless of duplicates. A dry run turns the
+// current selection into a JSON or CSV report before anything is committed.
+
+export interface CleanupRules {
+  // 0 disables the check. Images narrower OR shorter than this are flagged.
+  minWidth: number;
+  minHeight: number;
+  // 0 disables the check
+  maxSizeMb: number;
+  nonImages: boolean;
+  // `<image>.json` metadata whose image is gone
+  orphanedSidecars: boolean;
+  // Glob on the file name (`*copy*`, `IMG_????.jpg`) or a regex written as /.../
+  namePattern: string;
+}
+
+export const DEFAULT_CLEANUP_RULES: CleanupRules = {
+  minWidth: 0,
+  minHeight: 0,
+  maxSizeMb: 0,
+  nonImages: false,
+  orphanedSidecars: true,
+  namePattern: '',
+};
+
+export type CleanupRuleId = 'min-resolution' | 'max-size' | 'non-image' | 'orphaned-sidecar' | 'name-pattern';
+
+export const RULE_LABELS: Record<CleanupRuleId, string> = {
+  'min-resolution': 'Low resolution',
+  'max-size': 'Too large',
+  'non-image': 'Not an image',
+  'orphaned-sidecar': 'Orphaned sidecars',
+  'name-pattern': 'Name pattern',
+};
+
+export interface RuleMatch {
+  rule: CleanupRuleId;
+  reason: string;
+}
+
+export interface RuleFile {
+  path: string;
+  name: string;
+  size: number;
+  // Only known when the resolution rule is on
+  width?: number;
+  height?: number;
+}
+
+// The resolution rule is the only one that needs the images downloaded
+export const needsDimensions = (rules: CleanupRules) => rules.minWidth > 0 || rules.minHeight > 0;
+
+export const isRulesActive = (rules: CleanupRules) =>
+  needsDimensions(rules) || rules.maxSizeMb > 0 || rules.nonImages || rules.orphanedSidecars || !!rules.namePattern.trim();
+
+const SIDECAR_SUFFIX = '.json';
+
+const isSidecarName = (name: string) => name.endsWith(SIDECAR_SUFFIX) && isImageFile(name.slice(0, -SIDECAR_SUFFIX.length));
+
+// Throws on an invalid /regex/ so the form can show the error. The g and y
+// flags are dropped: they make test() stateful, so matches would alternate.
+export const compileNamePattern = (pattern: string): RegExp | null => {
+  const trimmed = pattern.trim();
+  if (!trimmed) return null;
+  const regex = trimmed.match(/^\/(.+)\/([a-z]*)$/);
+  if (regex) return new RegExp(regex[1], regex[2].replace(/[gy]/g, ''));
+  const escaped = trimmed.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.');
+  return new RegExp(`^${escaped}$`, 'i');
+};
+
+// The rules each file breaks, in RULE_LABELS order; files breaking none are left out
+export const evaluateRules = (files: RuleFile[], rules: CleanupRules): Map<string, RuleMatch[]> => {
+  const paths = new Set(files.map(file => file.path));
+  const pattern = compileNamePattern(rules.namePattern);
+  const results = new Map<string, RuleMatch[]>();
+
+  files.forEach(file => {
+    const reasons: RuleMatch[] = [];
+    const isImage = isImageFile(file.name);
+    const isSidecar = isSidecarName(file.name);
+
+    if (isImage && needsDimensions(rules) && file.width !== undefined && file.height !== undefined &&
+        (file.width < rules.minWidth || file.height < rules.minHeight)) {
+      reasons.push({ rule: 'min-resolution', reason: `Below ${rules.minWidth}×${rules.minHeight} (${file.width}×${file.height})` });
+    }
+    if (rules.maxSizeMb > 0 && file.size > rules.maxSizeMb * 1024 * 1024) {
+      reasons.push({ rule: 'max-size', reason: `Larger than ${rules.maxSizeMb} MB` });
+    }
+    // Sidecars are judged by the orphan rule, not as stray files
+    if (rules.nonImages && !isImage && !isSidecar) {
+      reasons.push({ rule: 'non-image', reason: 'Not an image' });
+    }
+    if (rules.orphanedSidecars && isSidecar && !paths.has(file.path.slice(0, -SIDECAR_SUFFIX.length))) {
+      reasons.push({ rule: 'orphaned-sidecar', reason: 'Sidecar without image' });
+    }
+    if (pattern && pattern.test(file.name)) {
+      reasons.push({ rule: 'name-pattern', reason: `Name matches ${rules.namePattern.trim()}` });
+    }
+
+    if (reasons.length > 0) results.set(file.path, reasons);
+  });
+  return results;
+};
+
+// --- Dry-run report ---
+
+export interface CleanupReportRow {
+  path: string;
+  sha: string;
+  size: number;
+  reasons: string[];
+}
+
+export type ReportFormat = 'json' | 'csv';
+
+const csvCell = (value: string | number) => {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const formatReport = (rows: CleanupReportRow[], format: ReportFormat, meta: { repo: string; action: string }): string => {
+  if (format === 'json') {
+    return JSON.stringify({
+      repo: meta.repo,
+      action: meta.action,
+      generatedAt: new Date().toISOString(),
+      totalBytes: rows.reduce((sum, row) => sum + row.size, 0),
+      files: rows,
+    }, null, 2);
+  }
+  const lines = rows.map(row => [row.path, row.size, row.sha, row.reasons.join('; ')].map(csvCell).join(','));
+  return ['path,size,sha,reasons', ...lines].join('\n');
+};
+
+export const downloadReport = (rows: CleanupReportRow[], format: ReportFormat, meta: { repo: string; action: string }) => {
+  const blob = new Blob([formatReport(rows, format, meta)], { type: format === 'json' ? 'application/json' : 'text/csv' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `lumina-cleanup-${meta.repo.replace('/', '-')}-${Date.now()}.${format}`;
+  a.click();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,128 @@
+// --- GitHub credentials ---
+//
+// One token for every GitHub call. It lives in memory for the session and is
+// only written to disk when the user chooses to, encrypted with a passphrase:
+// PBKDF2 derives an AES-GCM key, and only salt, iv and ciphertext are stored.
+
+const STORAGE_KEY = 'luminaview.githubToken';
+const PBKDF2_ITERATIONS = 250000;
+
+interface StoredToken {
+  salt: string;
+  iv: string;
+  ciphertext: string;
+}
+
+export type CredentialsStatus = 'none' | 'locked' | 'ready';
+
+let token: string | null = null;
+const listeners = new Set<() => void>();
+
+const notify = () => listeners.forEach(listener => listener());
+
+// Returns an unsubscribe function
+export const subscribeCredentials = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+export const getGitHubToken = (): string | null => token;
+
+export const requireGitHubToken = (): string => {
+  if (!token) throw new Error('A GitHub token is required. Add one in the GitHub credentials panel.');
+  return token;
+};
+
+export const hasStoredToken = (): boolean => {
+  try {
+    return localStorage.getItem(STORAGE_KEY) !== null;
+  } catch (error) {
+    // Storage can be blocked (e.g. private browsing)
+    return false;
+  }
+};
+
+export const getCredentialsStatus = (): CredentialsStatus => {
+  if (token) return 'ready';
+  return hasStoredToken() ? 'locked' : 'none';
+};
+
+// Last characters only, for display
+export const maskToken = (value: string): string => `••••${value.slice(-4)}`;
+
+// --- Encryption ---
+
+const toBase64 = (bytes: Uint8Array): string => btoa(String.fromCharCode(...bytes));
+
+const fromBase64 = (base64: string): Uint8Array => Uint8Array.from(atob(base64), c => c.charCodeAt(0));
+
+const deriveKey = async (passphrase: string, salt: Uint8Array): Promise<CryptoKey> => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+const encryptToken = async (value: string, passphrase: string): Promise<StoredToken> => {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const key = await deriveKey(passphrase, salt);
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(value));
+  return { salt: toBase64(salt), iv: toBase64(iv), ciphertext: toBase64(new Uint8Array(ciphertext)) };
+};
+
+const decryptToken = async (stored: StoredToken, passphrase: string): Promise<string> => {
+  const key = await deriveKey(passphrase, fromBase64(stored.salt));
+  const plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(stored.iv) }, key, fromBase64(stored.ciphertext));
+  return new TextDecoder().decode(plaintext);
+};
+
+// --- Public API ---
+
+// Use `value` for this session; with a passphrase it is also saved encrypted.
+// Without one, any saved token is removed so a later session can't unlock a stale one.
+export const setGitHubToken = async (value: string, passphrase?: string): Promise<void> => {
+  const trimmed = value.trim();
+  if (!trimmed) throw new Error('Token cannot be empty');
+
+  if (passphrase) {
+    const stored = await encryptToken(trimmed, passphrase);
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+  } else {
+    try {
+      localStorage.removeItem(STORAGE_KEY);
+    } catch (error) {
+      console.warn("Failed to clear saved token:", error);
+    }
+  }
+  token = trimmed;
+  notify();
+};
+
+export const unlockStoredToken = async (passphrase: string): Promise<void> => {
+  const raw = localStorage.getItem(STORAGE_KEY);
+  if (!raw) throw new Error('No saved token');
+
+  try {
+    token = await decryptToken(JSON.parse(raw), passphrase);
+  } catch (error) {
+    // AES-GCM fails authentication on a wrong key
+    throw new Error('Wrong passphrase');
+  }
+  notify();
+};
+
+// Drops the session token and any saved copy
+export const forgetGitHubToken = () => {
+  token = null;
+  try {
+    localStorage.removeItem(STORAGE_KEY);
+  } catch (error) {
+    console.warn("Failed to clear saved token:", error);
+  }
+  notify();
+};
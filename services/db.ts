@@ -0,0 +1,95 @@
+// --- Shared IndexedDB connection for the local stores ---
+
+const DB_NAME = 'luminaview';
+const DB_VERSION = 7;
+
+export const IMAGES_STORE = 'images';
+export const BLOBS_STORE = 'blobs';
+export const ALBUMS_STORE = 'albums';
+export const SYNC_STATE_STORE = 'syncState';
+export const EXPORT_JOBS_STORE = 'exportJobs';
+export const CLEANUP_JOURNAL_STORE = 'cleanupJournal';
+export const STYLE_PRESETS_STORE = 'stylePresets';
+export const PROMPTS_STORE = 'prompts';
+
+// Database structure migrations, indexed by the version they upgrade to
+const DB_MIGRATIONS: Record<number, (db: IDBDatabase) => void> = {
+  1: (db) => {
+    const images = db.createObjectStore(IMAGES_STORE, { keyPath: 'id' });
+    images.createIndex('createdAt', 'createdAt');
+    db.createObjectStore(BLOBS_STORE, { keyPath: 'id' });
+  },
+  2: (db) => {
+    db.createObjectStore(ALBUMS_STORE, { keyPath: 'id' });
+  },
+  3: (db) => {
+    db.createObjectStore(SYNC_STATE_STORE, { keyPath: 'key' });
+  },
+  4: (db) => {
+    db.createObjectStore(EXPORT_JOBS_STORE, { keyPath: 'key' });
+  },
+  5: (db) => {
+    db.createObjectStore(CLEANUP_JOURNAL_STORE, { keyPath: 'id' });
+  },
+  6: (db) => {
+    db.createObjectStore(STYLE_PRESETS_STORE, { keyPath: 'id' });
+  },
+  7: (db) => {
+    db.createObjectStore(PROMPTS_STORE, { keyPath: 'id' });
+  },
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openDb = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available in this browser'));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      for (let v = event.oldVersion + 1; v <= DB_VERSION; v++) {
+        DB_MIGRATIONS[v]?.(db);
+      }
+    };
+    request.onsuccess = () => {
+      const db = request.result;
+      // Another tab wants to upgrade: step aside, and open again on the next call
+      db.onversionchange = () => {
+        db.close();
+        dbPromise = null;
+      };
+      db.onclose = () => { dbPromise = null; };
+      resolve(db);
+    };
+    request.onerror = () => reject(request.error);
+    // Tabs with this handler close their connection, after which the upgrade
+    // continues; older tabs without it hold it until they are closed
+    request.onblocked = () => console.warn('Database upgrade waiting for another open tab to close');
+  });
+
+  // Allow a retry on the next call if opening failed
+  dbPromise.catch(() => { dbPromise = null; });
+  return dbPromise;
+};
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const transactionDone = (tx: IDBTransaction): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error('Transaction aborted'));
+  });
+};
@@ -0,0 +1,50 @@
+import { ExportJob, ExportMode, SyncTarget } from '../types';
+import { openDb, requestToPromise, transactionDone, EXPORT_JOBS_STORE } from './db';
+import { getSyncKey } from './syncEngine';
+
+export const createExportJob = (target: SyncTarget, mode: ExportMode, imageIds: string[]): ExportJob => ({
+  key: getSyncKey(target),
+  target,
+  mode,
+  imageIds,
+  completedIds: [],
+  blobShas: {},
+  startedAt: Date.now(),
+  updatedAt: Date.now(),
+});
+
+// A job can only be resumed for the exact same selection and mode
+export const canResumeJob = (job: ExportJob, mode: ExportMode, imageIds: string[]): boolean => {
+  if (job.mode !== mode || job.imageIds.length !== imageIds.length) return false;
+  const ids = new Set(job.imageIds);
+  return imageIds.every(id => ids.has(id));
+};
+
+// Number of images the job has finished, for "x of y" display
+export const getJobDoneCount = (job: ExportJob): number => {
+  if (job.mode === 'one-by-one') return job.completedIds.length;
+  return Object.keys(job.blobShas).filter(path => !path.endsWith('.json')).length;
+};
+
+// --- Persistence ---
+
+export const loadExportJob = async (target: SyncTarget): Promise<ExportJob | null> => {
+  const db = await openDb();
+  const tx = db.transaction(EXPORT_JOBS_STORE, 'readonly');
+  const job = await requestToPromise(tx.objectStore(EXPORT_JOBS_STORE).get(getSyncKey(target)) as IDBRequest<ExportJob | undefined>);
+  return job || null;
+};
+
+export const saveExportJob = async (job: ExportJob): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(EXPORT_JOBS_STORE, 'readwrite');
+  tx.objectStore(EXPORT_JOBS_STORE).put({ ...job, updatedAt: Date.now() });
+  await transactionDone(tx);
+};
+
+export const clearExportJob = async (target: SyncTarget): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(EXPORT_JOBS_STORE, 'readwrite');
+  tx.objectStore(EXPORT_JOBS_STORE).delete(getSyncKey(target));
+  await transactionDone(tx);
+};
@@ -0,0 +1,170 @@
+import { ImageItem, ImageSource, GalleryQuery, GallerySortKey } from '../types';
+
+export const DEFAULT_GALLERY_QUERY: GalleryQuery = {
+  text: '',
+  sources: [],
+  mimeTypes: [],
+  tags: [],
+  folder: '',
+  sortBy: 'createdAt',
+  sortDir: 'desc',
+};
+
+const IMAGE_SOURCES: ImageSource[] = ['upload', 'url', 'generated'];
+const SORT_KEYS: GallerySortKey[] = ['createdAt', 'title', 'size'];
+
+const EXTENSION_MIME_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  bmp: 'image/bmp',
+  svg: 'image/svg+xml',
+};
+
+// --- Helpers ---
+
+export const getMimeTypeFromFileName = (fileName: string): string | null => {
+  const ext = fileName.split('?')[0].split('.').pop()?.toLowerCase();
+  return (ext && EXTENSION_MIME_TYPES[ext]) || null;
+};
+
+// Best-effort mime type: stored value, data URL prefix, then file extension
+export const getImageMimeType = (image: ImageItem): string | null => {
+  if (image.mimeType) return image.mimeType;
+
+  const dataMatch = image.url.match(/^data:([^;,]+)/);
+  if (dataMatch) return dataMatch[1];
+
+  return getMimeTypeFromFileName(image.url);
+};
+
+// Size in bytes, derived from the base64 payload when not recorded
+export const getImageSize = (image: ImageItem): number | null => {
+  if (image.fileSize !== undefined) return image.fileSize;
+  if (image.base64Data) {
+    const padding = (image.base64Data.match(/=+$/)?.[0].length) || 0;
+    return Math.floor(image.base64Data.length * 3 / 4) - padding;
+  }
+  return null;
+};
+
+export const isQueryActive = (query: GalleryQuery): boolean => {
+  return !!query.text.trim() || query.sources.length > 0 || query.mimeTypes.length > 0 || query.tags.length > 0 || !!query.folder;
+};
+
+export const isInFolder = (image: ImageItem, folder: string): boolean => {
+  if (!folder) return true;
+  const path = image.folderPath || '';
+  return path === folder || path.startsWith(`${folder}/`);
+};
+
+// Direct subfolders of `folder` that contain images, with image counts (including nested)
+export const collectSubfolders = (images: ImageItem[], folder: string): { name: string; path: string; count: number }[] => {
+  const counts = new Map<string, number>();
+  const prefix = folder ? `${folder}/` : '';
+
+  images.forEach(img => {
+    const path = img.folderPath || '';
+    if (!path.startsWith(prefix) || path === folder) return;
+    const name = path.slice(prefix.length).split('/')[0];
+    counts.set(name, (counts.get(name) || 0) + 1);
+  });
+
+  return Array.from(counts.entries())
+    .map(([name, count]) => ({ name, path: `${prefix}${name}`, count }))
+    .sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }));
+};
+
+// --- Filtering & Sorting ---
+
+const matchesText = (image: ImageItem, terms: string[]): boolean => {
+  if (terms.length === 0) return true;
+  const haystack = [image.title, image.description, image.analysis, ...(image.tags || [])]
+    .filter(Boolean)
+    .join(' ')
+    .toLowerCase();
+  return terms.every(term => haystack.includes(term));
+};
+
+const compareImages = (a: ImageItem, b: ImageItem, query: GalleryQuery): number => {
+  const direction = query.sortDir === 'asc' ? 1 : -1;
+
+  switch (query.sortBy) {
+    case 'title':
+      return direction * a.title.localeCompare(b.title, undefined, { numeric: true, sensitivity: 'base' });
+    case 'size': {
+      // Unknown sizes always sort last, regardless of direction
+      const sizeA = getImageSize(a);
+      const sizeB = getImageSize(b);
+      if (sizeA === null || sizeB === null) {
+        return (sizeA === null ? 1 : 0) - (sizeB === null ? 1 : 0);
+      }
+      return direction * (sizeA - sizeB);
+    }
+    case 'createdAt':
+    default:
+      return direction * (a.createdAt - b.createdAt);
+  }
+};
+
+export const applyGalleryQuery = (images: ImageItem[], query: GalleryQuery): ImageItem[] => {
+  const terms = query.text.toLowerCase().split(/\s+/).filter(Boolean);
+  const sources = new Set(query.sources);
+  const mimeTypes = new Set(query.mimeTypes);
+
+  return images
+    .filter(image => {
+      if (sources.size > 0 && !sources.has(image.source)) return false;
+      if (mimeTypes.size > 0 && !mimeTypes.has(getImageMimeType(image) || 'unknown')) return false;
+      // Tag facets are AND-ed: an image must carry every selected tag
+      if (query.tags.length > 0 && !query.tags.every(tag => image.tags?.includes(tag))) return false;
+      if (!isInFolder(image, query.folder)) return false;
+      return matchesText(image, terms);
+    })
+    .sort((a, b) => compareImages(a, b, query));
+};
+
+// Distinct mime types present in the gallery, for the facet list
+export const collectMimeTypes = (images: ImageItem[]): string[] => {
+  const types = new Set(images.map(img => getImageMimeType(img) || 'unknown'));
+  return Array.from(types).sort();
+};
+
+// --- URL (de)serialization ---
+
+export const queryFromSearchParams = (params: URLSearchParams): GalleryQuery => {
+  const list = (key: string) => (params.get(key) || '').split(',').filter(Boolean);
+  const sortBy = params.get('sort') as GallerySortKey;
+  const sortDir = params.get('dir');
+
+  return {
+    text: params.get('q') || '',
+    sources: list('source').filter((s): s is ImageSource => IMAGE_SOURCES.includes(s as ImageSource)),
+    mimeTypes: list('type'),
+    tags: list('tag'),
+    folder: params.get('folder') || '',
+    sortBy: SORT_KEYS.includes(sortBy) ? sortBy : DEFAULT_GALLERY_QUERY.sortBy,
+    sortDir: sortDir === 'asc' || sortDir === 'desc' ? sortDir : DEFAULT_GALLERY_QUERY.sortDir,
+  };
+};
+
+// Writes only non-default values so shared links stay short.
+// Unrelated parameters already in `params` are preserved.
+export const queryToSearchParams = (query: GalleryQuery, params: URLSearchParams = new URLSearchParams()): URLSearchParams => {
+  const next = new URLSearchParams(params);
+  const set = (key: string, value: string, defaultValue: string = '') => {
+    if (value && value !== defaultValue) next.set(key, value);
+    else next.delete(key);
+  };
+
+  set('q', query.text.trim());
+  set('source', query.sources.join(','));
+  set('type', query.mimeTypes.join(','));
+  set('tag', query.tags.join(','));
+  set('folder', query.folder);
+  set('sort', query.sortBy, DEFAULT_GALLERY_QUERY.sortBy);
+  set('dir', query.sortDir, DEFAULT_GALLERY_QUERY.sortDir);
+  return next;
+};
@@ -0,0 +1,193 @@
+import { GoogleGenAI, GenerateContentResponse, Modality, Type } from "@google/genai";
+import { AiProvider, ASPECT_RATIOS, InlineImage } from './aiProvider';
+
+// --- Gemini adapter ---
+
+// Minimal surface of the SDK used by this adapter, so a local fake can stand in for tests
+export interface GeminiClient {
+  models: Pick<GoogleGenAI['models'], 'generateContent' | 'embedContent'>;
+}
+
+let clientOverride: GeminiClient | null = null;
+
+// Inject a client (e.g. a fake in tests). Pass null to go back to the real SDK.
+export const setGeminiClient = (client: GeminiClient | null) => {
+  clientOverride = client;
+};
+
+const getClient = (): GeminiClient => {
+  if (clientOverride) return clientOverride;
+
+  const apiKey = process.env.API_KEY;
+  if (!apiKey) throw new Error("API Key not found");
+
+  // Re-initialize to ensure we use the latest key
+  return new GoogleGenAI({ apiKey });
+};
+
+const EMBEDDING_BATCH_SIZE = 100;
+
+const extractImage = (response: GenerateContentResponse): InlineImage => {
+  for (const part of response.candidates?.[0]?.content?.parts || []) {
+    if (part.inlineData?.data) {
+      return {
+        base64: part.inlineData.data,
+        mimeType: part.inlineData.mimeType || 'image/png'
+      };
+    }
+  }
+  throw new Error("No image data found in response");
+};
+
+export const geminiProvider: AiProvider = {
+  id: 'gemini',
+  name: 'Google Gemini',
+  description: 'Live models through the Gemini API. Needs an API key.',
+  requiresApiKey: true,
+  models: {
+    analysis: ['gemini-3-flash-preview', 'gemini-3-pro-preview', 'gemini-2.5-flash'],
+    image: ['gemini-2.5-flash-image', 'gemini-3-pro-image-preview'],
+    proImage: ['gemini-3-pro-image-preview', 'gemini-2.5-flash-image'],
+    speech: ['gemini-2.5-flash-preview-tts', 'gemini-2.5-pro-preview-tts'],
+    scene: ['gemini-3-flash-preview', 'gemini-3-pro-preview', 'gemini-2.5-flash'],
+    embedding: ['gemini-embedding-001'],
+  },
+  imageModels: {
+    'gemini-2.5-flash-image': { aspectRatios: ASPECT_RATIOS, sizes: [], maxReferences: 3 },
+    'gemini-3-pro-image-preview': { aspectRatios: ASPECT_RATIOS, sizes: ['1K', '2K', '4K'], defaultSize: '2K', maxReferences: 14 },
+  },
+
+  analyzeImage: async (model, image, prompt) => {
+    const response: GenerateContentResponse = await getClient().models.generateContent({
+      model: model,
+      contents: {
+        parts: [
+          { inlineData: { mimeType: image.mimeType, data: image.base64 } },
+          { text: prompt }
+        ]
+      }
+    });
+    return response.text || "No description generated.";
+  },
+
+  suggestTags: async (model, image, prompt) => {
+    const response: GenerateContentResponse = await getClient().models.generateContent({
+      model: model,
+      contents: {
+        parts: [
+          { inlineData: { mimeType: image.mimeType, data: image.base64 } },
+          { text: prompt }
+        ]
+      },
+      config: {
+        responseMimeType: 'application/json',
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            tags: {
+              type: Type.ARRAY,
+              items: { type: Type.STRING }
+            }
+          },
+          required: ['tags']
+        }
+      }
+    });
+
+    const parsed = JSON.parse(response.text || '{}');
+    const tags: unknown[] = Array.isArray(parsed.tags) ? parsed.tags : [];
+    return tags.filter((t): t is string => typeof t === 'string');
+  },
+
+  generateImage: async ({ model, prompt, aspectRatio, imageSize, references, signal }) => {
+    const imageConfig: any = {
+      aspectRatio: aspectRatio,
+    };
+    if (imageSize) {
+      imageConfig.imageSize = imageSize;
+    }
+
+    const response: GenerateContentResponse = await getClient().models.generateContent({
+      model: model,
+      contents: {
+        parts: [
+          ...references.map(ref => ({ inlineData: { data: ref.base64, mimeType: ref.mimeType } })),
+          { text: prompt }
+        ]
+      },
+      config: {
+        imageConfig: imageConfig,
+        abortSignal: signal
+      }
+    });
+    return extractImage(response);
+  },
+
+  editImage: async ({ model, source, mask, instruction }) => {
+    const response: GenerateContentResponse = await getClient().models.generateContent({
+      model: model,
+      contents: {
+        parts: [
+          { inlineData: { mimeType: source.mimeType, data: source.base64 } },
+          ...(mask ? [{ inlineData: { mimeType: mask.mimeType, data: mask.base64 } }] : []),
+          { text: instruction }
+        ]
+      }
+    });
+    return extractImage(response);
+  },
+
+  generateSpeech: async (model, text) => {
+    const response: GenerateContentResponse = await getClient().models.generateContent({
+      model: model,
+      contents: [{ parts: [{ text: text }] }],
+      config: {
+        responseModalities: [Modality.AUDIO],
+        speechConfig: {
+          voiceConfig: {
+            prebuiltVoiceConfig: { voiceName: 'Kore' }, // Options: 'Puck', 'Charon', 'Kore', 'Fenrir', 'Zephyr'
+          },
+        },
+      },
+    });
+
+    const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+    if (!base64Audio) {
+      throw new Error("No audio data generated");
+    }
+    return base64Audio;
+  },
+
+  generateSceneCode: async (model, prompt, systemPrompt) => {
+    const response: GenerateContentResponse = await getClient().models.generateContent({
+      model: model,
+      contents: [{ parts: [{ text: prompt }] }],
+      config: {
+        systemInstruction: systemPrompt,
+        thinkingConfig: { thinkingBudget: 1024 } // Use thinking for better logic generation
+      }
+    });
+    return response.text || "";
+  },
+
+  embedTexts: async (model, texts, taskType) => {
+    const ai = getClient();
+    const vectors: number[][] = [];
+
+    for (let i = 0; i < texts.length; i += EMBEDDING_BATCH_SIZE) {
+      const batch = texts.slice(i, i + EMBEDDING_BATCH_SIZE);
+      const response = await ai.models.embedContent({
+        model: model,
+        contents: batch,
+        config: { taskType }
+      });
+
+      const embeddings = response.embeddings || [];
+      if (embeddings.length !== batch.length) {
+        throw new Error(`Expected ${batch.length} embeddings, got ${embeddings.length}`);
+      }
+      embeddings.forEach(e => vectors.push(e.values || []));
+    }
+    return vectors;
+  },
+};
@@ -0,0 +1,101 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { getAiSettings, saveAiSettings } from './aiSettings';
+import { fitImageOptions, generateImage, generateSceneCode, generateSpeech, getImageModel, suggestImageTags } from './geminiService';
+
+// jsdom has no 2D canvas. This one records the drawing calls, and toDataURL
+// encodes them with the canvas size, so equal drawings give equal images.
+const recordingContext = (log: unknown[]) => new Proxy({} as Record<string | symbol, unknown>, {
+  get: (target, key) => key in target
+    ? target[key]
+    : (...args: unknown[]) => {
+      log.push([key, ...args]);
+      return key === 'createLinearGradient' ? recordingContext(log) : undefined;
+    },
+  set: (target, key, value) => {
+    log.push([key, value]);
+    target[key] = value;
+    return true;
+  },
+});
+
+const drawings = new WeakMap<HTMLCanvasElement, unknown[]>();
+
+const decode = (base64: string) => JSON.parse(atob(base64)) as { width: number; height: number; log: unknown[] };
+
+// Lets the mock's fixed latency pass without waiting for it
+const settle = async <T>(promise: Promise<T>): Promise<T> => {
+  await vi.advanceTimersByTimeAsync(1000);
+  return promise;
+};
+
+describe('generation through the mock provider', () => {
+  const previous = getAiSettings();
+
+  beforeAll(() => saveAiSettings({ providerId: 'mock', models: {} }));
+  afterAll(() => saveAiSettings(previous));
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(HTMLCanvasElement.prototype, 'getContext').mockImplementation(function (this: HTMLCanvasElement) {
+      if (!drawings.has(this)) drawings.set(this, []);
+      return recordingContext(drawings.get(this)!) as unknown as CanvasRenderingContext2D;
+    });
+    vi.spyOn(HTMLCanvasElement.prototype, 'toDataURL').mockImplementation(function (this: HTMLCanvasElement, type = 'image/png') {
+      const data = JSON.stringify({ width: this.width, height: this.height, log: drawings.get(this) || [] });
+      return `data:${type};base64,${btoa(data)}`;
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('uses the mock models', () => {
+    expect(getImageModel(false)).toBe('mock-image');
+    expect(getImageModel(true)).toBe('mock-image-hq');
+  });
+
+  it('draws the same image for the same prompt', async () => {
+    const first = await settle(generateImage('a lighthouse at night'));
+    const second = await settle(generateImage('a lighthouse at night'));
+    const other = await settle(generateImage('a field of flowers'));
+
+    expect(first.mimeType).toBe('image/png');
+    expect(second.base64).toBe(first.base64);
+    expect(other.base64).not.toBe(first.base64);
+  });
+
+  it('sizes the image from the aspect ratio and requested size', async () => {
+    const wide = decode((await settle(generateImage('wide', { aspectRatio: '16:9' }))).base64);
+    expect([wide.width, wide.height]).toEqual([1024, 576]);
+
+    const tall = decode((await settle(generateImage('tall', { aspectRatio: '9:16', usePro: true, imageSize: '2K' }))).base64);
+    expect([tall.width, tall.height]).toEqual([1152, 2048]);
+  });
+
+  it('rejects options the model does not support', async () => {
+    await expect(generateImage('sized', { imageSize: '2K' })).rejects.toThrow('mock-image does not support choosing an image size');
+
+    const references = Array.from({ length: 4 }, () => ({ base64: 'AAAA', mimeType: 'image/png', role: 'style' as const }));
+    await expect(generateImage('too many', { references })).rejects.toThrow('mock-image takes at most 3 reference images');
+    expect(fitImageOptions(true, '16:9', '8K' as never)).toEqual({ aspectRatio: '16:9', imageSize: '1K' });
+  });
+
+  it('uses an exact model when one is given', async () => {
+    const sized = decode((await settle(generateImage('recorded', { model: 'mock-image-hq', imageSize: '2K' }))).base64);
+    expect([sized.width, sized.height]).toEqual([2048, 2048]);
+
+    await expect(generateImage('recorded', { model: 'gemini-2.5-flash-image' }))
+      .rejects.toThrow('gemini-2.5-flash-image is not available from Offline mock');
+  });
+
+  it('gives repeatable text, tags, speech and scenes', async () => {
+    expect(await settle(suggestImageTags('AAAA'))).toEqual(await settle(suggestImageTags('AAAA')));
+    expect(await settle(generateSpeech('hello there'))).toBe(await settle(generateSpeech('hello there')));
+
+    const scene = await settle(generateSceneCode('green particles rising'));
+    expect(scene).toContain('// Offline mock scene for: green particles rising');
+    expect(await settle(generateSceneCode('green particles rising'))).toBe(scene);
+  });
+});
@@ -1,4 +1,10 @@
-import { GoogleGenAI, GenerateContentResponse, Modality } from "@google/genai";
+import { ImageAspectRatio, ImageSize, ReferenceRole } from "../types";
+import { EmbeddingTask, ImageModelCapabilities, ImageReference } from "./aiProvider";
+import { getActiveProvider, getModel } from "./aiSettings";
+
+// Every call below goes to the active provider (see aiSettings), with the
+// models chosen in AI settings. Prompt wording and option checks live here so
+// every provider gets the same requests.
 
 // Helper to convert URL to Base64 (for analysis of remote images)
 export const urlToBase64 = async (url: string): Promise<string> => {
@@ -18,34 +24,31 @@ export const urlToBase64 = async (url: string): Promise<string> => {
 };
 
 export const analyzeImage = async (base64Data: string, prompt: string = "Describe this image in detail."): Promise<string> => {
-  const apiKey = process.env.API_KEY;
-  if (!apiKey) throw new Error("API Key not found");
-  
-  // Re-initialize to ensure we use the latest key
-  const ai = new GoogleGenAI({ apiKey });
-
   try {
-    const response: GenerateContentResponse = await ai.models.generateContent({
-      model: 'gemini-3-flash-preview',
-      contents: {
-        parts: [
-          {
-            inlineData: {
-              mimeType: 'image/jpeg', // Assuming jpeg for simplicity, or detect from context
-              data: base64Data
-            }
-          },
-          { text: prompt }
-        ]
-      }
-    });
-    return response.text || "No description generated.";
+    // Assuming jpeg for simplicity, or detect from context
+    return await getActiveProvider().analyzeImage(getModel('analysis'), { base64: base64Data, mimeType: 'image/jpeg' }, prompt);
   } catch (error) {
     console.error("Analysis failed:", error);
     throw error;
   }
 };
 
+// Structured-output variant of analyzeImage: returns short lowercase tags
+export const suggestImageTags = async (base64Data: string, maxTags: number = 8): Promise<string[]> => {
+  const prompt = `List up to ${maxTags} short tags (1-2 words each) describing the subject, setting, style and mood of this image.`;
+
+  try {
+    const tags = await getActiveProvider().suggestTags(getModel('analysis'), { base64: base64Data, mimeType: 'image/jpeg' }, prompt);
+    return tags
+      .map(t => t.trim().toLowerCase())
+      .filter(Boolean)
+      .slice(0, maxTags);
+  } catch (error) {
+    console.error("Tag suggestion failed:", error);
+    throw error;
+  }
+};
+
 export const analyzeForVisualizer = async (base64Data: string): Promise<string> => {
   const prompt = `
     Analyze this image and describe it as a prompt for a Babylon.js 3D background visualizer.
@@ -59,96 +62,143 @@ export const analyzeForVisualizer = async (base64Data: string): Promise<string>
   return analyzeImage(base64Data, prompt);
 };
 
+export const getImageModel = (usePro: boolean) => getModel(usePro ? 'proImage' : 'image');
+
+// --- Image model capabilities ---
+
+export const getImageModelCapabilities = (usePro: boolean): ImageModelCapabilities => {
+  return getActiveProvider().imageModels[getImageModel(usePro)];
+};
+
+// Nearest valid settings for the model: unsupported ratios fall back to 1:1,
+// and the size is dropped for fixed-size models or defaulted for the others.
+export const fitImageOptions = (usePro: boolean, aspectRatio: ImageAspectRatio, imageSize?: ImageSize): { aspectRatio: ImageAspectRatio, imageSize?: ImageSize } => {
+  const capabilities = getImageModelCapabilities(usePro);
+  return {
+    aspectRatio: capabilities.aspectRatios.includes(aspectRatio) ? aspectRatio : '1:1',
+    imageSize: capabilities.sizes.length === 0
+      ? undefined
+      : imageSize && capabilities.sizes.includes(imageSize) ? imageSize : capabilities.defaultSize,
+  };
+};
+
+// Tells the model which of the attached images (numbered from 1) play which part
+const describeReferences = (references: ImageReference[]): string => {
+  const numbered = (role: ReferenceRole) => references
+    .map((ref, i) => ref.role === role ? i + 1 : 0)
+    .filter(Boolean)
+    .join(', ');
+  const style = numbered('style');
+  const subject = numbered('subject');
+  return [
+    style && `Use image ${style} as a style reference: match the color palette, lighting, medium and rendering, but not the content.`,
+    subject && `Use image ${subject} as a subject reference: keep the same subject, character or object, with its identifying features, in the new scene.`,
+  ].filter(Boolean).join(' ');
+};
+
 interface GenerateImageOptions {
-  aspectRatio?: '1:1' | '3:4' | '4:3' | '16:9' | '9:16';
+  aspectRatio?: ImageAspectRatio;
+  // Only for models that support it; defaults to the model's own default
+  imageSize?: ImageSize;
   usePro?: boolean;
+  // Exact model, e.g. the one an image was made with; defaults to the chosen model for `usePro`
+  model?: string;
+  // Existing images sent with the prompt, in order
+  references?: ImageReference[];
+  // Stops waiting for the response; the request itself still runs (and is billed)
+  signal?: AbortSignal;
 }
 
 export const generateImage = async (prompt: string, options: GenerateImageOptions = {}): Promise<{ base64: string, mimeType: string }> => {
-  const apiKey = process.env.API_KEY;
-  if (!apiKey) throw new Error("API Key not found");
-  
-  const ai = new GoogleGenAI({ apiKey });
-  const { aspectRatio = '1:1', usePro = false } = options;
-
-  const model = usePro ? 'gemini-3-pro-image-preview' : 'gemini-2.5-flash-image';
-  
-  // Pro model supports explicit size configuration
-  const imageConfig: any = {
-    aspectRatio: aspectRatio,
-  };
+  const { aspectRatio = '1:1', imageSize, usePro = false, references = [], signal } = options;
 
-  if (usePro) {
-    imageConfig.imageSize = '2K'; // Default to high quality for Pro
+  const provider = getActiveProvider();
+  const model = options.model || getImageModel(usePro);
+  const capabilities = provider.imageModels[model];
+  if (!capabilities) {
+    throw new Error(`${model} is not available from ${provider.name}. Switch provider in AI Settings to use it.`);
+  }
+  if (!capabilities.aspectRatios.includes(aspectRatio)) {
+    throw new Error(`${model} does not support the ${aspectRatio} aspect ratio`);
+  }
+  if (imageSize && !capabilities.sizes.includes(imageSize)) {
+    throw new Error(capabilities.sizes.length === 0
+      ? `${model} does not support choosing an image size`
+      : `${model} does not support ${imageSize} images`);
+  }
+  if (references.length > capabilities.maxReferences) {
+    throw new Error(`${model} takes at most ${capabilities.maxReferences} reference images`);
   }
 
   try {
-    const response: GenerateContentResponse = await ai.models.generateContent({
+    return await provider.generateImage({
       model: model,
-      contents: {
-        parts: [{ text: prompt }]
-      },
-      config: {
-        imageConfig: imageConfig
-      }
+      prompt: references.length === 0 ? prompt : `${describeReferences(references)}\n\n${prompt}`,
+      aspectRatio: aspectRatio,
+      // Only some models take an explicit size
+      imageSize: imageSize || capabilities.defaultSize,
+      references: references,
+      signal: signal
     });
-
-    // Extract image from response
-    for (const part of response.candidates?.[0]?.content?.parts || []) {
-      if (part.inlineData) {
-        return {
-          base64: part.inlineData.data,
-          mimeType: part.inlineData.mimeType || 'image/png'
-        };
-      }
-    }
-    throw new Error("No image data found in response");
-
   } catch (error) {
     console.error("Generation failed:", error);
     throw error;
   }
 };
 
-export const generateSpeech = async (text: string): Promise<string> => {
-  const apiKey = process.env.API_KEY;
-  if (!apiKey) throw new Error("API Key not found");
-  
-  const ai = new GoogleGenAI({ apiKey });
+interface EditImageOptions {
+  // Black image with the areas to change painted white, same size as the source
+  mask?: { base64: string, mimeType: string };
+  usePro?: boolean;
+}
+
+// Image-to-image: the model sees the source (and mask) and changes only what the instruction asks for
+export const editImage = async (
+  source: { base64: string, mimeType: string },
+  instruction: string,
+  options: EditImageOptions = {}
+): Promise<{ base64: string, mimeType: string }> => {
+  const { mask, usePro = false } = options;
+  const model = getImageModel(usePro);
+
+  const guidance = mask
+    ? `Edit the first image. The second image is a mask: change only the areas that are white in the mask and keep everything else exactly as it is, including composition, lighting and framing. Edit: ${instruction}`
+    : `Edit this image while keeping its composition, subject placement and framing. Edit: ${instruction}`;
 
   try {
-    const response: GenerateContentResponse = await ai.models.generateContent({
-      model: "gemini-2.5-flash-preview-tts",
-      contents: [{ parts: [{ text: text }] }],
-      config: {
-        responseModalities: [Modality.AUDIO],
-        speechConfig: {
-          voiceConfig: {
-            prebuiltVoiceConfig: { voiceName: 'Kore' }, // Options: 'Puck', 'Charon', 'Kore', 'Fenrir', 'Zephyr'
-          },
-        },
-      },
-    });
+    return await getActiveProvider().editImage({ model, source, mask, instruction: guidance });
+  } catch (error) {
+    console.error("Image edit failed:", error);
+    throw error;
+  }
+};
 
-    const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
-    if (!base64Audio) {
-      throw new Error("No audio data generated");
-    }
-    return base64Audio;
+export const generateSpeech = async (text: string): Promise<string> => {
+  try {
+    return await getActiveProvider().generateSpeech(getModel('speech'), text);
   } catch (error) {
     console.error("Speech generation failed:", error);
     throw error;
   }
 };
 
-// --- Visualizer Engine Generation ---
+// --- Embeddings ---
 
-export const generateSceneCode = async (prompt: string): Promise<string> => {
-  const apiKey = process.env.API_KEY;
-  if (!apiKey) throw new Error("API Key not found");
+// Stored with each vector, so switching models re-indexes semantic search
+export const getEmbeddingModel = () => getModel('embedding');
+
+export const embedTexts = async (texts: string[], taskType: EmbeddingTask = 'RETRIEVAL_DOCUMENT'): Promise<number[][]> => {
+  try {
+    return await getActiveProvider().embedTexts(getEmbeddingModel(), texts, taskType);
+  } catch (error) {
+    console.error("Embedding failed:", error);
+    throw error;
+  }
+};
 
-  const ai = new GoogleGenAI({ apiKey });
+// --- Visualizer Engine Generation ---
 
+export const generateSceneCode = async (prompt: string): Promise<string> => {
   const systemPrompt = `
     You are an expert 3D graphics programmer using Babylon.js.
     Your task is to write a JavaScript function body that modifies a Babylon.js Scene based on the user's prompt.
@@ -194,16 +244,7 @@ export const generateSceneCode = async (prompt: string): Promise<string> => {
   `;
 
   try {
-    const response: GenerateContentResponse = await ai.models.generateContent({
-      model: "gemini-3-flash-preview",
-      contents: [{ parts: [{ text: prompt }] }],
-      config: {
-        systemInstruction: systemPrompt,
-        thinkingConfig: { thinkingBudget: 1024 } // Use thinking for better logic generation
-      }
-    });
-
-    let code = response.text || "";
+    let code = await getActiveProvider().generateSceneCode(getModel('scene'), prompt, systemPrompt);
     
     // Cleanup markdown if present
     code = code.replace(/```javascript/g, "").replace(/```/g, "").trim();
@@ -0,0 +1,210 @@
+import { v4 as uuidv4 } from 'uuid';
+import { GeneratedImage, GenerationJob, GenerationRecord, ImageAspectRatio, ImageItem, ImageSize } from '../types';
+import { generateImage, fitImageOptions } from './geminiService';
+import { ImageReference } from './aiProvider';
+import { loadEditSource, renderEdits, canvasToImageData } from './imageEdits';
+import { composePrompt } from './stylePresets';
+
+// --- Background image generation ---
+//
+// Jobs run outside any modal, at most `concurrency` at a time. Finished images
+// are handed to result listeners (the gallery) as they arrive; failed and
+// cancelled jobs stay in the list until retried or cleared.
+
+const CONCURRENCY_STORAGE_KEY = 'luminaview.generationConcurrency';
+const SETTINGS_STORAGE_KEY = 'luminaview.generatorSettings';
+export const CONCURRENCY_OPTIONS = [1, 2, 3, 4];
+const DEFAULT_CONCURRENCY = 2;
+
+let jobs: GenerationJob[] = [];
+let concurrency = DEFAULT_CONCURRENCY;
+const controllers = new Map<string, AbortController>();
+
+const jobListeners = new Set<(jobs: GenerationJob[]) => void>();
+const resultListeners = new Set<(result: GeneratedImage) => void>();
+
+const notify = () => jobListeners.forEach(listener => listener(jobs));
+
+// Returns an unsubscribe function. Called right away with the current jobs.
+export const subscribeGenerationJobs = (listener: (jobs: GenerationJob[]) => void): (() => void) => {
+  jobListeners.add(listener);
+  listener(jobs);
+  return () => { jobListeners.delete(listener); };
+};
+
+// Returns an unsubscribe function
+export const subscribeGenerationResults = (listener: (result: GeneratedImage) => void): (() => void) => {
+  resultListeners.add(listener);
+  return () => { resultListeners.delete(listener); };
+};
+
+const updateJob = (id: string, changes: Partial<GenerationJob>) => {
+  jobs = jobs.map(job => job.id === id ? { ...job, ...changes } : job);
+  notify();
+};
+
+const describeError = (error: any): string => {
+  const message = error?.message || String(error);
+  if (message.includes("Requested entity was not found")) return "Session expired. Please select your API key again.";
+  return message;
+};
+
+// Reference pixels as the gallery shows them, edits included
+const loadReferences = async (job: GenerationJob): Promise<ImageReference[]> => {
+  const references = job.generation.references || [];
+  return Promise.all(references.map(async reference => {
+    const image = job.referenceImages?.find(img => img.id === reference.imageId);
+    if (!image) throw new Error('A reference image is no longer in the gallery');
+    const canvas = renderEdits(await loadEditSource(image), image.edits || []);
+    return { ...canvasToImageData(canvas, image.mimeType), role: reference.role };
+  }));
+};
+
+const runJob = async (job: GenerationJob) => {
+  const controller = new AbortController();
+  controllers.set(job.id, controller);
+  updateJob(job.id, { status: 'running', error: undefined, attempts: job.attempts + 1 });
+
+  try {
+    const references = await loadReferences(job);
+    // The recorded model, so a regenerate or retry doesn't pick up a model chosen since
+    const { base64, mimeType } = await generateImage(composePrompt(job.generation), {
+      usePro: job.generation.usePro,
+      model: job.generation.model,
+      aspectRatio: job.generation.aspectRatio,
+      imageSize: job.generation.imageSize,
+      references,
+      signal: controller.signal
+    });
+    if (controller.signal.aborted) return;
+    updateJob(job.id, { status: 'done' });
+    resultListeners.forEach(listener => listener({ base64, mimeType, generation: job.generation, parentId: job.parentId }));
+  } catch (error) {
+    if (controller.signal.aborted) return;
+    console.error(`Failed to generate "${job.generation.prompt}" (${job.generation.style})`, error);
+    updateJob(job.id, { status: 'failed', error: describeError(error) });
+  } finally {
+    // A cancelled job may already be running again under a new controller
+    if (controllers.get(job.id) === controller) controllers.delete(job.id);
+    pump();
+  }
+};
+
+// Start queued jobs, oldest first, until the concurrency limit is reached
+const pump = () => {
+  const running = jobs.filter(job => job.status === 'running').length;
+  jobs
+    .filter(job => job.status === 'queued')
+    .slice(0, Math.max(0, concurrency - running))
+    .forEach(runJob);
+};
+
+// `referenceImages` are the gallery images behind `generation.references`, in the same order
+export const enqueueGenerations = (requests: { generation: GenerationRecord, parentId?: string, referenceImages?: ImageItem[] }[]): GenerationJob[] => {
+  const added = requests.map((request): GenerationJob => ({
+    id: uuidv4(),
+    generation: request.generation,
+    parentId: request.parentId,
+    referenceImages: request.referenceImages,
+    status: 'queued',
+    attempts: 0,
+    createdAt: Date.now()
+  }));
+  jobs = [...jobs, ...added];
+  notify();
+  pump();
+  return added;
+};
+
+// A running job's request can't be recalled, but its result is dropped
+export const cancelGenerationJob = (id: string) => {
+  const job = jobs.find(j => j.id === id);
+  if (!job || (job.status !== 'queued' && job.status !== 'running')) return;
+  controllers.get(id)?.abort();
+  updateJob(id, { status: 'cancelled' });
+  pump();
+};
+
+export const cancelAllGenerationJobs = () => {
+  jobs.filter(job => job.status === 'queued' || job.status === 'running').forEach(job => cancelGenerationJob(job.id));
+};
+
+export const retryGenerationJob = (id: string) => {
+  const job = jobs.find(j => j.id === id);
+  if (!job || (job.status !== 'failed' && job.status !== 'cancelled')) return;
+  // Back of the line, so a retry doesn't jump ahead of work queued since
+  jobs = [...jobs.filter(j => j.id !== id), { ...job, status: 'queued', error: undefined }];
+  notify();
+  pump();
+};
+
+export const retryFailedGenerationJobs = () => {
+  jobs.filter(job => job.status === 'failed').forEach(job => retryGenerationJob(job.id));
+};
+
+// Drop finished, failed and cancelled jobs from the list
+export const clearFinishedGenerationJobs = () => {
+  jobs = jobs.filter(job => job.status === 'queued' || job.status === 'running');
+  notify();
+};
+
+export const dismissGenerationJob = (id: string) => {
+  const job = jobs.find(j => j.id === id);
+  if (!job || job.status === 'queued' || job.status === 'running') return;
+  jobs = jobs.filter(j => j.id !== id);
+  notify();
+};
+
+// --- Concurrency setting ---
+
+export const loadGenerationConcurrency = (): number => {
+  try {
+    const stored = Number(localStorage.getItem(CONCURRENCY_STORAGE_KEY));
+    return CONCURRENCY_OPTIONS.includes(stored) ? stored : DEFAULT_CONCURRENCY;
+  } catch (error) {
+    return DEFAULT_CONCURRENCY;
+  }
+};
+
+// Lowering the limit lets running jobs finish; raising it starts queued ones now
+export const setGenerationConcurrency = (value: number) => {
+  concurrency = value;
+  try {
+    localStorage.setItem(CONCURRENCY_STORAGE_KEY, String(value));
+  } catch (error) {
+    console.warn("Failed to save generation concurrency:", error);
+  }
+  pump();
+};
+
+concurrency = loadGenerationConcurrency();
+
+// --- Last generator settings ---
+
+export interface GeneratorSettings {
+  usePro: boolean;
+  aspectRatio: ImageAspectRatio;
+  imageSize?: ImageSize;
+}
+
+const DEFAULT_GENERATOR_SETTINGS: GeneratorSettings = { usePro: false, aspectRatio: '16:9' };
+
+// Whatever was stored is refitted to the model, in case its capabilities changed
+export const loadGeneratorSettings = (): GeneratorSettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(SETTINGS_STORAGE_KEY) || 'null');
+    if (!stored) return DEFAULT_GENERATOR_SETTINGS;
+    const usePro = stored.usePro === true;
+    return { usePro, ...fitImageOptions(usePro, stored.aspectRatio, stored.imageSize) };
+  } catch (error) {
+    return DEFAULT_GENERATOR_SETTINGS;
+  }
+};
+
+export const saveGeneratorSettings = (settings: GeneratorSettings) => {
+  try {
+    localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.warn("Failed to save generator settings:", error);
+  }
+};
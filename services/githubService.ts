@@ -1,46 +1,341 @@
 import { GoogleGenAI, GenerateContentResponse, Modality } from "@google/genai";
+import { ImageSidecar } from '../types';
+import { getGitHubToken, requireGitHubToken } from './credentials';
+import { getMimeTypeFromFileName } from './galleryQuery';
 
-interface GitHubFile {
+export interface GitHubFile {
   name: string;
   type: string;
   download_url: string;
   sha: string;
   path: string;
+  // Bytes
+  size: number;
 }
 
+// --- API configuration (overridable so a local mock of the GitHub API can be used) ---
+
+interface GitHubApiConfig {
+  baseUrl: string;
+  fetch: typeof fetch;
+  maxRetries: number;
+  // First backoff delay; doubles on each retry
+  baseDelayMs: number;
+  // Never sleep longer than this waiting for a rate limit to reset
+  maxDelayMs: number;
+}
+
+const DEFAULT_API_CONFIG: GitHubApiConfig = {
+  baseUrl: 'https://api.github.com',
+  fetch: (input, init) => fetch(input, init),
+  maxRetries: 4,
+  baseDelayMs: 1000,
+  maxDelayMs: 60000,
+};
+
+let apiConfig: GitHubApiConfig = DEFAULT_API_CONFIG;
+
+// Point every call at another server/fetch (e.g. a mock). Pass no argument to reset.
+export const configureGitHubApi = (config: Partial<GitHubApiConfig> = {}) => {
+  apiConfig = { ...DEFAULT_API_CONFIG, ...config };
+};
+
+// --- Rate limit tracking ---
+
+export interface RateLimitInfo {
+  limit: number;
+  remaining: number;
+  // Epoch milliseconds when the budget refills
+  resetAt: number;
+}
+
+let rateLimit: RateLimitInfo | null = null;
+const rateLimitListeners = new Set<(info: RateLimitInfo) => void>();
+
+export const getRateLimit = (): RateLimitInfo | null => rateLimit;
+
+// Returns an unsubscribe function
+export const subscribeRateLimit = (listener: (info: RateLimitInfo) => void): (() => void) => {
+  rateLimitListeners.add(listener);
+  return () => { rateLimitListeners.delete(listener); };
+};
+
+const recordRateLimit = (response: Response) => {
+  const limit = response.headers.get('X-RateLimit-Limit');
+  const remaining = response.headers.get('X-RateLimit-Remaining');
+  const reset = response.headers.get('X-RateLimit-Reset');
+  if (limit === null || remaining === null || reset === null) return;
+
+  rateLimit = { limit: Number(limit), remaining: Number(remaining), resetAt: Number(reset) * 1000 };
+  rateLimitListeners.forEach(listener => listener(rateLimit!));
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// How long to wait before retrying, or null if the response should not be retried
+const getRetryDelay = async (response: Response, attempt: number): Promise<number | null> => {
+  const { status } = response;
+  const backoff = apiConfig.baseDelayMs * 2 ** attempt + Math.random() * apiConfig.baseDelayMs;
+
+  if (status >= 500) return backoff;
+  if (status !== 403 && status !== 429) return null;
+
+  // 403 is also used for plain permission errors, which must not be retried
+  const retryAfter = response.headers.get('Retry-After');
+  if (retryAfter) return Number(retryAfter) * 1000;
+
+  if (response.headers.get('X-RateLimit-Remaining') === '0') {
+    const reset = Number(response.headers.get('X-RateLimit-Reset')) * 1000;
+    return Math.max(reset - Date.now(), 0) + 1000;
+  }
+
+  if (status === 429) return backoff;
+  const body = await response.clone().json().catch(() => ({}));
+  return /rate limit/i.test(body.message || '') ? backoff : null;
+};
+
+// Every call is authenticated with the stored token when there is one
+const withAuth = (init: RequestInit = {}): RequestInit => {
+  const token = getGitHubToken();
+  if (!token) return init;
+
+  const headers = new Headers(init.headers);
+  headers.set('Authorization', `token ${token}`);
+  return { ...init, headers };
+};
+
+// Shared request wrapper: adds credentials, records the rate limit budget and
+// retries 403 (rate limited) / 429 / 5xx with exponential backoff.
+const apiFetch = async (path: string, init?: RequestInit): Promise<Response> => {
+  const authedInit = withAuth(init);
+  for (let attempt = 0; ; attempt++) {
+    const response = await apiConfig.fetch(`${apiConfig.baseUrl}${path}`, authedInit);
+    recordRateLimit(response);
+
+    if (response.ok || attempt >= apiConfig.maxRetries) return response;
+
+    const delay = await getRetryDelay(response, attempt);
+    if (delay === null) return response;
+    if (delay > apiConfig.maxDelayMs) {
+      const resetTime = new Date(Date.now() + delay).toLocaleTimeString();
+      throw new Error(`GitHub rate limit exceeded. Try again after ${resetTime}.`);
+    }
+
+    console.warn(`GitHub responded ${response.status}, retrying in ${Math.round(delay / 1000)}s...`);
+    await sleep(delay);
+  }
+};
+
 export const isGitHubUrl = (url: string): boolean => {
   return url.includes('github.com');
 };
 
-export const getImagesFromGitHub = async (url: string): Promise<string[]> => {
-  try {
-    const urlObj = new URL(url);
-    const pathParts = urlObj.pathname.split('/').filter(Boolean);
-    
-    if (pathParts.length < 2) return [];
+export interface GitHubImageEntry {
+  // Raw URL. For private repos it cannot be loaded directly and only identifies the file.
+  url: string;
+  // Raw URL of the `<image>.json` metadata file next to the image, if present
+  sidecarUrl?: string;
+  // Folder containing the image, relative to the repo root
+  folder: string;
+  // Private repos are read through the authenticated blob API instead of raw URLs
+  isPrivate: boolean;
+  // Git blob API paths for the image and its sidecar
+  blobPath?: string;
+  sidecarBlobPath?: string;
+}
+
+export interface GitHubListOptions {
+  // Include every subfolder. Uses the Git Trees API, which has no 1,000 entry limit.
+  recursive?: boolean;
+}
+
+// The contents API silently stops listing a directory at this many entries
+const CONTENTS_API_LIMIT = 1000;
+
+interface RepoFile {
+  path: string;
+  url: string;
+  sha?: string;
+}
+
+interface GitHubLocation {
+  owner: string;
+  repo: string;
+  // Branch, or '' for the default branch
+  ref: string;
+  path: string;
+}
+
+// github.com/<owner>/<repo>[/tree|blob/<ref>/<path>]
+const parseGitHubUrl = (url: string): GitHubLocation | null => {
+  const pathParts = new URL(url).pathname.split('/').filter(Boolean);
+  if (pathParts.length < 2) return null;
+
+  const hasRef = pathParts[2] === 'tree' || pathParts[2] === 'blob';
+  return {
+    owner: pathParts[0],
+    repo: pathParts[1],
+    ref: hasRef ? pathParts[3] || '' : '',
+    path: hasRef ? pathParts.slice(4).join('/') : '',
+  };
+};
+
+const dirName = (path: string) => path.includes('/') ? path.slice(0, path.lastIndexOf('/')) : '';
+
+// Last resort for a single file link when the API is unavailable
+const blobUrlFallback = (url: string): GitHubImageEntry[] => {
+  if (!url.includes('/blob/')) return [];
+  const location = parseGitHubUrl(url);
+  return [{
+    url: url.replace('github.com', 'raw.githubusercontent.com').replace('/blob/', '/'),
+    folder: location ? dirName(location.path) : '',
+    isPrivate: false,
+  }];
+};
+
+export interface RepoInfo {
+  defaultBranch: string;
+  isPrivate: boolean;
+}
+
+// Repository metadata rarely changes, so it is fetched once per session
+const repoInfoCache = new Map<string, Promise<RepoInfo>>();
+
+export const getRepoInfo = (owner: string, repo: string): Promise<RepoInfo> => {
+  const key = `${owner}/${repo}`;
+  if (!repoInfoCache.has(key)) {
+    const request = apiFetch(`/repos/${owner}/${repo}`).then(async response => {
+      if (!response.ok) throw new Error(`Failed to read repository: ${response.status}`);
+      const data = await response.json();
+      return { defaultBranch: data.default_branch, isPrivate: !!data.private };
+    });
+    // Don't cache failures, e.g. a private repo before a token was entered
+    request.catch(() => repoInfoCache.delete(key));
+    repoInfoCache.set(key, request);
+  }
+  return repoInfoCache.get(key)!;
+};
+
+// Pairs images with their sidecars; `files` may span several folders
+const toImageEntries = (location: GitHubLocation, files: RepoFile[], isPrivate: boolean): GitHubImageEntry[] => {
+  const blobPath = (sha?: string) => sha ? `/repos/${location.owner}/${location.repo}/git/blobs/${sha}` : undefined;
+  const filesByPath = new Map(files.map(file => [file.path, file]));
+  return files
+    .filter(file => isImageFile(file.path))
+    .map(file => {
+      const sidecar = filesByPath.get(`${file.path}.json`);
+      return {
+        url: file.url,
+        sidecarUrl: sidecar?.url,
+        folder: dirName(file.path),
+        isPrivate,
+        blobPath: blobPath(file.sha),
+        sidecarBlobPath: blobPath(sidecar?.sha),
+      };
+    });
+};
+
+interface TreeEntry {
+  path: string;
+  type: string;
+  sha: string;
+}
+
+const fetchTree = async (owner: string, repo: string, treeish: string, recursive: boolean): Promise<{ tree: TreeEntry[]; truncated: boolean }> => {
+  const response = await apiFetch(`/repos/${owner}/${repo}/git/trees/${encodeURIComponent(treeish)}${recursive ? '?recursive=1' : ''}`);
+  if (!response.ok) throw new Error(`Failed to list repository tree: ${response.status}`);
+  return response.json();
+};
+
+// Entries below a tree, with paths relative to the repo root. A recursive
+// listing that comes back truncated is redone one level at a time.
+const collectTree = async (owner: string, repo: string, treeish: string, base: string, recursive: boolean): Promise<TreeEntry[]> => {
+  const withBase = (entry: TreeEntry) => base ? { ...entry, path: `${base}/${entry.path}` } : entry;
+  const data = await fetchTree(owner, repo, treeish, recursive);
+  if (!data.truncated) return data.tree.map(withBase);
+
+  const level = recursive ? await fetchTree(owner, repo, treeish, false) : data;
+  if (level.truncated) throw new Error(`${base || 'The repository root'} has too many entries to list`);
+
+  const entries = level.tree.map(withBase);
+  if (!recursive) return entries;
+  const nested: TreeEntry[] = [];
+  for (const entry of entries.filter(entry => entry.type === 'tree')) {
+    nested.push(...await collectTree(owner, repo, entry.sha, entry.path, true));
+  }
+  return [...entries, ...nested];
+};
+
+// Lists files under the location with one Git Trees API request for the whole repo.
+// For repos too large for that, it walks down to the folder and lists its subtrees.
+const listTreeFiles = async (location: GitHubLocation, recursive: boolean): Promise<RepoFile[]> => {
+  const { owner, repo, path } = location;
+  const ref = location.ref || (await getRepoInfo(owner, repo)).defaultBranch;
+
+  const data = await fetchTree(owner, repo, ref, true);
+  let entries = data.tree;
+  if (data.truncated) {
+    let treeSha: string | undefined = ref;
+    let base = '';
+    for (const segment of path ? path.split('/') : []) {
+      const level = await collectTree(owner, repo, treeSha, base, false);
+      base = base ? `${base}/${segment}` : segment;
+      treeSha = level.find(entry => entry.type === 'tree' && entry.path === base)?.sha;
+      if (!treeSha) return [];
+    }
+    entries = await collectTree(owner, repo, treeSha, base, recursive);
+  }
+
+  const prefix = path ? `${path}/` : '';
+  const encodedRef = ref.split('/').map(encodeURIComponent).join('/');
+  return entries
+    .filter(entry => entry.type === 'blob' && entry.path.startsWith(prefix))
+    .filter(entry => recursive || !entry.path.slice(prefix.length).includes('/'))
+    .map(entry => ({
+      path: entry.path,
+      sha: entry.sha,
+      url: `https://raw.githubusercontent.com/${owner}/${repo}/${encodedRef}/${entry.path.split('/').map(encodeURIComponent).join('/')}`,
+    }));
+};
+
+// Private repos return download URLs with a short-lived token; keep only the stable part
+const toRepoFile = (file: GitHubFile): RepoFile => ({
+  path: file.path,
+  url: file.download_url.split('?')[0],
+  sha: file.sha,
+});
+
+// Every file below `folder` (all depths), from the default branch
+export const listRepoFilesRecursive = async (owner: string, repo: string, folder: string): Promise<{ path: string; sha: string }[]> => {
+  const files = await listTreeFiles({ owner, repo, ref: '', path: folder.replace(/^\/+|\/+$/g, '') }, true);
+  return files.map(file => ({ path: file.path, sha: file.sha! }));
+};
+
+export const getImagesFromGitHub = async (url: string, options: GitHubListOptions = {}): Promise<string[]> => {
+  const entries = await getImageEntriesFromGitHub(url, options);
+  return entries.map(entry => entry.url);
+};
 
-    const owner = pathParts[0];
-    const repo = pathParts[1];
-    let path = '';
-    let ref = ''; // branch
+export const getImageEntriesFromGitHub = async (url: string, options: GitHubListOptions = {}): Promise<GitHubImageEntry[]> => {
+  try {
+    const location = parseGitHubUrl(url);
+    if (!location) return [];
+    const { isPrivate } = await getRepoInfo(location.owner, location.repo);
 
-    if (pathParts[2] === 'tree') {
-      ref = pathParts[3];
-      path = pathParts.slice(4).join('/');
+    if (options.recursive) {
+      return toImageEntries(location, await listTreeFiles(location, true), isPrivate);
     }
 
-    let apiUrl = `https://api.github.com/repos/${owner}/${repo}/contents/${path}`;
+    const { owner, repo, ref, path } = location;
+    let apiPath = `/repos/${owner}/${repo}/contents/${path}`;
     if (ref) {
-      apiUrl += `?ref=${ref}`;
+      apiPath += `?ref=${ref}`;
     }
 
-    const response = await fetch(apiUrl);
+    const response = await apiFetch(apiPath);
     
     if (!response.ok) {
-        if (url.includes('/blob/')) {
-            const rawUrl = url.replace('github.com', 'raw.githubusercontent.com').replace('/blob/', '/');
-            return [rawUrl];
-        }
+        if (url.includes('/blob/')) return blobUrlFallback(url);
         throw new Error('Failed to fetch from GitHub API');
     }
 
@@ -48,49 +343,131 @@ export const getImagesFromGitHub = async (url: string): Promise<string[]> => {
 
     if (!Array.isArray(data)) {
       if (data.type === 'file' && isImageFile(data.name)) {
-        return [data.download_url];
+        return toImageEntries(location, [toRepoFile(data)], isPrivate);
       }
       return [];
     }
 
-    const imageUrls = data
-      .filter((file: GitHubFile) => file.type === 'file' && isImageFile(file.name))
-      .map((file: GitHubFile) => file.download_url);
+    // The listing may be cut off; the tree has the full directory
+    if (data.length >= CONTENTS_API_LIMIT) {
+      return toImageEntries(location, await listTreeFiles(location, false), isPrivate);
+    }
 
-    return imageUrls;
+    return toImageEntries(
+      location,
+      (data as GitHubFile[]).filter(file => file.type === 'file').map(toRepoFile),
+      isPrivate
+    );
   } catch (error) {
     console.error("GitHub fetch error:", error);
-    if (url.includes('/blob/')) {
-       return [url.replace('github.com', 'raw.githubusercontent.com').replace('/blob/', '/')];
+    return blobUrlFallback(url);
+  }
+};
+
+// Base64 content of a file through the authenticated Git blob API
+const fetchBlobBase64 = async (blobPath: string): Promise<string> => {
+  const response = await apiFetch(blobPath, {
+    headers: { 'Accept': 'application/vnd.github.v3+json' }
+  });
+  if (!response.ok) throw new Error(`Failed to read file from GitHub: ${response.status}`);
+  const data: { content: string } = await response.json();
+  return data.content.replace(/\n/g, '');
+};
+
+// Sidecars are optional metadata, so any failure just means "no metadata"
+export const fetchSidecar = async (entry: GitHubImageEntry): Promise<Partial<ImageSidecar> | null> => {
+  if (!entry.sidecarUrl) return null;
+  try {
+    let data: any;
+    if (entry.isPrivate && entry.sidecarBlobPath) {
+      const base64 = await fetchBlobBase64(entry.sidecarBlobPath);
+      data = JSON.parse(new TextDecoder().decode(Uint8Array.from(atob(base64), c => c.charCodeAt(0))));
+    } else {
+      const response = await fetch(entry.sidecarUrl);
+      if (!response.ok) return null;
+      data = await response.json();
     }
-    return [];
+    return data && typeof data === 'object' ? data : null;
+  } catch (error) {
+    console.warn("Failed to read sidecar:", entry.sidecarUrl, error);
+    return null;
+  }
+};
+
+export const fetchGitHubBlob = (owner: string, repo: string, sha: string): Promise<string> => {
+  return fetchBlobBase64(`/repos/${owner}/${repo}/git/blobs/${sha}`);
+};
+
+// Raw bytes of a listed file; private repos go through the authenticated blob API
+export const fetchRepoFileBlob = async (owner: string, repo: string, file: GitHubFile): Promise<Blob> => {
+  const { isPrivate } = await getRepoInfo(owner, repo);
+  if (!isPrivate) {
+    const response = await fetch(file.download_url);
+    if (!response.ok) throw new Error(`Failed to download ${file.name}: ${response.status}`);
+    return response.blob();
   }
+
+  const base64 = await fetchGitHubBlob(owner, repo, file.sha);
+  const bytes = Uint8Array.from(atob(base64), c => c.charCodeAt(0));
+  return new Blob([bytes], { type: getMimeTypeFromFileName(file.name) || 'application/octet-stream' });
+};
+
+// Image bytes for entries that can't be shown from their raw URL (private repos)
+export const fetchImageFromGitHub = async (entry: GitHubImageEntry): Promise<{ base64: string; mimeType: string }> => {
+  if (!entry.blobPath) throw new Error(`No blob reference for ${entry.url}`);
+  const base64 = await fetchBlobBase64(entry.blobPath);
+  return { base64, mimeType: getMimeTypeFromFileName(entry.url) || 'image/png' };
 };
 
 // --- Repo Management (Authenticated) ---
 
-export const getRepoFiles = async (token: string, owner: string, repo: string, path: string): Promise<GitHubFile[]> => {
-  const apiUrl = `https://api.github.com/repos/${owner}/${repo}/contents/${path}`;
-  
-  const response = await fetch(apiUrl, {
+// Files directly inside `path`; images only unless `includeAll` is set
+export const getRepoFiles = async (owner: string, repo: string, path: string, includeAll = false): Promise<GitHubFile[]> => {
+  requireGitHubToken();
+  const response = await apiFetch(`/repos/${owner}/${repo}/contents/${path}`, {
     headers: {
-      'Authorization': `token ${token}`,
       'Accept': 'application/vnd.github.v3+json',
     }
   });
 
   if (!response.ok) {
-    throw new Error(`Failed to fetch repo contents: ${response.statusText}`);
+    const error = new Error(`Failed to fetch repo contents: ${response.statusText}`);
+    (error as any).status = response.status;
+    throw error;
   }
 
   const data = await response.json();
   if (!Array.isArray(data)) return []; // Should be a directory listing
 
-  return data.filter((file: any) => file.type === 'file' && isImageFile(file.name));
+  return data.filter((file: any) => file.type === 'file' && (includeAll || isImageFile(file.name)));
+};
+
+// When the file at `path` was first committed. Commits are listed newest first,
+// so with one commit per page the last page holds the oldest.
+const fileAddedCache = new Map<string, Promise<number | null>>();
+
+export const getFileAddedAt = (owner: string, repo: string, path: string): Promise<number | null> => {
+  const key = `${owner}/${repo}/${path}`;
+  if (!fileAddedCache.has(key)) {
+    const base = `/repos/${owner}/${repo}/commits?path=${encodeURIComponent(path)}&per_page=1`;
+    const request = (async () => {
+      let response = await apiFetch(base);
+      if (!response.ok) throw new Error(`Failed to read history of ${path}: ${response.status}`);
+      const lastPage = response.headers.get('Link')?.match(/[?&]page=(\d+)>; rel="last"/)?.[1];
+      if (lastPage) {
+        response = await apiFetch(`${base}&page=${lastPage}`);
+        if (!response.ok) throw new Error(`Failed to read history of ${path}: ${response.status}`);
+      }
+      const commits: { commit: { author: { date: string } } }[] = await response.json();
+      return commits.length > 0 ? Date.parse(commits[0].commit.author.date) : null;
+    })();
+    request.catch(() => fileAddedCache.delete(key));
+    fileAddedCache.set(key, request);
+  }
+  return fileAddedCache.get(key)!;
 };
 
 export const deleteFileFromGitHub = async (
-  token: string, 
   owner: string, 
   repo: string, 
   path: string, 
@@ -101,13 +478,11 @@ export const deleteFileFromGitHub = async (
   // However, for API 'contents/path', the path segments should be encoded. 
   // Since 'path' here usually comes from the API response (e.g. 'folder/my image.png'), 
   // simply wrapping it in encodeURI works for most cases where forward slashes are delimiters.
+  requireGitHubToken();
   const encodedPath = path.split('/').map(segment => encodeURIComponent(segment)).join('/');
-  const apiUrl = `https://api.github.com/repos/${owner}/${repo}/contents/${encodedPath}`;
-  
-  const response = await fetch(apiUrl, {
+  const response = await apiFetch(`/repos/${owner}/${repo}/contents/${encodedPath}`, {
     method: 'DELETE',
     headers: {
-      'Authorization': `token ${token}`,
       'Accept': 'application/vnd.github.v3+json',
       'Content-Type': 'application/json',
     },
@@ -125,7 +500,7 @@ export const deleteFileFromGitHub = async (
 
 // --- Helpers ---
 
-const isImageFile = (filename: string): boolean => {
+export const isImageFile = (filename: string): boolean => {
   const ext = filename.split('.').pop()?.toLowerCase();
   return ['jpg', 'jpeg', 'png', 'gif', 'webp', 'bmp', 'svg'].includes(ext || '');
 };
@@ -145,30 +520,38 @@ export const convertUrlToBase64Simple = async (url: string): Promise<string> =>
   });
 };
 
+// UTF-8 safe base64 for text files (sidecars)
+export const textToBase64 = (text: string): string => {
+  const bytes = new TextEncoder().encode(text);
+  let binary = '';
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary);
+};
+
 export const uploadImageToGitHub = async (
-  token: string,
   owner: string,
   repo: string,
   path: string,
   fileName: string,
-  base64Content: string
+  base64Content: string,
+  // Blob SHA of the file being replaced; required by GitHub to update an existing file
+  sha?: string
 ): Promise<void> => {
+  requireGitHubToken();
   // Fix: Encode filename to handle spaces/special chars in URL
   const encodedFileName = encodeURIComponent(fileName);
   // Fix: Also ensure path is clean if provided
   const encodedPath = path ? path.split('/').map(p => encodeURIComponent(p)).join('/') + '/' : '';
   
-  const apiUrl = `https://api.github.com/repos/${owner}/${repo}/contents/${encodedPath}${encodedFileName}`;
-  
   const body = {
-    message: `Add ${fileName} via LuminaView`,
+    message: `${sha ? 'Update' : 'Add'} ${fileName} via LuminaView`,
     content: base64Content,
+    ...(sha ? { sha } : {}),
   };
 
-  const response = await fetch(apiUrl, {
+  const response = await apiFetch(`/repos/${owner}/${repo}/contents/${encodedPath}${encodedFileName}`, {
     method: 'PUT',
     headers: {
-      'Authorization': `token ${token}`,
       'Content-Type': 'application/json',
       'Accept': 'application/vnd.github.v3+json',
     },
@@ -179,4 +562,166 @@ export const uploadImageToGitHub = async (
     const err = await response.json();
     throw new Error(err.message || 'Failed to upload to GitHub');
   }
-};
\ No newline at end of file
+};
+
+// --- Batch Commits (Git Data API) ---
+//
+// Builds one tree containing every change and moves the branch ref once, so a
+// whole export or cleanup lands as a single commit. Nothing is visible in the
+// repo until the final ref update, which makes a failed batch all-or-nothing.
+
+export interface BatchFileChange {
+  path: string;
+  // Base64 content to write, or null to delete the file
+  base64Content: string | null;
+  // Place an existing blob at `path` instead (moves, restores); no upload needed
+  blobSha?: string;
+}
+
+export interface BatchCommitProgress {
+  phase: 'prepare' | 'blobs' | 'tree' | 'commit' | 'ref';
+  done: number;
+  total: number;
+}
+
+export interface BatchCommitOptions {
+  // Defaults to the repository's default branch
+  branch?: string;
+  // Blob SHAs already uploaded by an earlier, interrupted attempt (path -> sha)
+  knownBlobs?: Record<string, string>;
+  // Called after each blob upload so the caller can record it for resuming
+  onBlobCreated?: (path: string, sha: string) => void;
+  // Stops between blob uploads; nothing is committed once aborted
+  signal?: AbortSignal;
+}
+
+export interface BatchCommitResult {
+  commitSha: string;
+  branch: string;
+  fileCount: number;
+}
+
+const GIT_HEADERS = {
+  'Accept': 'application/vnd.github.v3+json',
+  'Content-Type': 'application/json',
+};
+
+const gitApi = async <T>(path: string, method: string = 'GET', body?: unknown): Promise<T> => {
+  const response = await apiFetch(path, {
+    method,
+    headers: GIT_HEADERS,
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    const err = await response.json().catch(() => ({}));
+    const error = new Error(err.message || `GitHub request failed: ${response.status}`);
+    (error as any).status = response.status;
+    throw error;
+  }
+  return response.json();
+};
+
+export const commitFilesToGitHub = async (
+  owner: string,
+  repo: string,
+  changes: BatchFileChange[],
+  message: string,
+  onProgress?: (progress: BatchCommitProgress) => void,
+  options: BatchCommitOptions = {}
+): Promise<BatchCommitResult> => {
+  const { branch, knownBlobs = {}, onBlobCreated, signal } = options;
+  if (changes.length === 0) throw new Error('Nothing to commit');
+  requireGitHubToken();
+  const repoPath = `/repos/${owner}/${repo}`;
+
+  // 1. Resolve branch
+  onProgress?.({ phase: 'prepare', done: 0, total: changes.length });
+  const targetBranch = branch || (await gitApi<{ default_branch: string }>(repoPath)).default_branch;
+
+  // 2. Upload blobs for new/updated files (deletions need no blob)
+  const treeEntries: { path: string; mode: '100644'; type: 'blob'; sha: string | null }[] = [];
+  const uploads = changes.filter(c => !c.blobSha && c.base64Content !== null);
+  let uploaded = 0;
+
+  for (const change of changes) {
+    if (change.blobSha) {
+      treeEntries.push({ path: change.path, mode: '100644', type: 'blob', sha: change.blobSha });
+      continue;
+    }
+    if (change.base64Content === null) {
+      treeEntries.push({ path: change.path, mode: '100644', type: 'blob', sha: null });
+      continue;
+    }
+    if (signal?.aborted) throw new Error('Export cancelled');
+
+    let sha = knownBlobs[change.path];
+    if (!sha) {
+      const blob = await gitApi<{ sha: string }>(`${repoPath}/git/blobs`, 'POST', {
+        content: change.base64Content,
+        encoding: 'base64',
+      });
+      sha = blob.sha;
+      onBlobCreated?.(change.path, sha);
+    }
+    treeEntries.push({ path: change.path, mode: '100644', type: 'blob', sha });
+    uploaded++;
+    onProgress?.({ phase: 'blobs', done: uploaded, total: uploads.length });
+  }
+
+  if (signal?.aborted) throw new Error('Export cancelled');
+
+  // 3-5. Tree + commit on top of the current head; retried once if the branch moved meanwhile
+  const attemptCommit = async (isRetry: boolean): Promise<string> => {
+    const ref = await gitApi<{ object: { sha: string } }>(`${repoPath}/git/ref/heads/${targetBranch}`);
+    const headSha = ref.object.sha;
+    const head = await gitApi<{ tree: { sha: string } }>(`${repoPath}/git/commits/${headSha}`);
+
+    // The push we raced may have deleted files too; deleting a missing path is a 422
+    let entries = treeEntries;
+    if (isRetry && entries.some(entry => entry.sha === null)) {
+      const base = await gitApi<{ tree: { path: string }[]; truncated: boolean }>(`${repoPath}/git/trees/${head.tree.sha}?recursive=1`);
+      if (!base.truncated) {
+        const present = new Set(base.tree.map(entry => entry.path));
+        entries = entries.filter(entry => entry.sha !== null || present.has(entry.path));
+      }
+    }
+
+    onProgress?.({ phase: 'tree', done: 0, total: 1 });
+    const tree = await gitApi<{ sha: string }>(`${repoPath}/git/trees`, 'POST', {
+      base_tree: head.tree.sha,
+      tree: entries,
+    });
+
+    onProgress?.({ phase: 'commit', done: 0, total: 1 });
+    const commit = await gitApi<{ sha: string }>(`${repoPath}/git/commits`, 'POST', {
+      message,
+      tree: tree.sha,
+      parents: [headSha],
+    });
+
+    onProgress?.({ phase: 'ref', done: 0, total: 1 });
+    try {
+      await gitApi(`${repoPath}/git/refs/heads/${targetBranch}`, 'PATCH', {
+        sha: commit.sha,
+        force: false,
+      });
+    } catch (error: any) {
+      error.isRefUpdate = true;
+      throw error;
+    }
+    return commit.sha;
+  };
+
+  let commitSha: string;
+  try {
+    commitSha = await attemptCommit(false);
+  } catch (error: any) {
+    // 422 on the ref update means someone pushed in between (not a fast-forward).
+    // A 422 from the tree or commit is bad input and would fail again.
+    if (error.status !== 422 || !error.isRefUpdate) throw error;
+    commitSha = await attemptCommit(true);
+  }
+
+  return { commitSha, branch: targetBranch, fileCount: changes.length };
+};
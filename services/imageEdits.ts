@@ -0,0 +1,172 @@
+import { ImageEdit, ImageItem } from '../types';
+
+// --- Non-destructive image edits ---
+//
+// The original file is never touched. Its edit stack is replayed on a canvas
+// whenever the edited version is shown, and only baked into pixels when the
+// result is saved as a new image.
+
+// Same presets as the generator
+export const CROP_PRESETS: { value: string; ratio: number }[] = [
+  { value: '1:1', ratio: 1 },
+  { value: '16:9', ratio: 16 / 9 },
+  { value: '9:16', ratio: 9 / 16 },
+];
+
+export const NEUTRAL_ADJUST = { exposure: 0, contrast: 0, saturation: 0 };
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(width));
+  canvas.height = Math.max(1, Math.round(height));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not available');
+  ctx.imageSmoothingQuality = 'high';
+  return { canvas, ctx };
+};
+
+// Largest rectangle of the aspect ratio that fits, slid along the free axis
+// by `position` (0 = left/top, 0.5 = centered, 1 = right/bottom)
+export const aspectCrop = (aspect: string, width: number, height: number, position = 0.5): Extract<ImageEdit, { type: 'crop' }> => {
+  const ratio = CROP_PRESETS.find(p => p.value === aspect)?.ratio || 1;
+  const current = width / height;
+  const cropWidth = current > ratio ? ratio / current : 1;
+  const cropHeight = current > ratio ? 1 : current / ratio;
+  return {
+    type: 'crop',
+    aspect,
+    x: (1 - cropWidth) * position,
+    y: (1 - cropHeight) * position,
+    width: cropWidth,
+    height: cropHeight,
+  };
+};
+
+const clampByte = (v: number) => v < 0 ? 0 : v > 255 ? 255 : v;
+
+const adjustPixels = (ctx: CanvasRenderingContext2D, width: number, height: number, edit: Extract<ImageEdit, { type: 'adjust' }>) => {
+  const imageData = ctx.getImageData(0, 0, width, height);
+  const data = imageData.data;
+  const gain = Math.pow(2, edit.exposure);
+  const contrast = 1 + edit.contrast / 100;
+  const saturation = 1 + edit.saturation / 100;
+
+  for (let i = 0; i < data.length; i += 4) {
+    let r = data[i] * gain;
+    let g = data[i + 1] * gain;
+    let b = data[i + 2] * gain;
+    r = (r - 128) * contrast + 128;
+    g = (g - 128) * contrast + 128;
+    b = (b - 128) * contrast + 128;
+    const luma = 0.299 * r + 0.587 * g + 0.114 * b;
+    data[i] = clampByte(luma + (r - luma) * saturation);
+    data[i + 1] = clampByte(luma + (g - luma) * saturation);
+    data[i + 2] = clampByte(luma + (b - luma) * saturation);
+  }
+  ctx.putImageData(imageData, 0, 0);
+};
+
+const applyEdit = (source: HTMLCanvasElement, edit: ImageEdit): HTMLCanvasElement => {
+  const { width, height } = source;
+
+  switch (edit.type) {
+    case 'crop': {
+      const { canvas, ctx } = createCanvas(width * edit.width, height * edit.height);
+      ctx.drawImage(source, width * edit.x, height * edit.y, width * edit.width, height * edit.height, 0, 0, canvas.width, canvas.height);
+      return canvas;
+    }
+    case 'rotate': {
+      const quarter = edit.degrees !== 180;
+      const { canvas, ctx } = createCanvas(quarter ? height : width, quarter ? width : height);
+      ctx.translate(canvas.width / 2, canvas.height / 2);
+      ctx.rotate((edit.degrees * Math.PI) / 180);
+      ctx.drawImage(source, -width / 2, -height / 2);
+      return canvas;
+    }
+    case 'flip': {
+      const { canvas, ctx } = createCanvas(width, height);
+      if (edit.axis === 'horizontal') {
+        ctx.translate(width, 0);
+        ctx.scale(-1, 1);
+      } else {
+        ctx.translate(0, height);
+        ctx.scale(1, -1);
+      }
+      ctx.drawImage(source, 0, 0);
+      return canvas;
+    }
+    case 'adjust': {
+      const { canvas, ctx } = createCanvas(width, height);
+      ctx.drawImage(source, 0, 0);
+      adjustPixels(ctx, canvas.width, canvas.height, edit);
+      return canvas;
+    }
+    case 'resize': {
+      const { canvas, ctx } = createCanvas(edit.width, edit.height);
+      ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+      return canvas;
+    }
+  }
+};
+
+// The original pixels. Fails for remote images whose host doesn't allow CORS.
+export const loadEditSource = async (image: ImageItem): Promise<HTMLCanvasElement> => {
+  let blob: Blob;
+  if (image.base64Data) {
+    const bytes = Uint8Array.from(atob(image.base64Data), c => c.charCodeAt(0));
+    blob = new Blob([bytes], { type: image.mimeType || 'image/png' });
+  } else {
+    const response = await fetch(image.url);
+    if (!response.ok) throw new Error(`Failed to download image: ${response.status}`);
+    blob = await response.blob();
+  }
+
+  const bitmap = await createImageBitmap(blob);
+  try {
+    const { canvas, ctx } = createCanvas(bitmap.width, bitmap.height);
+    ctx.drawImage(bitmap, 0, 0);
+    return canvas;
+  } finally {
+    bitmap.close();
+  }
+};
+
+export const renderEdits = (source: HTMLCanvasElement, edits: ImageEdit[]): HTMLCanvasElement => {
+  return edits.reduce(applyEdit, source);
+};
+
+// Formats the canvas can't encode fall back to PNG
+export const canvasToImageData = (canvas: HTMLCanvasElement, mimeType = 'image/png'): { base64: string; mimeType: string } => {
+  const type = ['image/png', 'image/jpeg', 'image/webp'].includes(mimeType) ? mimeType : 'image/png';
+  const dataUrl = canvas.toDataURL(type, 0.92);
+  return { base64: dataUrl.split(',')[1], mimeType: type };
+};
+
+export const describeEdit = (edit: ImageEdit): string => {
+  switch (edit.type) {
+    case 'crop': return `Crop ${edit.aspect}`;
+    case 'rotate': return `Rotate ${edit.degrees}°`;
+    case 'flip': return edit.axis === 'horizontal' ? 'Flip horizontal' : 'Flip vertical';
+    case 'adjust': {
+      const parts = [
+        edit.exposure && `exposure ${edit.exposure > 0 ? '+' : ''}${edit.exposure.toFixed(1)}`,
+        edit.contrast && `contrast ${edit.contrast > 0 ? '+' : ''}${edit.contrast}`,
+        edit.saturation && `saturation ${edit.saturation > 0 ? '+' : ''}${edit.saturation}`,
+      ].filter(Boolean);
+      return `Adjust ${parts.join(', ') || '(none)'}`;
+    }
+    case 'resize': return `Resize to ${edit.width}×${edit.height}`;
+  }
+};
+
+// Pixel size after the edits, without rendering them
+export const editedSize = (width: number, height: number, edits: ImageEdit[]): { width: number; height: number } => {
+  return edits.reduce((size, edit) => {
+    switch (edit.type) {
+      case 'crop': return { width: Math.round(size.width * edit.width), height: Math.round(size.height * edit.height) };
+      case 'rotate': return edit.degrees === 180 ? size : { width: size.height, height: size.width };
+      case 'resize': return { width: edit.width, height: edit.height };
+      default: return size;
+    }
+  }, { width, height });
+};
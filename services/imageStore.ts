@@ -0,0 +1,179 @@
+import { ImageItem } from '../types';
+import { openDb, requestToPromise, transactionDone, IMAGES_STORE, BLOBS_STORE } from './db';
+
+// --- IndexedDB-backed persistence for the gallery ---
+//
+// Two object stores are used (see db.ts):
+// - 'images': ImageItem metadata (without the heavy base64 payload)
+// - 'blobs':  binary image data keyed by image id
+//
+// Data URLs are rebuilt from the blob on load, so nothing is stored twice.
+
+// Bump this when ImageItem gains fields that need defaults on old records,
+// and add a matching step to `upgradeRecord`.
+export const IMAGE_SCHEMA_VERSION = 1;
+
+interface StoredImage extends Omit<ImageItem, 'base64Data'> {
+  schemaVersion: number;
+  hasBlob: boolean;
+}
+
+interface StoredBlob {
+  id: string;
+  blob: Blob;
+}
+
+// Fill in defaults for records written by older versions of the app
+const upgradeRecord = (record: StoredImage): StoredImage => {
+  let upgraded = { ...record };
+  const from = upgraded.schemaVersion || 0;
+
+  if (from < 1) {
+    upgraded = {
+      ...upgraded,
+      source: upgraded.source || 'url',
+      createdAt: upgraded.createdAt || Date.now(),
+      hasBlob: !!upgraded.hasBlob,
+    };
+  }
+
+  upgraded.schemaVersion = IMAGE_SCHEMA_VERSION;
+  return upgraded;
+};
+
+// --- Helpers ---
+
+const base64ToBlob = (base64: string, mimeType: string): Blob => {
+  const binaryString = atob(base64);
+  const bytes = new Uint8Array(binaryString.length);
+  for (let i = 0; i < binaryString.length; i++) {
+    bytes[i] = binaryString.charCodeAt(i);
+  }
+  return new Blob([bytes], { type: mimeType });
+};
+
+const blobToBase64 = (blob: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => {
+      const base64String = reader.result as string;
+      resolve(base64String.split(',')[1]);
+    };
+    reader.onerror = reject;
+    reader.readAsDataURL(blob);
+  });
+};
+
+const toStored = (image: ImageItem): { record: StoredImage; blob?: StoredBlob } => {
+  const { base64Data, ...rest } = image;
+  const record: StoredImage = {
+    ...rest,
+    schemaVersion: IMAGE_SCHEMA_VERSION,
+    hasBlob: !!base64Data,
+  };
+
+  if (!base64Data) return { record };
+
+  const mimeType = image.mimeType || 'image/png';
+  // Data URLs are rebuilt from the blob on load
+  if (record.url.startsWith('data:')) record.url = '';
+  if (record.thumbnailUrl?.startsWith('data:')) record.thumbnailUrl = '';
+
+  return { record, blob: { id: image.id, blob: base64ToBlob(base64Data, mimeType) } };
+};
+
+const fromStored = async (record: StoredImage, blob?: StoredBlob): Promise<ImageItem> => {
+  const { schemaVersion, hasBlob, ...image } = upgradeRecord(record);
+
+  if (!hasBlob || !blob) return image;
+
+  const base64Data = await blobToBase64(blob.blob);
+  const mimeType = image.mimeType || blob.blob.type || 'image/png';
+  const dataUrl = `data:${mimeType};base64,${base64Data}`;
+
+  return {
+    ...image,
+    url: image.url || dataUrl,
+    thumbnailUrl: image.thumbnailUrl || dataUrl,
+    base64Data,
+    mimeType,
+  };
+};
+
+// --- Public API ---
+
+// Load every stored image, newest first
+export const loadImages = async (): Promise<ImageItem[]> => {
+  const db = await openDb();
+  const tx = db.transaction([IMAGES_STORE, BLOBS_STORE], 'readonly');
+  const [records, blobs] = await Promise.all([
+    requestToPromise(tx.objectStore(IMAGES_STORE).getAll() as IDBRequest<StoredImage[]>),
+    requestToPromise(tx.objectStore(BLOBS_STORE).getAll() as IDBRequest<StoredBlob[]>),
+  ]);
+
+  const blobMap = new Map(blobs.map(b => [b.id, b]));
+  const images = await Promise.all(records.map(r => fromStored(r, blobMap.get(r.id))));
+  return images.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const saveImages = async (images: ImageItem[]): Promise<void> => {
+  if (images.length === 0) return;
+
+  const db = await openDb();
+  const tx = db.transaction([IMAGES_STORE, BLOBS_STORE], 'readwrite');
+  const imageStore = tx.objectStore(IMAGES_STORE);
+  const blobStore = tx.objectStore(BLOBS_STORE);
+
+  images.forEach(image => {
+    const { record, blob } = toStored(image);
+    imageStore.put(record);
+    if (blob) {
+      blobStore.put(blob);
+    } else {
+      blobStore.delete(image.id);
+    }
+  });
+
+  await transactionDone(tx);
+};
+
+export const deleteImages = async (ids: string[]): Promise<void> => {
+  if (ids.length === 0) return;
+
+  const db = await openDb();
+  const tx = db.transaction([IMAGES_STORE, BLOBS_STORE], 'readwrite');
+  ids.forEach(id => {
+    tx.objectStore(IMAGES_STORE).delete(id);
+    tx.objectStore(BLOBS_STORE).delete(id);
+  });
+
+  await transactionDone(tx);
+};
+
+// Persist the difference between two gallery snapshots.
+// Items are compared by reference, so any immutable state update is picked up.
+export const persistImageChanges = async (prev: ImageItem[], next: ImageItem[]): Promise<void> => {
+  const prevMap = new Map(prev.map(img => [img.id, img]));
+  const nextIds = new Set(next.map(img => img.id));
+
+  const changed = next.filter(img => prevMap.get(img.id) !== img);
+  const removed = prev.filter(img => !nextIds.has(img.id)).map(img => img.id);
+
+  await Promise.all([saveImages(changed), deleteImages(removed)]);
+};
+
+// The address an image was loaded from, even when it is displayed from a local copy
+export const getRemoteUrl = (image: ImageItem): string => image.sourceUrl || image.url;
+
+// Merge persisted images with a fresh remote listing, skipping remote URLs already stored
+export const mergeWithRemote = (stored: ImageItem[], remote: ImageItem[]): ImageItem[] => {
+  const knownUrls = new Set(stored.map(getRemoteUrl));
+  const remoteByUrl = new Map(remote.map(img => [getRemoteUrl(img), img]));
+
+  // Images saved before folders were tracked pick up their folder from the listing
+  const updated = stored.map(img => {
+    const folderPath = remoteByUrl.get(getRemoteUrl(img))?.folderPath;
+    return folderPath !== undefined && img.folderPath === undefined ? { ...img, folderPath } : img;
+  });
+  return [...updated, ...remote.filter(img => !knownUrls.has(getRemoteUrl(img)))];
+};
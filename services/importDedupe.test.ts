@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import { ImageItem } from '../types';
+import { needsFingerprint, planImport } from './importDedupe';
+
+const image = (id: string, fields: Partial<ImageItem> = {}): ImageItem => ({
+  id,
+  url: `https://example.com/${id}.png`,
+  title: id,
+  createdAt: 0,
+  source: 'url',
+  ...fields,
+});
+
+const ids = (images: ImageItem[]) => images.map(img => img.id);
+
+// Existing gallery: one exact copy target, one near-copy target
+const existing = [
+  image('old-exact', { contentHash: 'aaa', perceptualHash: '0000000000000000', tags: ['beach'] }),
+  image('old-similar', { contentHash: 'bbb', perceptualHash: 'ffffffffffffffff' }),
+];
+
+const incoming = [
+  image('new-exact', { contentHash: 'aaa', perceptualHash: '0000000000000000', tags: ['sunset'] }),
+  image('new-similar', { contentHash: 'ccc', perceptualHash: 'fffffffffffffff0' }), // 4 bits off
+  image('new-unique', { contentHash: 'ddd', perceptualHash: '00000000ffffffff' }),
+];
+
+describe('planImport', () => {
+  it('skips duplicates by default and reports how they matched', () => {
+    const plan = planImport(incoming, existing, 'skip');
+
+    expect(ids(plan.added)).toEqual(['new-unique']);
+    expect(plan.replaced).toEqual([]);
+    expect(plan.skipped.map(match => [match.image.id, match.duplicateOf.id, match.kind])).toEqual([
+      ['new-exact', 'old-exact', 'identical'],
+      ['new-similar', 'old-similar', 'similar'],
+    ]);
+    expect(plan.duplicates).toEqual(plan.skipped);
+  });
+
+  it('adds duplicates too under keep-both', () => {
+    const plan = planImport(incoming, existing, 'keep-both');
+
+    expect(ids(plan.added)).toEqual(['new-exact', 'new-similar', 'new-unique']);
+    expect(plan.skipped).toEqual([]);
+    expect(plan.duplicates).toHaveLength(2);
+  });
+
+  it('replaces existing images in place, keeping their id and tags', () => {
+    const plan = planImport(incoming, existing, 'replace');
+
+    expect(ids(plan.added)).toEqual(['new-unique']);
+    expect(plan.replaced.map(img => [img.id, img.url, img.tags])).toEqual([
+      ['old-exact', 'https://example.com/new-exact.png', ['beach', 'sunset']],
+      ['old-similar', 'https://example.com/new-similar.png', []],
+    ]);
+  });
+
+  it('replaces an existing image only once and skips the other copies', () => {
+    const copies = [image('first', { contentHash: 'aaa' }), image('second', { contentHash: 'aaa' })];
+    const plan = planImport(copies, existing, 'replace');
+
+    expect(ids(plan.replaced)).toEqual(['old-exact']);
+    expect(plan.skipped.map(match => match.image.id)).toEqual(['second']);
+  });
+
+  it('catches duplicates within the batch itself', () => {
+    const batch = [image('one', { contentHash: 'zzz' }), image('two', { contentHash: 'zzz' })];
+
+    expect(ids(planImport(batch, [], 'skip').added)).toEqual(['one']);
+    expect(ids(planImport(batch, [], 'keep-both').added)).toEqual(['one', 'two']);
+    // There is nothing in the gallery to replace, so the copy is dropped
+    const replaced = planImport(batch, [], 'replace');
+    expect(ids(replaced.added)).toEqual(['one']);
+    expect(replaced.skipped.map(match => match.image.id)).toEqual(['two']);
+  });
+
+  it('matches by URL when an image could not be fingerprinted', () => {
+    const unreadable = image('again', { url: existing[1].url, fingerprintFailed: true });
+    const plan = planImport([unreadable], existing, 'skip');
+
+    expect(plan.skipped.map(match => [match.duplicateOf.id, match.kind])).toEqual([['old-similar', 'identical']]);
+  });
+
+  it('treats images further apart than the import threshold as different', () => {
+    const distant = image('distant', { contentHash: 'eee', perceptualHash: 'ffffffffffffff00' }); // 8 bits off
+    expect(ids(planImport([distant], existing, 'skip').added)).toEqual(['distant']);
+  });
+});
+
+describe('needsFingerprint', () => {
+  it('is false once hashed or once hashing failed', () => {
+    expect(needsFingerprint(image('a'))).toBe(true);
+    expect(needsFingerprint(image('a', { contentHash: 'aaa' }))).toBe(false);
+    expect(needsFingerprint(image('a', { fingerprintFailed: true }))).toBe(false);
+  });
+});
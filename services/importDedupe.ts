@@ -0,0 +1,152 @@
+import { ImageItem, ImportDuplicatePolicy } from '../types';
+import { hashImage, hammingDistance } from './perceptualHash';
+import { mergeTags } from './tags';
+
+// --- Duplicate detection for new imports ---
+//
+// Every imported image is fingerprinted with a SHA-256 of its bytes (exact
+// copies) and a pHash (re-encoded or resized copies). New images are checked
+// against the gallery and against each other before they are added.
+
+const POLICY_STORAGE_KEY = 'luminaview.importDuplicatePolicy';
+
+// Stricter than the repo cleanup default: an import should only be held back
+// when it is almost certainly the same picture
+const IMPORT_HASH_THRESHOLD = 4;
+
+// Downloads and decodes running at once while fingerprinting
+const FINGERPRINT_CONCURRENCY = 4;
+
+export const DUPLICATE_POLICIES: { value: ImportDuplicatePolicy; label: string }[] = [
+  { value: 'skip', label: 'Skip duplicates' },
+  { value: 'keep-both', label: 'Keep both' },
+  { value: 'replace', label: 'Replace existing' },
+];
+
+export interface DuplicateMatch {
+  image: ImageItem;
+  duplicateOf: ImageItem;
+  kind: 'identical' | 'similar';
+}
+
+export interface ImportPlan {
+  // New gallery entries
+  added: ImageItem[];
+  // Imports that take the place of an existing image (same id as the one replaced)
+  replaced: ImageItem[];
+  skipped: DuplicateMatch[];
+  // Every duplicate found, whatever the policy did with it
+  duplicates: DuplicateMatch[];
+}
+
+export const loadImportPolicy = (): ImportDuplicatePolicy => {
+  try {
+    const stored = localStorage.getItem(POLICY_STORAGE_KEY);
+    return DUPLICATE_POLICIES.some(p => p.value === stored) ? stored as ImportDuplicatePolicy : 'skip';
+  } catch (error) {
+    return 'skip';
+  }
+};
+
+export const saveImportPolicy = (policy: ImportDuplicatePolicy) => {
+  try {
+    localStorage.setItem(POLICY_STORAGE_KEY, policy);
+  } catch (error) {
+    console.warn("Failed to save import policy:", error);
+  }
+};
+
+// --- Fingerprints ---
+
+const getImageBlob = async (image: ImageItem): Promise<Blob> => {
+  if (image.base64Data) {
+    const bytes = Uint8Array.from(atob(image.base64Data), c => c.charCodeAt(0));
+    return new Blob([bytes], { type: image.mimeType || 'image/png' });
+  }
+  const response = await fetch(image.url);
+  if (!response.ok) throw new Error(`Failed to download ${image.url}: ${response.status}`);
+  return response.blob();
+};
+
+const sha256Hex = async (blob: Blob): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer());
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+// Whether the image still has to be hashed. Failures are not retried.
+export const needsFingerprint = (image: ImageItem): boolean => !image.contentHash && !image.fingerprintFailed;
+
+// Adds missing hashes. Images that can't be read (CORS, offline) are marked
+// as failed and are only compared by URL.
+export const withFingerprint = async (image: ImageItem): Promise<ImageItem> => {
+  if (!needsFingerprint(image)) return image;
+  try {
+    const blob = await getImageBlob(image);
+    const contentHash = image.contentHash || await sha256Hex(blob);
+    // Formats the canvas can't decode (e.g. some SVGs) still get an exact hash
+    const perceptualHash = image.perceptualHash || await hashImage(blob).then(h => h.hashes.phash, () => undefined);
+    return { ...image, contentHash, perceptualHash };
+  } catch (error) {
+    console.warn(`Could not fingerprint ${image.title}`, error);
+    return { ...image, fingerprintFailed: true };
+  }
+};
+
+// withFingerprint over a list, a few at a time, results in input order
+export const fingerprintImages = async (images: ImageItem[]): Promise<ImageItem[]> => {
+  const results: ImageItem[] = [...images];
+  let next = 0;
+  const worker = async () => {
+    while (next < images.length) {
+      const i = next++;
+      results[i] = await withFingerprint(images[i]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(FINGERPRINT_CONCURRENCY, images.length) }, worker));
+  return results;
+};
+
+const findDuplicate = (image: ImageItem, pool: ImageItem[]): DuplicateMatch | null => {
+  let similar: ImageItem | null = null;
+
+  for (const other of pool) {
+    if (other.url === image.url || (image.contentHash && other.contentHash === image.contentHash)) {
+      return { image, duplicateOf: other, kind: 'identical' };
+    }
+    if (!similar && image.perceptualHash && other.perceptualHash &&
+        hammingDistance(image.perceptualHash, other.perceptualHash) <= IMPORT_HASH_THRESHOLD) {
+      similar = other;
+    }
+  }
+  return similar ? { image, duplicateOf: similar, kind: 'similar' } : null;
+};
+
+// Decide what happens to each incoming image. Incoming images must be
+// fingerprinted; existing ones are compared by whatever hashes they have stored.
+export const planImport = (incoming: ImageItem[], existing: ImageItem[], policy: ImportDuplicatePolicy): ImportPlan => {
+  const plan: ImportPlan = { added: [], replaced: [], skipped: [], duplicates: [] };
+  const replacedIds = new Set<string>();
+
+  for (const image of incoming) {
+    // Earlier images of the same batch count too
+    const match = findDuplicate(image, [...existing, ...plan.added]);
+    if (!match) {
+      plan.added.push(image);
+      continue;
+    }
+
+    plan.duplicates.push(match);
+    const isExisting = existing.includes(match.duplicateOf);
+    if (policy === 'keep-both') {
+      plan.added.push(image);
+    } else if (policy === 'replace' && isExisting && !replacedIds.has(match.duplicateOf.id)) {
+      replacedIds.add(match.duplicateOf.id);
+      // Keep the id (album membership) and the labels given to the old copy
+      plan.replaced.push({ ...image, id: match.duplicateOf.id, tags: mergeTags(match.duplicateOf.tags, image.tags) });
+    } else {
+      // Duplicates within the batch itself are always skipped under 'replace'
+      plan.skipped.push(match);
+    }
+  }
+  return plan;
+};
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { descriptiveScore, KeepCandidate, KeepContext, rankForKeeping } from './keepStrategy';
+
+const candidate = (path: string, fields: Partial<KeepCandidate> = {}): KeepCandidate => ({
+  path,
+  name: path.split('/').pop()!,
+  size: 1000,
+  ...fields,
+});
+
+const context = (changes: Partial<KeepContext> = {}): KeepContext => ({ preferredFolder: '', addedAt: new Map(), ...changes });
+
+const paths = (files: KeepCandidate[]) => files.map(file => file.path);
+
+describe('rankForKeeping', () => {
+  it('breaks ties by shortest path, then alphabetically', () => {
+    const files = [candidate('b/long-name.png'), candidate('b/zz.png'), candidate('a/zz.png')];
+    expect(paths(rankForKeeping(files, 'shortest-path', context()))).toEqual(['a/zz.png', 'b/zz.png', 'b/long-name.png']);
+  });
+
+  it('keeps the most pixels, then the largest file', () => {
+    const files = [
+      candidate('small.png', { image: { width: 100, height: 100 }, size: 9000 }),
+      candidate('big-light.png', { image: { width: 200, height: 200 }, size: 1000 }),
+      candidate('big-heavy.png', { image: { width: 200, height: 200 }, size: 2000 }),
+      candidate('unknown.png'),
+    ];
+    expect(paths(rankForKeeping(files, 'best-quality', context()))).toEqual(['big-heavy.png', 'big-light.png', 'small.png', 'unknown.png']);
+  });
+
+  it('keeps the oldest commit, with unknown dates last and ties by path', () => {
+    const addedAt = new Map<string, number | null>([['new.png', 200], ['old-b.png', 100], ['old-a.png', 100], ['lost.png', null]]);
+    const files = ['lost.png', 'new.png', 'old-b.png', 'old-a.png', 'x.png'].map(path => candidate(path));
+
+    expect(paths(rankForKeeping(files, 'oldest-commit', context({ addedAt })))).toEqual(['old-a.png', 'old-b.png', 'new.png', 'x.png', 'lost.png']);
+  });
+
+  it('prefers files inside the preferred folder, not ones that merely share its prefix', () => {
+    const files = [candidate('a.png'), candidate('keepers-old/a.png'), candidate('keepers/deep/a.png'), candidate('keepers/a.png')];
+    expect(paths(rankForKeeping(files, 'preferred-folder', context({ preferredFolder: '/keepers/' }))))
+      .toEqual(['keepers/a.png', 'keepers/deep/a.png', 'a.png', 'keepers-old/a.png']);
+  });
+
+  it('falls back to path order when no preferred folder is set', () => {
+    const files = [candidate('keepers/a.png'), candidate('a.png')];
+    expect(paths(rankForKeeping(files, 'preferred-folder', context()))).toEqual(['a.png', 'keepers/a.png']);
+  });
+
+  it('keeps the most descriptive name', () => {
+    const files = [candidate('IMG_2041.jpg'), candidate('sunset copy.jpg'), candidate('sunset-over-the-bay.jpg'), candidate('3f2a9c1b7d4e5f60.jpg')];
+    expect(paths(rankForKeeping(files, 'descriptive-name', context()))[0]).toBe('sunset-over-the-bay.jpg');
+  });
+
+  it('does not change the input order', () => {
+    const files = [candidate('bb.png'), candidate('a.png')];
+    rankForKeeping(files, 'shortest-path', context());
+    expect(paths(files)).toEqual(['bb.png', 'a.png']);
+  });
+});
+
+describe('descriptiveScore', () => {
+  it('penalises camera names, hashes and copy markers', () => {
+    expect(descriptiveScore('quiet-harbour-dawn.jpg')).toBe(3);
+    expect(descriptiveScore('IMG_2041.jpg')).toBe(-1);
+    expect(descriptiveScore('3f2a9c1b7d4e5f60.jpg')).toBe(-3);
+    expect(descriptiveScore('harbour (2).jpg')).toBe(-1);
+  });
+});
@@ -0,0 +1,77 @@
+// --- Which copy of a duplicate group to keep ---
+//
+// Every strategy orders a group so the file to keep comes first. Ties fall
+// back to the shortest path, then alphabetical order, so the result is stable.
+
+export type KeepStrategy = 'shortest-path' | 'best-quality' | 'oldest-commit' | 'preferred-folder' | 'descriptive-name';
+
+export const KEEP_STRATEGIES: { value: KeepStrategy; label: string }[] = [
+  { value: 'shortest-path', label: 'Shortest path' },
+  { value: 'best-quality', label: 'Highest resolution' },
+  { value: 'oldest-commit', label: 'Oldest commit' },
+  { value: 'preferred-folder', label: 'Preferred folder' },
+  { value: 'descriptive-name', label: 'Most descriptive name' },
+];
+
+export interface KeepCandidate {
+  path: string;
+  name: string;
+  size: number;
+  // Pixel size, known for downloaded images
+  image?: { width: number; height: number };
+}
+
+export interface KeepContext {
+  preferredFolder: string;
+  // First commit time per path, for 'oldest-commit'; unknown paths go last
+  addedAt: Map<string, number | null>;
+}
+
+// Names like "IMG_2041", "DSC00012", "Screenshot 2026-01-02" or a bare hash say nothing about the picture
+const GENERIC_NAME = /^(img|dsc|dscn|pxl|photo|image|screenshot|untitled)[\s_-]*\d*/i;
+const COPY_MARKER = /(copy|kopie|\(\d+\)|[\s_-]\d{1,2}$)/i;
+const HASH_LIKE = /^[0-9a-f-]{12,}$/i;
+
+// Higher is better: words with letters count, camera names, hashes and copy markers cost
+export const descriptiveScore = (fileName: string): number => {
+  const base = fileName.replace(/\.[^.]+$/, '');
+  const words = base.split(/[\s_.-]+/).filter(word => /[a-z]{3,}/i.test(word));
+  let score = words.length;
+  if (GENERIC_NAME.test(base)) score -= 2;
+  if (HASH_LIKE.test(base)) score -= 3;
+  if (COPY_MARKER.test(base)) score -= 2;
+  return score;
+};
+
+const byShortestPath = (a: KeepCandidate, b: KeepCandidate) =>
+  (a.path.length - b.path.length) || a.path.localeCompare(b.path);
+
+const isInFolder = (path: string, folder: string) => {
+  const prefix = folder.trim().replace(/^\/+|\/+$/g, '');
+  return !!prefix && path.startsWith(`${prefix}/`);
+};
+
+const pixels = (file: KeepCandidate) => file.image ? file.image.width * file.image.height : 0;
+
+const primaryOrder = (strategy: KeepStrategy, context: KeepContext) => (a: KeepCandidate, b: KeepCandidate): number => {
+  switch (strategy) {
+    case 'best-quality':
+      return (pixels(b) - pixels(a)) || (b.size - a.size);
+    case 'oldest-commit': {
+      const timeA = context.addedAt.get(a.path) ?? Infinity;
+      const timeB = context.addedAt.get(b.path) ?? Infinity;
+      return timeA === timeB ? 0 : timeA < timeB ? -1 : 1;
+    }
+    case 'preferred-folder':
+      return Number(isInFolder(b.path, context.preferredFolder)) - Number(isInFolder(a.path, context.preferredFolder));
+    case 'descriptive-name':
+      return descriptiveScore(b.name) - descriptiveScore(a.name);
+    default:
+      return 0;
+  }
+};
+
+export const rankForKeeping = <T extends KeepCandidate>(files: T[], strategy: KeepStrategy, context: KeepContext): T[] => {
+  const primary = primaryOrder(strategy, context);
+  return [...files].sort((a, b) => primary(a, b) || byShortestPath(a, b));
+};
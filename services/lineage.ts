@@ -0,0 +1,50 @@
+import { ImageItem } from '../types';
+
+// --- Lineage of remixed and AI-edited images ---
+//
+// Each image points at its parent with `parentId`; the tree is rebuilt from
+// those links whenever it is shown. A parent that was deleted ends the chain.
+
+export interface LineageNode {
+  image: ImageItem;
+  children: LineageNode[];
+}
+
+// Topmost ancestor still in the gallery. Guards against cycles from bad imports.
+export const findLineageRoot = (images: ImageItem[], id: string): ImageItem | undefined => {
+  const byId = new Map(images.map(image => [image.id, image]));
+  const seen = new Set<string>();
+  let current = byId.get(id);
+  while (current?.parentId && byId.has(current.parentId) && !seen.has(current.id)) {
+    seen.add(current.id);
+    current = byId.get(current.parentId);
+  }
+  return current;
+};
+
+// Tree of everything descended from the root of `id`, oldest children first.
+// Null when the image has neither a parent nor children.
+export const buildLineageTree = (images: ImageItem[], id: string): LineageNode | null => {
+  const root = findLineageRoot(images, id);
+  if (!root) return null;
+
+  const childrenOf = new Map<string, ImageItem[]>();
+  images.forEach(image => {
+    if (!image.parentId) return;
+    const siblings = childrenOf.get(image.parentId) || [];
+    siblings.push(image);
+    childrenOf.set(image.parentId, siblings);
+  });
+
+  const seen = new Set<string>();
+  const build = (image: ImageItem): LineageNode => {
+    seen.add(image.id);
+    const children = (childrenOf.get(image.id) || [])
+      .filter(child => !seen.has(child.id))
+      .sort((a, b) => a.createdAt - b.createdAt);
+    return { image, children: children.map(build) };
+  };
+
+  const tree = build(root);
+  return tree.children.length > 0 ? tree : null;
+};
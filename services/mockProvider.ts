@@ -0,0 +1,206 @@
+import { AiProvider, ASPECT_RATIOS, InlineImage } from './aiProvider';
+import { canvasToImageData } from './imageEdits';
+
+// --- Offline mock ---
+//
+// Same input, same output: everything is derived from a hash of the request,
+// so screenshots and manual runs are repeatable. Images are drawn on a canvas,
+// speech is a tone and embeddings are hashed word counts (so semantic search
+// still ranks shared words higher).
+
+const MOCK_LATENCY_MS = 600;
+const EMBEDDING_DIMENSIONS = 256;
+const SAMPLE_RATE = 24000;
+
+// FNV-1a, 32 bit
+const hashString = (text: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// mulberry32: small seeded generator returning [0, 1)
+const seededRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const pick = <T>(items: T[], random: () => number): T => items[Math.floor(random() * items.length)];
+
+// Fixed pause so loading states are visible; resolves early on abort
+const wait = (signal?: AbortSignal) => new Promise<void>(resolve => {
+  const timer = setTimeout(resolve, MOCK_LATENCY_MS);
+  signal?.addEventListener('abort', () => { clearTimeout(timer); resolve(); });
+});
+
+const loadImage = (image: InlineImage): Promise<HTMLImageElement> => new Promise((resolve, reject) => {
+  const img = new Image();
+  img.onload = () => resolve(img);
+  img.onerror = () => reject(new Error('Could not decode the source image'));
+  img.src = `data:${image.mimeType};base64,${image.base64}`;
+});
+
+const SUBJECTS = ['a quiet harbour', 'a mountain ridge', 'a city street at dusk', 'a forest clearing', 'an empty room', 'a desert road', 'a field of flowers', 'a lighthouse'];
+const MOODS = ['calm', 'moody', 'bright', 'dreamy', 'stark', 'warm', 'cold', 'nostalgic'];
+const PALETTES = ['soft pastels', 'deep blues and teals', 'warm oranges and reds', 'muted earth tones', 'neon pinks and cyans', 'black and white'];
+const TAGS = ['landscape', 'portrait', 'architecture', 'nature', 'night', 'sunset', 'water', 'sky', 'abstract', 'minimal', 'colorful', 'urban', 'vintage', 'texture', 'light', 'shadow'];
+
+const describe = (seed: number): string => {
+  const random = seededRandom(seed);
+  return `[Offline mock] A ${pick(MOODS, random)} image of ${pick(SUBJECTS, random)}, rendered in ${pick(PALETTES, random)}. `
+    + `The composition is ${random() > 0.5 ? 'centered and balanced' : 'off-center with open space'}, `
+    + `with ${random() > 0.5 ? 'soft, diffused' : 'hard, directional'} light.`;
+};
+
+const hslColor = (random: () => number, lightness: number) => `hsl(${Math.floor(random() * 360)}, 70%, ${lightness}%)`;
+
+// Long edge by requested size; fixed-size models get 1K
+const LONG_EDGE: Record<string, number> = { '1K': 1024, '2K': 2048, '4K': 4096 };
+
+const renderImage = (seed: number, width: number, height: number, caption: string): HTMLCanvasElement => {
+  const random = seededRandom(seed);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d')!;
+
+  const gradient = ctx.createLinearGradient(0, 0, width, height);
+  gradient.addColorStop(0, hslColor(random, 25));
+  gradient.addColorStop(1, hslColor(random, 55));
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, width, height);
+
+  const scale = Math.max(width, height);
+  for (let i = 0; i < 12; i++) {
+    ctx.globalAlpha = 0.15 + random() * 0.35;
+    ctx.fillStyle = hslColor(random, 65);
+    ctx.beginPath();
+    ctx.arc(random() * width, random() * height, scale * (0.03 + random() * 0.15), 0, Math.PI * 2);
+    ctx.fill();
+  }
+  ctx.globalAlpha = 1;
+
+  ctx.fillStyle = 'rgba(0, 0, 0, 0.55)';
+  ctx.fillRect(0, height - scale * 0.08, width, scale * 0.08);
+  ctx.fillStyle = '#fff';
+  ctx.font = `${Math.round(scale * 0.025)}px sans-serif`;
+  ctx.textBaseline = 'middle';
+  ctx.fillText(caption.slice(0, 80), scale * 0.02, height - scale * 0.04, width - scale * 0.04);
+  return canvas;
+};
+
+export const mockProvider: AiProvider = {
+  id: 'mock',
+  name: 'Offline mock',
+  description: 'Deterministic placeholder output with no network calls. For trying the UI and testing.',
+  requiresApiKey: false,
+  models: {
+    analysis: ['mock-text'],
+    image: ['mock-image', 'mock-image-hq'],
+    proImage: ['mock-image-hq', 'mock-image'],
+    speech: ['mock-tone'],
+    scene: ['mock-text'],
+    embedding: ['mock-embedding'],
+  },
+  imageModels: {
+    'mock-image': { aspectRatios: ASPECT_RATIOS, sizes: [], maxReferences: 3 },
+    'mock-image-hq': { aspectRatios: ASPECT_RATIOS, sizes: ['1K', '2K', '4K'], defaultSize: '1K', maxReferences: 14 },
+  },
+
+  analyzeImage: async (model, image, prompt) => {
+    await wait();
+    return describe(hashString(`${model}|${prompt}|${image.base64.length}|${image.base64.slice(-64)}`));
+  },
+
+  suggestTags: async (model, image) => {
+    await wait();
+    const random = seededRandom(hashString(`${model}|${image.base64.length}|${image.base64.slice(-64)}`));
+    return Array.from(new Set(Array.from({ length: 6 }, () => pick(TAGS, random))));
+  },
+
+  generateImage: async ({ model, prompt, aspectRatio, imageSize, references, signal }) => {
+    await wait(signal);
+    const [w, h] = aspectRatio.split(':').map(Number);
+    const longEdge = LONG_EDGE[imageSize || '1K'];
+    const width = Math.round(w >= h ? longEdge : longEdge * w / h);
+    const height = Math.round(h >= w ? longEdge : longEdge * h / w);
+    const seed = hashString(`${model}|${prompt}|${references.map(ref => ref.base64.length).join(',')}`);
+    return canvasToImageData(renderImage(seed, width, height, prompt));
+  },
+
+  // Recolors the whole source by a hue shift picked from the instruction
+  editImage: async ({ source, instruction }) => {
+    await wait();
+    const img = await loadImage(source);
+    const canvas = document.createElement('canvas');
+    canvas.width = img.naturalWidth;
+    canvas.height = img.naturalHeight;
+    const ctx = canvas.getContext('2d')!;
+    ctx.filter = `hue-rotate(${hashString(instruction) % 360}deg)`;
+    ctx.drawImage(img, 0, 0);
+    return canvasToImageData(canvas, source.mimeType);
+  },
+
+  // A short tone per word, pitch from the word
+  generateSpeech: async (model, text) => {
+    await wait();
+    const words = text.split(/\s+/).filter(Boolean).slice(0, 40);
+    const wordSamples = Math.round(SAMPLE_RATE * 0.15);
+    const pcm = new Int16Array(Math.max(1, words.length) * wordSamples);
+    words.forEach((word, i) => {
+      const frequency = 180 + (hashString(word) % 220);
+      for (let s = 0; s < wordSamples; s++) {
+        const fade = Math.min(1, s / 200, (wordSamples - s) / 200);
+        pcm[i * wordSamples + s] = Math.round(Math.sin(2 * Math.PI * frequency * s / SAMPLE_RATE) * 6000 * fade);
+      }
+    });
+    const bytes = new Uint8Array(pcm.buffer);
+    let binary = '';
+    bytes.forEach(b => { binary += String.fromCharCode(b); });
+    return btoa(binary);
+  },
+
+  generateSceneCode: async (model, prompt) => {
+    await wait();
+    const random = seededRandom(hashString(prompt));
+    const channel = () => (0.1 + random() * 0.8).toFixed(2);
+    const background = `new BABYLON.Color4(${channel()}, ${channel()}, ${channel()}, 1)`;
+    const particle = `new BABYLON.Color4(${channel()}, ${channel()}, ${channel()}, 1)`;
+    const rate = 200 + Math.floor(random() * 800);
+    return [
+      `// Offline mock scene for: ${prompt.replace(/\s+/g, ' ').slice(0, 80)}`,
+      `var camera = new BABYLON.UniversalCamera("camera1", new BABYLON.Vector3(0, 0, -10), scene);`,
+      `camera.setTarget(BABYLON.Vector3.Zero());`,
+      `var light = new BABYLON.HemisphericLight("light1", new BABYLON.Vector3(0, 1, 0), scene);`,
+      `scene.clearColor = ${background};`,
+      `var particles = new BABYLON.ParticleSystem("particles", 2000, scene);`,
+      `particles.particleTexture = new BABYLON.Texture("https://www.babylonjs-playground.com/textures/flare.png", scene);`,
+      `particles.emitter = new BABYLON.Vector3(0, -6, 0);`,
+      `particles.minEmitBox = new BABYLON.Vector3(-12, 0, 0);`,
+      `particles.maxEmitBox = new BABYLON.Vector3(12, 0, 0);`,
+      `particles.color1 = ${particle};`,
+      `particles.direction1 = new BABYLON.Vector3(-0.2, 1, 0);`,
+      `particles.direction2 = new BABYLON.Vector3(0.2, 1, 0);`,
+      `particles.minSize = 0.05;`,
+      `particles.maxSize = 0.25;`,
+      `particles.emitRate = ${rate};`,
+      `particles.start();`,
+    ].join('\n');
+  },
+
+  embedTexts: async (model, texts) => {
+    return texts.map(text => {
+      const vector = new Array(EMBEDDING_DIMENSIONS).fill(0);
+      (text.toLowerCase().match(/[a-z0-9]+/g) || []).forEach(word => {
+        vector[hashString(word) % EMBEDDING_DIMENSIONS] += 1;
+      });
+      const length = Math.hypot(...vector) || 1;
+      return vector.map(value => value / length);
+    });
+  },
+};
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { clusterByHash, DEFAULT_HASH_THRESHOLD, hammingDistance } from './perceptualHash';
+
+describe('hammingDistance', () => {
+  it('counts the differing bits of two hex hashes', () => {
+    expect(hammingDistance('0000000000000000', '0000000000000000')).toBe(0);
+    expect(hammingDistance('0000000000000000', '0000000000000001')).toBe(1);
+    expect(hammingDistance('000000000000000f', '0000000000000000')).toBe(4);
+    expect(hammingDistance('ffffffffffffffff', '0000000000000000')).toBe(64);
+    expect(hammingDistance('a5a5a5a5a5a5a5a5', '5a5a5a5a5a5a5a5a')).toBe(64);
+  });
+});
+
+describe('clusterByHash', () => {
+  const item = (id: string, hash: string) => ({ id, hash });
+  const ids = (clusters: { id: string }[][]) => clusters.map(cluster => cluster.map(entry => entry.id));
+
+  it('groups hashes within the threshold, inclusive, and drops singletons', () => {
+    const items = [
+      item('a', '0000000000000000'),
+      item('b', '00000000000000ff'), // 8 bits from a
+      item('c', 'ffffffffffffffff'),
+    ];
+
+    expect(ids(clusterByHash(items, entry => entry.hash, DEFAULT_HASH_THRESHOLD))).toEqual([['a', 'b']]);
+    expect(clusterByHash(items, entry => entry.hash, DEFAULT_HASH_THRESHOLD - 1)).toEqual([]);
+  });
+
+  it('joins chains of near matches transitively', () => {
+    const items = [
+      item('a', '0000000000000000'),
+      item('b', '000000000000000f'), // 4 from a
+      item('c', '00000000000000ff'), // 4 from b, 8 from a
+      item('d', 'ff00000000000000'), // 8 from a
+    ];
+
+    expect(ids(clusterByHash(items, entry => entry.hash, 4))).toEqual([['a', 'b', 'c']]);
+  });
+
+  it('keeps separate groups apart', () => {
+    const items = [
+      item('a', '0000000000000000'),
+      item('x', 'ffffffffffffffff'),
+      item('b', '0000000000000001'),
+      item('y', 'fffffffffffffffe'),
+    ];
+
+    expect(ids(clusterByHash(items, entry => entry.hash, 2))).toEqual([['a', 'b'], ['x', 'y']]);
+  });
+});
@@ -0,0 +1,169 @@
+// --- Perceptual hashing for near-duplicate detection ---
+//
+// Each hash is 64 bits, stored as a 16 character hex string. Visually similar
+// images (re-encoded, resized, lightly edited) produce hashes that differ in
+// only a few bits, so the Hamming distance between hashes measures similarity.
+//
+// - aHash: 8x8 grayscale, bit set when a pixel is brighter than the mean
+// - dHash: 9x8 grayscale, bit set when a pixel is brighter than its right neighbour
+// - pHash: 32x32 grayscale DCT, bit set when a low frequency is above the median
+
+export type HashAlgorithm = 'ahash' | 'dhash' | 'phash';
+
+export const HASH_ALGORITHMS: { value: HashAlgorithm; label: string }[] = [
+  { value: 'phash', label: 'pHash (robust)' },
+  { value: 'dhash', label: 'dHash (gradients)' },
+  { value: 'ahash', label: 'aHash (fast)' },
+];
+
+// Distances up to this are treated as "same picture" by default
+export const DEFAULT_HASH_THRESHOLD = 8;
+
+export type ImageHashes = Record<HashAlgorithm, string>;
+
+export interface HashedImage {
+  hashes: ImageHashes;
+  width: number;
+  height: number;
+}
+
+// --- Helpers ---
+
+// Grayscale pixels of the image scaled to width x height (aspect ratio ignored)
+const toGrayscale = (source: CanvasImageSource, width: number, height: number): Float64Array => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not available');
+
+  ctx.drawImage(source, 0, 0, width, height);
+  const { data } = ctx.getImageData(0, 0, width, height);
+  const gray = new Float64Array(width * height);
+  for (let i = 0; i < gray.length; i++) {
+    // ITU-R BT.601 luma
+    gray[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+  }
+  return gray;
+};
+
+const bitsToHex = (bits: boolean[]): string => {
+  let hex = '';
+  for (let i = 0; i < bits.length; i += 4) {
+    const nibble = (bits[i] ? 8 : 0) | (bits[i + 1] ? 4 : 0) | (bits[i + 2] ? 2 : 0) | (bits[i + 3] ? 1 : 0);
+    hex += nibble.toString(16);
+  }
+  return hex;
+};
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+// --- Hashes ---
+
+const averageHash = (source: CanvasImageSource): string => {
+  const gray = Array.from(toGrayscale(source, 8, 8));
+  const mean = gray.reduce((sum, v) => sum + v, 0) / gray.length;
+  return bitsToHex(gray.map(v => v > mean));
+};
+
+const differenceHash = (source: CanvasImageSource): string => {
+  const gray = toGrayscale(source, 9, 8);
+  const bits: boolean[] = [];
+  for (let y = 0; y < 8; y++) {
+    for (let x = 0; x < 8; x++) {
+      bits.push(gray[y * 9 + x] > gray[y * 9 + x + 1]);
+    }
+  }
+  return bitsToHex(bits);
+};
+
+const DCT_SIZE = 32;
+
+// Precomputed DCT-II basis: cos((2x + 1) * u * PI / 2N)
+const DCT_COSINES: number[][] = Array.from({ length: 8 }, (_, u) =>
+  Array.from({ length: DCT_SIZE }, (_, x) => Math.cos(((2 * x + 1) * u * Math.PI) / (2 * DCT_SIZE)))
+);
+
+const perceptualHash = (source: CanvasImageSource): string => {
+  const gray = toGrayscale(source, DCT_SIZE, DCT_SIZE);
+
+  // Only the 8x8 lowest frequencies are needed, so compute just those
+  const coefficients: number[] = [];
+  for (let u = 0; u < 8; u++) {
+    for (let v = 0; v < 8; v++) {
+      let sum = 0;
+      for (let y = 0; y < DCT_SIZE; y++) {
+        for (let x = 0; x < DCT_SIZE; x++) {
+          sum += gray[y * DCT_SIZE + x] * DCT_COSINES[u][y] * DCT_COSINES[v][x];
+        }
+      }
+      coefficients.push(sum);
+    }
+  }
+
+  // The DC term (overall brightness) would dominate the median, so leave it out
+  const threshold = median(coefficients.slice(1));
+  return bitsToHex(coefficients.map(c => c > threshold));
+};
+
+// --- Public API ---
+
+export const hashImage = async (blob: Blob): Promise<HashedImage> => {
+  const bitmap = await createImageBitmap(blob);
+  try {
+    return {
+      hashes: {
+        ahash: averageHash(bitmap),
+        dhash: differenceHash(bitmap),
+        phash: perceptualHash(bitmap),
+      },
+      width: bitmap.width,
+      height: bitmap.height,
+    };
+  } finally {
+    bitmap.close();
+  }
+};
+
+const POPCOUNT = Array.from({ length: 16 }, (_, n) => (n & 1) + ((n >> 1) & 1) + ((n >> 2) & 1) + ((n >> 3) & 1));
+
+export const hammingDistance = (a: string, b: string): number => {
+  let distance = 0;
+  for (let i = 0; i < a.length; i++) {
+    distance += POPCOUNT[parseInt(a[i], 16) ^ parseInt(b[i], 16)];
+  }
+  return distance;
+};
+
+// Groups items whose hashes are within `threshold` of each other, transitively
+// (A~B and B~C puts A, B and C together). Singletons are dropped.
+export const clusterByHash = <T>(items: T[], getHash: (item: T) => string, threshold: number): T[][] => {
+  const parent = items.map((_, i) => i);
+  const find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]];
+      i = parent[i];
+    }
+    return i;
+  };
+
+  const hashes = items.map(getHash);
+  for (let i = 0; i < items.length; i++) {
+    for (let j = i + 1; j < items.length; j++) {
+      if (hammingDistance(hashes[i], hashes[j]) <= threshold) {
+        parent[find(j)] = find(i);
+      }
+    }
+  }
+
+  const clusters = new Map<number, T[]>();
+  items.forEach((item, i) => {
+    const root = find(i);
+    clusters.set(root, [...(clusters.get(root) || []), item]);
+  });
+  return Array.from(clusters.values()).filter(cluster => cluster.length > 1);
+};
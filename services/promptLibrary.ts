@@ -0,0 +1,100 @@
+import { v4 as uuidv4 } from 'uuid';
+import { PromptTarget, SavedPrompt } from '../types';
+import { openDb, requestToPromise, transactionDone, PROMPTS_STORE } from './db';
+
+// --- Prompt library ---
+//
+// Saved prompts can be templates: every `{name}` placeholder is a variable,
+// and a list of values per variable expands into one prompt per combination.
+
+// Large grids get expensive fast, so batch runs stop here
+export const MAX_COMBINATIONS = 64;
+
+const VARIABLE_PATTERN = /\{([a-zA-Z][\w-]*)\}/g;
+
+// Variable names in order of first appearance
+export const extractVariables = (text: string): string[] => {
+  const names = Array.from(text.matchAll(VARIABLE_PATTERN), match => match[1]);
+  return Array.from(new Set(names));
+};
+
+// "cat, dog,  fox" -> ["cat", "dog", "fox"]
+export const parseValueList = (input: string): string[] => {
+  return input.split(',').map(value => value.trim()).filter(Boolean);
+};
+
+export interface PromptCombination {
+  prompt: string;
+  variables: Record<string, string>;
+}
+
+// Every combination of values, first variable varying slowest. A variable
+// without values stays as its placeholder.
+export const expandTemplate = (text: string, values: Record<string, string[]>): PromptCombination[] => {
+  const names = extractVariables(text).filter(name => (values[name] || []).length > 0);
+  const combinations = names.reduce<Record<string, string>[]>(
+    (acc, name) => acc.flatMap(combo => values[name].map(value => ({ ...combo, [name]: value }))),
+    [{}]
+  );
+  return combinations.map(variables => ({
+    prompt: text.replace(VARIABLE_PATTERN, (token, name) => variables[name] ?? token),
+    variables,
+  }));
+};
+
+export const countCombinations = (text: string, values: Record<string, string[]>): number => {
+  return extractVariables(text).reduce((count, name) => count * Math.max(1, (values[name] || []).length), 1);
+};
+
+export const titleFromPrompt = (text: string): string => {
+  const firstLine = text.trim().split('\n')[0];
+  return firstLine.length > 40 ? `${firstLine.slice(0, 40)}...` : firstLine || 'Untitled prompt';
+};
+
+export const normalizeFolder = (folder: string): string => {
+  return folder.split('/').map(part => part.trim()).filter(Boolean).join('/');
+};
+
+export const createSavedPrompt = (text: string, target: PromptTarget, fields: Partial<Pick<SavedPrompt, 'title' | 'folder' | 'variables'>> = {}): SavedPrompt => ({
+  id: uuidv4(),
+  title: fields.title?.trim() || titleFromPrompt(text),
+  text,
+  folder: normalizeFolder(fields.folder || ''),
+  target,
+  variables: fields.variables,
+  createdAt: Date.now(),
+  updatedAt: Date.now(),
+});
+
+// Every folder in use, parents included, sorted
+export const collectPromptFolders = (prompts: SavedPrompt[]): string[] => {
+  const folders = new Set<string>();
+  prompts.forEach(prompt => {
+    const parts = prompt.folder.split('/').filter(Boolean);
+    parts.forEach((_, i) => folders.add(parts.slice(0, i + 1).join('/')));
+  });
+  return Array.from(folders).sort();
+};
+
+// --- Persistence ---
+
+export const loadPrompts = async (): Promise<SavedPrompt[]> => {
+  const db = await openDb();
+  const tx = db.transaction(PROMPTS_STORE, 'readonly');
+  const prompts = await requestToPromise(tx.objectStore(PROMPTS_STORE).getAll() as IDBRequest<SavedPrompt[]>);
+  return prompts.sort((a, b) => a.title.localeCompare(b.title));
+};
+
+export const savePrompt = async (prompt: SavedPrompt): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(PROMPTS_STORE, 'readwrite');
+  tx.objectStore(PROMPTS_STORE).put({ ...prompt, updatedAt: Date.now() });
+  await transactionDone(tx);
+};
+
+export const deletePrompt = async (id: string): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(PROMPTS_STORE, 'readwrite');
+  tx.objectStore(PROMPTS_STORE).delete(id);
+  await transactionDone(tx);
+};
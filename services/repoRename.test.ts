@@ -0,0 +1,119 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { commitFilesToGitHub, getRepoFiles, GitHubFile } from './githubService';
+import { applyTemplate, findConflicts, listDestinationPaths, RenameTarget, renameFiles, TemplateOptions } from './repoRename';
+
+vi.mock('./githubService', () => ({
+  commitFilesToGitHub: vi.fn(async () => ({ commitSha: 'c0ffee', branch: 'main', fileCount: 0 })),
+  getRepoFiles: vi.fn(),
+}));
+
+const options = (changes: Partial<TemplateOptions> = {}): TemplateOptions => ({ separator: '-', folder: 'pics', addedAt: new Map(), ...changes });
+
+const target = (path: string, to: string, sidecar = false): RenameTarget => ({
+  path,
+  sha: `sha-${path}`,
+  to,
+  sidecar: sidecar ? { path: `${path}.json`, sha: `sha-${path}.json` } : undefined,
+});
+
+describe('applyTemplate', () => {
+  const sources = ['old/IMG_0001.JPG', 'old/sunset_over the-bay.png', 'old/noext'].map(path => ({ path, sha: path }));
+
+  it('fills the tokens, keeps the extension and pads the index', () => {
+    const addedAt = new Map([['old/IMG_0001.JPG', Date.UTC(2024, 4, 17)]]);
+    expect(applyTemplate(sources, '{date}_{title}_{index}', options({ addedAt }))).toEqual([
+      'pics/2024-05-17_IMG-0001_1.JPG',
+      'pics/sunset-over-the-bay_2.png',
+      'pics/noext_3',
+    ]);
+  });
+
+  it('pads the index to the length of the list', () => {
+    const many = Array.from({ length: 12 }, (_, i) => ({ path: `a${i}.png`, sha: '' }));
+    expect(applyTemplate(many, '{index}', options({ folder: '' }))[0]).toBe('01.png');
+  });
+
+  it('keeps the template from creating folders or dangling separators', () => {
+    expect(applyTemplate(sources.slice(0, 1), '{date}/{name}/', options({ separator: '_' }))).toEqual(['pics/IMG_0001.JPG']);
+  });
+
+  it('falls back to the current name when the template renders empty', () => {
+    expect(applyTemplate(sources.slice(1, 2), '{date}', options({ folder: '/' }))).toEqual(['sunset_over the-bay.png']);
+  });
+});
+
+describe('findConflicts', () => {
+  it('accepts a rename that only changes case', () => {
+    const existing = new Set(['pics/Sunset.png', 'pics/other.png']);
+    expect(findConflicts([target('pics/Sunset.png', 'pics/sunset.png')], existing).size).toBe(0);
+  });
+
+  it('accepts two files swapping names, sidecars included', () => {
+    const existing = new Set(['pics/a.png', 'pics/a.png.json', 'pics/b.png', 'pics/b.png.json']);
+    const swap = [target('pics/a.png', 'pics/b.png', true), target('pics/b.png', 'pics/a.png', true)];
+    expect(findConflicts(swap, existing).size).toBe(0);
+  });
+
+  it('rejects a rename onto a file that stays', () => {
+    const existing = new Set(['pics/a.png', 'pics/taken.png']);
+    expect(findConflicts([target('pics/a.png', 'pics/taken.png')], existing))
+      .toEqual(new Map([['pics/a.png', 'A file with this name already exists']]));
+  });
+
+  it('rejects a sidecar move onto a file that stays', () => {
+    const existing = new Set(['pics/a.png', 'pics/a.png.json', 'pics/free.png.json']);
+    expect(findConflicts([target('pics/a.png', 'pics/free.png', true)], existing))
+      .toEqual(new Map([['pics/a.png', 'free.png.json already exists']]));
+  });
+
+  it('rejects two files given the same new path, reporting the later one', () => {
+    const conflicts = findConflicts([target('pics/a.png', 'pics/same.png'), target('pics/b.png', 'pics/same.png')], new Set());
+    expect(conflicts).toEqual(new Map([['pics/b.png', 'Same new path as a.png']]));
+  });
+
+  it('rejects empty names', () => {
+    const conflicts = findConflicts([target('pics/a.png', ' '), target('pics/b.png', 'pics/')], new Set());
+    expect(Array.from(conflicts.values())).toEqual(['Name is empty', 'Name is empty']);
+  });
+});
+
+describe('renameFiles', () => {
+  beforeEach(() => vi.mocked(commitFilesToGitHub).mockClear());
+
+  it('moves blobs without re-uploading, writing swapped paths once', async () => {
+    await renameFiles('octo', 'pics', [target('pics/a.png', 'pics/b.png', true), target('pics/b.png', 'pics/a.png'), target('pics/c.png', 'pics/c.png')], 'Swap');
+
+    const [, , changes] = vi.mocked(commitFilesToGitHub).mock.calls[0];
+    expect(changes).toEqual([
+      { path: 'pics/a.png.json', base64Content: null },
+      { path: 'pics/b.png', base64Content: null, blobSha: 'sha-pics/a.png' },
+      { path: 'pics/b.png.json', base64Content: null, blobSha: 'sha-pics/a.png.json' },
+      { path: 'pics/a.png', base64Content: null, blobSha: 'sha-pics/b.png' },
+    ]);
+  });
+});
+
+describe('listDestinationPaths', () => {
+  const listed = (path: string) => ({ path } as GitHubFile);
+
+  it('lists each destination folder once and treats a missing folder as empty', async () => {
+    vi.mocked(getRepoFiles).mockImplementation(async (owner, repo, folder) => {
+      if (folder === 'new') throw Object.assign(new Error('Not Found'), { status: 404 });
+      return [listed(`${folder}/x.png`)];
+    });
+
+    const paths = await listDestinationPaths('octo', 'pics', [
+      target('pics/a.png', 'archive/a.png', true),
+      target('pics/b.png', 'archive/b.png'),
+      target('pics/c.png', 'new/c.png'),
+    ]);
+
+    expect(paths).toEqual(new Set(['archive/x.png']));
+    expect(vi.mocked(getRepoFiles).mock.calls.map(call => call[2]).sort()).toEqual(['archive', 'new']);
+  });
+
+  it('fails when a folder cannot be listed', async () => {
+    vi.mocked(getRepoFiles).mockRejectedValue(Object.assign(new Error('Server Error'), { status: 500 }));
+    await expect(listDestinationPaths('octo', 'pics', [target('pics/a.png', 'other/a.png')])).rejects.toThrow('Server Error');
+  });
+});
@@ -0,0 +1,152 @@
+import { commitFilesToGitHub, getRepoFiles, BatchCommitProgress, BatchCommitResult, BatchFileChange } from './githubService';
+import { getSidecarFileName } from './tags';
+
+// --- Renaming and moving files inside a repo ---
+//
+// A rename is a delete of the old path plus a new path pointing at the same
+// blob, so nothing is uploaded and every rename of a batch lands in one
+// commit. Sidecars travel with their image.
+
+export const DEFAULT_RENAME_TEMPLATE = '{date}_{title}_{index}';
+
+export const TEMPLATE_TOKENS: { token: string; description: string }[] = [
+  { token: '{date}', description: 'Date the file was first committed (YYYY-MM-DD)' },
+  { token: '{title}', description: 'Words of the current name' },
+  { token: '{index}', description: 'Position in the list, zero-padded' },
+  { token: '{name}', description: 'Current name without extension' },
+];
+
+export type WordSeparator = '-' | '_' | ' ';
+
+export interface RenameSource {
+  path: string;
+  sha: string;
+  sidecar?: { path: string; sha: string };
+}
+
+export interface RenameTarget extends RenameSource {
+  to: string;
+}
+
+export interface TemplateOptions {
+  separator: WordSeparator;
+  // Destination folder, '' for the repo root
+  folder: string;
+  // First commit time per path, needed for {date}
+  addedAt: Map<string, number | null>;
+}
+
+const fileName = (path: string) => path.split('/').pop() || path;
+
+const folderOf = (path: string) => path.includes('/') ? path.slice(0, path.lastIndexOf('/')) : '';
+
+const splitExtension = (name: string): [string, string] => {
+  const dot = name.lastIndexOf('.');
+  return dot > 0 ? [name.slice(0, dot), name.slice(dot)] : [name, ''];
+};
+
+export const joinRepoPath = (folder: string, name: string) => {
+  const trimmed = folder.trim().replace(/^\/+|\/+$/g, '');
+  return trimmed ? `${trimmed}/${name}` : name;
+};
+
+export const usesDate = (template: string) => template.includes('{date}');
+
+// "sunset_over_the-bay" -> "sunset-over-the-bay" with '-' as separator
+export const titleFromFileName = (name: string, separator: WordSeparator): string => {
+  return splitExtension(name)[0].split(/[\s_-]+/).filter(Boolean).join(separator);
+};
+
+const formatDate = (time: number | null | undefined) => time ? new Date(time).toISOString().slice(0, 10) : '';
+
+// New path for each source, in list order. The extension is always kept.
+export const applyTemplate = (files: RenameSource[], template: string, options: TemplateOptions): string[] => {
+  const digits = String(files.length).length;
+  return files.map((file, i) => {
+    const [base, extension] = splitExtension(fileName(file.path));
+    const rendered = template
+      .replace(/\{date\}/g, formatDate(options.addedAt.get(file.path)))
+      .replace(/\{title\}/g, titleFromFileName(base, options.separator))
+      .replace(/\{index\}/g, String(i + 1).padStart(digits, '0'))
+      .replace(/\{name\}/g, base)
+      // No folders from the template, and no doubled or dangling separators left by empty tokens
+      .replace(/[\/\\:*?"<>|]/g, options.separator)
+      .replace(/([\s_-])[\s_-]+/g, '$1')
+      .replace(/^[\s_-]+|[\s_-]+$/g, '');
+    return joinRepoPath(options.folder, `${rendered || base}${extension}`);
+  });
+};
+
+// Problems that would make the commit lose or clobber files, by source path.
+// `existingPaths` are the repo files known not to be part of the rename.
+// Sidecars move with their image, so their new paths are checked too.
+export const findConflicts = (targets: RenameTarget[], existingPaths: Set<string>): Map<string, string> => {
+  const conflicts = new Map<string, string>();
+  const movedAway = new Set(targets.flatMap(target => target.sidecar ? [target.path, target.sidecar.path] : [target.path]));
+  const seen = new Map<string, string>();
+  const isTaken = (path: string) => existingPaths.has(path) && !movedAway.has(path);
+
+  targets.forEach(target => {
+    const to = target.to.trim();
+    const sidecarTo = target.sidecar && getSidecarFileName(to);
+    if (!to || to.endsWith('/') || !splitExtension(fileName(to))[0]) {
+      conflicts.set(target.path, 'Name is empty');
+    } else if (seen.has(to)) {
+      conflicts.set(target.path, `Same new path as ${fileName(seen.get(to)!)}`);
+    } else if (sidecarTo && seen.has(sidecarTo)) {
+      conflicts.set(target.path, `Sidecar has the same new path as ${fileName(seen.get(sidecarTo)!)}`);
+    } else if (isTaken(to)) {
+      conflicts.set(target.path, 'A file with this name already exists');
+    } else if (sidecarTo && isTaken(sidecarTo)) {
+      conflicts.set(target.path, `${fileName(sidecarTo)} already exists`);
+    }
+    seen.set(to, target.path);
+    if (sidecarTo) seen.set(sidecarTo, target.path);
+  });
+  return conflicts;
+};
+
+// Paths of the files in `folder`; a folder that does not exist yet is empty.
+// Any other failure throws, since an unknown folder could hide a file the rename would overwrite.
+export const listFolderPaths = async (owner: string, repo: string, folder: string): Promise<string[]> => {
+  try {
+    return (await getRepoFiles(owner, repo, folder, true)).map(file => file.path);
+  } catch (error: any) {
+    if (error.status === 404) return [];
+    throw error;
+  }
+};
+
+// Existing files in every folder the targets move into. Sidecars sit next to
+// their image, so the image folders cover them.
+export const listDestinationPaths = async (owner: string, repo: string, targets: RenameTarget[]): Promise<Set<string>> => {
+  const folders = new Set(targets.flatMap(target => [
+    folderOf(target.to.trim()),
+    ...(target.sidecar ? [folderOf(getSidecarFileName(target.to.trim()))] : []),
+  ]));
+  const listings = await Promise.all(Array.from(folders).map(folder => listFolderPaths(owner, repo, folder)));
+  return new Set(listings.flat());
+};
+
+export const renameFiles = (
+  owner: string,
+  repo: string,
+  targets: RenameTarget[],
+  message: string,
+  onProgress?: (progress: BatchCommitProgress) => void
+): Promise<BatchCommitResult> => {
+  const moves = targets
+    .filter(target => target.to !== target.path)
+    .flatMap(target => [
+      { from: target.path, to: target.to, sha: target.sha },
+      ...(target.sidecar ? [{ from: target.sidecar.path, to: getSidecarFileName(target.to), sha: target.sidecar.sha }] : []),
+    ]);
+
+  // A path that is both vacated and filled (a swap) must only be written once
+  const filled = new Set(moves.map(move => move.to));
+  const changes: BatchFileChange[] = [
+    ...moves.filter(move => !filled.has(move.from)).map(move => ({ path: move.from, base64Content: null })),
+    ...moves.map(move => ({ path: move.to, base64Content: null, blobSha: move.sha })),
+  ];
+  return commitFilesToGitHub(owner, repo, changes, message, onProgress);
+};
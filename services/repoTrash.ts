@@ -0,0 +1,181 @@
+import { v4 as uuidv4 } from 'uuid';
+import { CleanupJournalEntry, CleanupMove } from '../types';
+import { openDb, requestToPromise, transactionDone, CLEANUP_JOURNAL_STORE } from './db';
+import { commitFilesToGitHub, listRepoFilesRecursive, BatchCommitProgress, BatchFileChange } from './githubService';
+import { getSidecarFileName } from './tags';
+
+// --- Trash and undo for repo cleanups ---
+//
+// Trashing moves files to `<trash>/<batch>/<original path>` in one commit. The
+// blobs are reused, so nothing is uploaded. Every cleanup commit is journaled
+// locally; since deleted blobs stay in the repo's history, even a permanent
+// delete can be undone by pointing the original paths at the old blobs again.
+
+export const DEFAULT_TRASH_FOLDER = '.trash';
+
+// A file to clean up; its `.json` sidecar goes and comes back with it
+export interface CleanupTarget {
+  path: string;
+  sha: string;
+  sidecar?: { path: string; sha: string };
+}
+
+export interface TrashedFile {
+  trashPath: string;
+  originalPath: string;
+  sha: string;
+  // Folder name of the cleanup that trashed it (a timestamp)
+  batch: string;
+  // Trashed in the same batch as the image
+  sidecar?: TrashedFile;
+}
+
+const normalizeFolder = (folder: string) => folder.trim().replace(/^\/+|\/+$/g, '') || DEFAULT_TRASH_FOLDER;
+
+// '2026-10-19T14-03-22' - sortable and valid in a path
+const batchName = (date: Date) => date.toISOString().slice(0, 19).replace(/:/g, '-');
+
+// Each file followed by its sidecar. A sidecar that was also picked on its own is moved once.
+const withSidecars = (files: CleanupTarget[]): { path: string; sha: string }[] => {
+  const seen = new Set<string>();
+  return files
+    .flatMap(file => file.sidecar ? [file, file.sidecar] : [file])
+    .filter(file => !seen.has(file.path) && !!seen.add(file.path));
+};
+
+const toChanges = (moves: CleanupMove[]): BatchFileChange[] => moves.flatMap(move => [
+  { path: move.from, base64Content: null },
+  ...(move.to ? [{ path: move.to, base64Content: null, blobSha: move.sha }] : []),
+]);
+
+const commitAndJournal = async (
+  owner: string,
+  repo: string,
+  mode: CleanupJournalEntry['mode'],
+  moves: CleanupMove[],
+  message: string,
+  onProgress?: (progress: BatchCommitProgress) => void
+): Promise<CleanupJournalEntry> => {
+  const result = await commitFilesToGitHub(owner, repo, toChanges(moves), message, onProgress);
+  const entry: CleanupJournalEntry = {
+    id: uuidv4(),
+    owner,
+    repo,
+    mode,
+    moves,
+    commitSha: result.commitSha,
+    createdAt: Date.now(),
+  };
+  await saveJournalEntry(entry);
+  return entry;
+};
+
+// --- Cleanup actions ---
+
+export const moveToTrash = (
+  owner: string,
+  repo: string,
+  files: CleanupTarget[],
+  trashFolder: string,
+  message: string,
+  onProgress?: (progress: BatchCommitProgress) => void
+): Promise<CleanupJournalEntry> => {
+  const batchFolder = `${normalizeFolder(trashFolder)}/${batchName(new Date())}`;
+  const moves = withSidecars(files).map(file => ({ from: file.path, to: `${batchFolder}/${file.path}`, sha: file.sha }));
+  return commitAndJournal(owner, repo, 'trash', moves, message, onProgress);
+};
+
+export const deletePermanently = (
+  owner: string,
+  repo: string,
+  files: CleanupTarget[],
+  message: string,
+  onProgress?: (progress: BatchCommitProgress) => void
+): Promise<CleanupJournalEntry> => {
+  const moves = withSidecars(files).map(file => ({ from: file.path, to: null, sha: file.sha }));
+  return commitAndJournal(owner, repo, 'delete', moves, message, onProgress);
+};
+
+// --- Trash view ---
+
+export const listTrash = async (owner: string, repo: string, trashFolder: string): Promise<TrashedFile[]> => {
+  const root = normalizeFolder(trashFolder);
+  let files: { path: string; sha: string }[];
+  try {
+    files = await listRepoFilesRecursive(owner, repo, root);
+  } catch (error) {
+    // No trash folder yet
+    return [];
+  }
+
+  const trashed: TrashedFile[] = files
+    .map(file => {
+      const [batch, ...rest] = file.path.slice(root.length + 1).split('/');
+      return { trashPath: file.path, originalPath: rest.join('/'), sha: file.sha, batch };
+    })
+    .filter(file => file.originalPath);
+
+  // Sidecars are listed under their image, so they are restored together
+  const byPath = new Map(trashed.map(file => [file.trashPath, file]));
+  const attached = new Set<string>();
+  trashed.forEach(file => {
+    const sidecar = byPath.get(getSidecarFileName(file.trashPath));
+    if (sidecar) {
+      file.sidecar = sidecar;
+      attached.add(sidecar.trashPath);
+    }
+  });
+
+  return trashed
+    .filter(file => !attached.has(file.trashPath))
+    .sort((a, b) => b.batch.localeCompare(a.batch) || a.originalPath.localeCompare(b.originalPath));
+};
+
+export const restoreFromTrash = (owner: string, repo: string, files: TrashedFile[], message: string): Promise<CleanupJournalEntry> => {
+  const moves = files
+    .flatMap(file => file.sidecar ? [file, file.sidecar] : [file])
+    .map(file => ({ from: file.trashPath, to: file.originalPath, sha: file.sha }));
+  return commitAndJournal(owner, repo, 'restore', moves, message);
+};
+
+export const emptyTrash = (owner: string, repo: string, files: TrashedFile[], message: string): Promise<CleanupJournalEntry> => {
+  return deletePermanently(owner, repo, files.map(file => ({
+    path: file.trashPath,
+    sha: file.sha,
+    sidecar: file.sidecar && { path: file.sidecar.trashPath, sha: file.sidecar.sha },
+  })), message);
+};
+
+// --- Undo ---
+
+// Reverses every move of the entry in a new commit
+export const undoCleanup = async (entry: CleanupJournalEntry): Promise<CleanupJournalEntry> => {
+  const changes: BatchFileChange[] = entry.moves.flatMap(move => [
+    ...(move.to ? [{ path: move.to, base64Content: null }] : []),
+    { path: move.from, base64Content: null, blobSha: move.sha },
+  ]);
+  const count = entry.moves.length;
+  await commitFilesToGitHub(entry.owner, entry.repo, changes, `Undo cleanup of ${count} file${count === 1 ? '' : 's'} via LuminaView`);
+
+  const undone = { ...entry, undoneAt: Date.now() };
+  await saveJournalEntry(undone);
+  return undone;
+};
+
+// --- Journal persistence ---
+
+export const loadJournal = async (owner: string, repo: string): Promise<CleanupJournalEntry[]> => {
+  const db = await openDb();
+  const tx = db.transaction(CLEANUP_JOURNAL_STORE, 'readonly');
+  const entries = await requestToPromise(tx.objectStore(CLEANUP_JOURNAL_STORE).getAll() as IDBRequest<CleanupJournalEntry[]>);
+  return entries
+    .filter(entry => entry.owner === owner && entry.repo === repo)
+    .sort((a, b) => b.createdAt - a.createdAt);
+};
+
+const saveJournalEntry = async (entry: CleanupJournalEntry): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(CLEANUP_JOURNAL_STORE, 'readwrite');
+  tx.objectStore(CLEANUP_JOURNAL_STORE).put(entry);
+  await transactionDone(tx);
+};
@@ -0,0 +1,95 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { GenerationRecord, ImageItem } from '../types';
+import { getAiSettings, saveAiSettings } from './aiSettings';
+import { cosineSimilarity, findSimilarImages, getEmbeddingText, indexImages, searchImages, withEmbeddings } from './semanticSearch';
+
+const image = (id: string, fields: Partial<ImageItem> = {}): ImageItem => ({
+  id,
+  url: `https://example.com/${id}.png`,
+  title: id,
+  createdAt: 0,
+  source: 'upload',
+  ...fields,
+});
+
+const embedded = (id: string, values: number[]): ImageItem => image(id, {
+  embedding: { model: 'mock-embedding', text: id, values },
+});
+
+describe('cosineSimilarity', () => {
+  it('is 1 for parallel vectors and 0 for orthogonal ones', () => {
+    expect(cosineSimilarity([1, 2, 3], [2, 4, 6])).toBeCloseTo(1);
+    expect(cosineSimilarity([1, 0], [0, 1])).toBe(0);
+    expect(cosineSimilarity([1, 0], [-1, 0])).toBeCloseTo(-1);
+  });
+
+  it('treats empty, mismatched and zero vectors as unrelated', () => {
+    expect(cosineSimilarity([], [])).toBe(0);
+    expect(cosineSimilarity([1, 2], [1, 2, 3])).toBe(0);
+    expect(cosineSimilarity([0, 0], [1, 1])).toBe(0);
+  });
+});
+
+describe('getEmbeddingText', () => {
+  it('prefers the analysis, then the prompt, then the title', () => {
+    const generation: GenerationRecord = { prompt: ' a lighthouse ', style: '', styleSuffix: '', model: 'mock-image', usePro: false, aspectRatio: '1:1' };
+    expect(getEmbeddingText(image('a', { analysis: 'A harbour', generation }))).toBe('A harbour');
+    expect(getEmbeddingText(image('b', { generation }))).toBe('a lighthouse');
+    expect(getEmbeddingText(image('c'))).toBe('c');
+  });
+
+  it('ignores the description', () => {
+    expect(getEmbeddingText(image('holiday', { description: 'Imported image' }))).toBe('holiday');
+  });
+});
+
+describe('findSimilarImages', () => {
+  it('ranks the rest of the gallery by score and drops weak matches', () => {
+    const source = embedded('source', [1, 0, 0]);
+    const close = embedded('close', [0.9, 0.1, 0]);
+    const closer = embedded('closer', [1, 0.01, 0]);
+    const unrelated = embedded('unrelated', [0, 0, 1]);
+    const unindexed = image('unindexed');
+
+    const { label, ranked } = findSimilarImages(source, [source, close, unrelated, closer, unindexed]);
+
+    expect(label).toBe('Similar to "source"');
+    expect(ranked.map(result => result.id)).toEqual(['closer', 'close']);
+  });
+
+  it('returns nothing for an image that is not indexed', () => {
+    expect(findSimilarImages(image('new'), [embedded('a', [1])]).ranked).toEqual([]);
+  });
+});
+
+describe('indexing and search with the mock provider', () => {
+  const previous = getAiSettings();
+
+  beforeAll(() => saveAiSettings({ providerId: 'mock', models: {} }));
+  afterAll(() => saveAiSettings(previous));
+
+  it('embeds only stale images and finds them by shared words', async () => {
+    const gallery = [
+      image('harbour', { analysis: 'Boats moored in a quiet harbour at dawn' }),
+      image('forest', { analysis: 'Tall pine trees in a misty forest' }),
+      image('blank', { title: '' }),
+    ];
+
+    const updates = await indexImages(gallery);
+    expect(Array.from(updates.keys())).toEqual(['harbour', 'forest']);
+    expect(updates.get('harbour')).toMatchObject({ model: 'mock-embedding', text: 'Boats moored in a quiet harbour at dawn' });
+
+    const indexed = withEmbeddings(gallery, updates);
+    expect((await indexImages(indexed)).size).toBe(0);
+
+    const results = await searchImages('  misty forest ', indexed);
+    expect(results.label).toBe('"misty forest"');
+    expect(results.ranked.map(result => result.id)).toEqual(['forest']);
+  });
+
+  it('re-embeds an image whose text changed', async () => {
+    const [first] = withEmbeddings([image('a', { analysis: 'old text' })], await indexImages([image('a', { analysis: 'old text' })]));
+    const updates = await indexImages([{ ...first, analysis: 'new text' }]);
+    expect(updates.get('a')?.text).toBe('new text');
+  });
+});
@@ -0,0 +1,91 @@
+import { ImageItem, ImageEmbedding, SemanticResults } from '../types';
+import { embedTexts, getEmbeddingModel } from './geminiService';
+
+// Results below this cosine similarity are considered unrelated
+const MIN_SCORE = 0.3;
+const MAX_RESULTS = 60;
+
+// --- Helpers ---
+
+// Text an image is indexed by: its analysis, else its generation prompt, else its title.
+// `description` is skipped: imports set the same placeholder on every image,
+// which would give them all one vector.
+export const getEmbeddingText = (image: ImageItem): string => {
+  const text = image.analysis || image.generation?.prompt || image.title || '';
+  return text.trim();
+};
+
+const hasFreshEmbedding = (image: ImageItem): boolean => {
+  const { embedding } = image;
+  return !!embedding
+    && embedding.model === getEmbeddingModel()
+    && embedding.text === getEmbeddingText(image)
+    && embedding.values.length > 0;
+};
+
+export const cosineSimilarity = (a: number[], b: number[]): number => {
+  if (a.length === 0 || a.length !== b.length) return 0;
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  if (normA === 0 || normB === 0) return 0;
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+};
+
+const rankAgainst = (vector: number[], candidates: ImageItem[]): SemanticResults['ranked'] => {
+  return candidates
+    .filter(img => img.embedding)
+    .map(img => ({ id: img.id, score: cosineSimilarity(vector, img.embedding!.values) }))
+    .filter(result => result.score >= MIN_SCORE)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_RESULTS);
+};
+
+// --- Public API ---
+
+// Embed every image whose cached vector is missing or stale.
+// Returns only the new embeddings, keyed by image id, for the caller to merge into state.
+export const indexImages = async (images: ImageItem[]): Promise<Map<string, ImageEmbedding>> => {
+  const stale = images.filter(img => !hasFreshEmbedding(img) && getEmbeddingText(img));
+  const updates = new Map<string, ImageEmbedding>();
+  if (stale.length === 0) return updates;
+
+  const texts = stale.map(getEmbeddingText);
+  const vectors = await embedTexts(texts, 'RETRIEVAL_DOCUMENT');
+
+  stale.forEach((img, i) => {
+    updates.set(img.id, { model: getEmbeddingModel(), text: texts[i], values: vectors[i] });
+  });
+  return updates;
+};
+
+// Apply indexImages() output to a gallery snapshot
+export const withEmbeddings = (images: ImageItem[], updates: Map<string, ImageEmbedding>): ImageItem[] => {
+  if (updates.size === 0) return images;
+  return images.map(img => updates.has(img.id) ? { ...img, embedding: updates.get(img.id) } : img);
+};
+
+// Rank `images` (already indexed) against a natural language query
+export const searchImages = async (query: string, images: ImageItem[]): Promise<SemanticResults> => {
+  const [vector] = await embedTexts([query.trim()], 'RETRIEVAL_QUERY');
+  return {
+    label: `"${query.trim()}"`,
+    ranked: rankAgainst(vector, images),
+  };
+};
+
+// Rank the rest of the gallery by similarity to `source` (both already indexed)
+export const findSimilarImages = (source: ImageItem, images: ImageItem[]): SemanticResults => {
+  if (!source.embedding) return { label: `Similar to "${source.title}"`, ranked: [] };
+
+  return {
+    label: `Similar to "${source.title}"`,
+    ranked: rankAgainst(source.embedding.values, images.filter(img => img.id !== source.id)),
+  };
+};
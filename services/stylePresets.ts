@@ -0,0 +1,118 @@
+import { v4 as uuidv4 } from 'uuid';
+import { GenerationRecord, StylePreset } from '../types';
+import { openDb, requestToPromise, transactionDone, STYLE_PRESETS_STORE } from './db';
+import { ASPECT_RATIOS } from './aiProvider';
+
+// --- Style presets for the generator ---
+
+// Shipped until the user saves their own list, which may be empty
+export const DEFAULT_STYLE_PRESETS: StylePreset[] = [
+  { id: 'original', name: "Original", suffix: "" },
+  { id: 'calming', name: "Calming", suffix: ", minimalist, calming, simple, clean lines, soft lighting" },
+  { id: 'vibrant', name: "Vibrant", suffix: ", vivid, high contrast, neon, dramatic lighting" },
+  { id: 'vintage', name: "Vintage", suffix: ", vintage, retro style, warm tones, pastel color palette" },
+  { id: 'cyberpunk', name: "Cyberpunk", suffix: ", cyberpunk, futuristic, neon lights, high tech, dark atmosphere, cyan and magenta" },
+  { id: 'watercolor', name: "Watercolor", suffix: ", watercolor painting style, artistic, soft blended colors, white background, dreamy" },
+  { id: 'noir', name: "Noir", suffix: ", film noir style, black and white, high contrast, cinematic shadows, dramatic, mysterious" },
+  { id: 'psychedelic', name: "Psychedelic", suffix: ", psychedelic, swirling colors, trippy, abstract, vibrant patterns, hallucinogenic style" }
+];
+
+export const createStylePreset = (): StylePreset => ({ id: uuidv4(), name: 'New Style', suffix: '' });
+
+// Stands in for the styles when the user has none: the prompt as written
+export const NO_STYLE_PRESET: StylePreset = { id: 'none', name: 'No style', suffix: '' };
+
+// Text sent to the model for a generation record
+export const composePrompt = (generation: Pick<GenerationRecord, 'prompt' | 'styleSuffix' | 'negativeHints'>): string => {
+  const hints = generation.negativeHints?.trim();
+  return generation.prompt + generation.styleSuffix + (hints ? `. Avoid: ${hints}` : '');
+};
+
+// --- Persistence ---
+
+// Stored one record per preset, with its place in the list
+type StoredPreset = StylePreset & { position: number };
+
+// Set once the user's own list is saved, so deleting every preset doesn't bring the defaults back
+const SAVED_STORAGE_KEY = 'luminaview.stylePresetsSaved';
+
+const hasSavedPresets = (): boolean => {
+  try {
+    return localStorage.getItem(SAVED_STORAGE_KEY) === 'true';
+  } catch (error) {
+    return false;
+  }
+};
+
+export const loadStylePresets = async (): Promise<StylePreset[]> => {
+  const db = await openDb();
+  const tx = db.transaction(STYLE_PRESETS_STORE, 'readonly');
+  const stored = await requestToPromise(tx.objectStore(STYLE_PRESETS_STORE).getAll() as IDBRequest<StoredPreset[]>);
+  if (stored.length === 0 && !hasSavedPresets()) return DEFAULT_STYLE_PRESETS;
+  return stored
+    .sort((a, b) => a.position - b.position)
+    .map(({ position, ...preset }) => preset);
+};
+
+// The list is small, so it is rewritten on every change
+export const saveStylePresets = async (presets: StylePreset[]): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(STYLE_PRESETS_STORE, 'readwrite');
+  const store = tx.objectStore(STYLE_PRESETS_STORE);
+  store.clear();
+  presets.forEach((preset, position) => store.put({ ...preset, position }));
+  await transactionDone(tx);
+  try {
+    localStorage.setItem(SAVED_STORAGE_KEY, 'true');
+  } catch (error) {
+    console.warn("Failed to remember saved style presets:", error);
+  }
+};
+
+// --- Preset packs ---
+
+const PACK_FORMAT = 'luminaview.stylePresets';
+
+export const exportPresetPack = (presets: StylePreset[]) => {
+  const pack = {
+    format: PACK_FORMAT,
+    version: 1,
+    exportedAt: new Date().toISOString(),
+    presets: presets.map(({ id, ...preset }) => preset),
+  };
+  const blob = new Blob([JSON.stringify(pack, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `lumina-style-presets-${Date.now()}.json`;
+  a.click();
+  URL.revokeObjectURL(url);
+};
+
+const optionalString = (value: unknown) => typeof value === 'string' && value.trim() ? value : undefined;
+
+// Presets from a pack file (or a bare array of presets), with fresh ids so
+// importing never overwrites. Throws when nothing usable is found.
+export const parsePresetPack = (text: string): StylePreset[] => {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    throw new Error('The file is not valid JSON');
+  }
+
+  const entries: unknown[] = Array.isArray(data) ? data : Array.isArray(data?.presets) ? data.presets : [];
+  const presets = entries
+    .filter((entry: any) => entry && typeof entry.name === 'string' && entry.name.trim() && typeof entry.suffix === 'string')
+    .map((entry: any): StylePreset => ({
+      id: uuidv4(),
+      name: entry.name.trim(),
+      suffix: entry.suffix,
+      negativeHints: optionalString(entry.negativeHints),
+      aspectRatio: ASPECT_RATIOS.includes(entry.aspectRatio) ? entry.aspectRatio : undefined,
+      usePro: typeof entry.usePro === 'boolean' ? entry.usePro : undefined,
+    }));
+
+  if (presets.length === 0) throw new Error('No style presets found in the file');
+  return presets;
+};
@@ -0,0 +1,189 @@
+import 'fake-indexeddb/auto';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { ImageItem, SyncBaseEntry, SyncTarget } from '../types';
+import { configureGitHubApi, GitHubFile } from './githubService';
+import { setGitHubToken, forgetGitHubToken } from './credentials';
+import { compareWithRemote, computeGitBlobSha, diffSync, executeSyncPlan, LocalSyncEntry } from './syncEngine';
+
+const target: SyncTarget = { owner: 'octo', repo: 'pics', folder: 'exports' };
+
+const image = (id: string, title = id): ImageItem => ({
+  id,
+  url: `data:image/png;base64,${btoa(id)}`,
+  title,
+  createdAt: 0,
+  source: 'upload',
+  base64Data: btoa(`pixels of ${id}`),
+  mimeType: 'image/png',
+});
+
+const localEntry = (id: string, path: string, sha: string): LocalSyncEntry => ({
+  image: image(id),
+  path,
+  sha,
+  base64: '',
+});
+
+const remoteFile = (path: string, sha: string): GitHubFile => ({
+  name: path.split('/').pop()!,
+  type: 'file',
+  path,
+  sha,
+  size: 1,
+  download_url: `https://raw.example/${path}`,
+});
+
+describe('diffSync', () => {
+  it('classifies files that exist on one side only', () => {
+    const plan = diffSync(target, [localEntry('a', 'exports/a.png', 'sha-a')], [remoteFile('exports/b.png', 'sha-b')], []);
+
+    expect(plan.changes.map(c => [c.kind, c.path, c.action])).toEqual([
+      ['new-local', 'exports/a.png', 'push'],
+      ['new-remote', 'exports/b.png', 'pull'],
+    ]);
+    expect(plan.unchanged).toEqual([]);
+  });
+
+  it('pairs identical content regardless of name', () => {
+    const plan = diffSync(target, [localEntry('a', 'exports/a.png', 'same')], [remoteFile('exports/renamed.png', 'same')], []);
+
+    expect(plan.changes).toEqual([]);
+    expect(plan.unchanged).toEqual([{ path: 'exports/renamed.png', sha: 'same', imageId: 'a' }]);
+  });
+
+  it('uses the last sync to tell which side changed', () => {
+    const base: SyncBaseEntry[] = [
+      { path: 'exports/local.png', sha: 'old', imageId: 'l' },
+      { path: 'exports/remote.png', sha: 'old', imageId: 'r' },
+    ];
+    const plan = diffSync(
+      target,
+      [localEntry('l', 'exports/local.png', 'new'), localEntry('r', 'exports/remote.png', 'old')],
+      [remoteFile('exports/local.png', 'old'), remoteFile('exports/remote.png', 'new')],
+      base
+    );
+
+    expect(plan.changes.map(c => [c.kind, c.path])).toEqual([
+      ['changed-local', 'exports/local.png'],
+      ['changed-remote', 'exports/remote.png'],
+    ]);
+  });
+
+  it('reports deletions on either side of a previous sync', () => {
+    const base: SyncBaseEntry[] = [
+      { path: 'exports/gone-remote.png', sha: 'x', imageId: 'kept' },
+      { path: 'exports/gone-local.png', sha: 'y', imageId: 'removed' },
+    ];
+    const plan = diffSync(target, [localEntry('kept', 'exports/kept.png', 'x')], [remoteFile('exports/gone-local.png', 'y')], base);
+
+    expect(plan.changes.map(c => [c.kind, c.path, c.action])).toEqual([
+      ['deleted-remote', 'exports/gone-remote.png', 'skip'],
+      ['deleted-local', 'exports/gone-local.png', 'skip'],
+    ]);
+  });
+
+  it('flags same-name files without common history as conflicts', () => {
+    const plan = diffSync(target, [localEntry('a', 'exports/a.png', 'mine')], [remoteFile('exports/a.png', 'theirs')], []);
+
+    expect(plan.changes.map(c => [c.kind, c.action])).toEqual([['conflict', 'skip']]);
+  });
+});
+
+// --- Against a local mock of the GitHub contents API ---
+
+interface MockFile {
+  content: string;
+  sha: string;
+}
+
+const createContentsApi = (files: Map<string, MockFile>) => {
+  const requests: string[] = [];
+  const json = (body: unknown, status = 200) => new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+  const fetch = async (input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
+    const url = new URL(String(input));
+    const method = init?.method || 'GET';
+    requests.push(`${method} ${url.pathname}`);
+
+    const contents = url.pathname.match(/^\/repos\/octo\/pics\/contents\/(.+)$/);
+    if (url.pathname === '/repos/octo/pics') {
+      return json({ default_branch: 'main', private: false });
+    }
+    if (!contents) return json({ message: 'Not Found' }, 404);
+
+    const path = decodeURIComponent(contents[1]);
+    if (method === 'GET') {
+      const listing = Array.from(files.entries())
+        .filter(([filePath]) => filePath.startsWith(`${path}/`))
+        .map(([filePath, file]) => remoteFile(filePath, file.sha));
+      return json(listing);
+    }
+    if (method === 'PUT') {
+      const body = JSON.parse(String(init!.body));
+      const existing = files.get(path);
+      if (existing && body.sha !== existing.sha) return json({ message: 'sha does not match' }, 409);
+      files.set(path, { content: body.content, sha: await computeGitBlobSha(body.content) });
+      return json({ content: { path } }, existing ? 200 : 201);
+    }
+    if (method === 'DELETE') {
+      files.delete(path);
+      return json({});
+    }
+    return json({ message: 'Unsupported' }, 405);
+  };
+
+  return { fetch, requests };
+};
+
+describe('sync against the contents API', () => {
+  let files: Map<string, MockFile>;
+  let api: ReturnType<typeof createContentsApi>;
+
+  beforeEach(async () => {
+    files = new Map();
+    api = createContentsApi(files);
+    configureGitHubApi({ baseUrl: 'https://github.mock', fetch: api.fetch, maxRetries: 0 });
+    await setGitHubToken('test-token');
+  });
+
+  afterEach(() => {
+    configureGitHubApi();
+    forgetGitHubToken();
+  });
+
+  it('pushes new local images and pulls new remote ones', async () => {
+    const remoteContent = btoa('remote pixels');
+    files.set('exports/sunset.png', { content: remoteContent, sha: await computeGitBlobSha(remoteContent) });
+    const local = image('local-1', 'Harbour');
+
+    const plan = await compareWithRemote([local], target);
+    expect(plan.changes.map(c => [c.kind, c.path])).toEqual([
+      ['new-local', 'exports/harbour.png'],
+      ['new-remote', 'exports/sunset.png'],
+    ]);
+
+    const result = await executeSyncPlan(plan);
+    expect(result.failed).toEqual([]);
+    expect(files.get('exports/harbour.png')?.content).toBe(local.base64Data);
+    expect(result.added.map(img => img.title)).toEqual(['sunset']);
+    expect(api.requests).toContain('PUT /repos/octo/pics/contents/exports/harbour.png');
+
+    // Both sides now agree, so the next comparison is empty
+    const again = await compareWithRemote([local, ...result.added.map(img => ({ ...img, base64Data: remoteContent }))], target);
+    expect(again.changes).toEqual([]);
+    expect(again.unchanged).toHaveLength(2);
+  });
+
+  it('deletes a remote file when the image was removed locally', async () => {
+    const local = image('local-2', 'Forest');
+    const first = await executeSyncPlan(await compareWithRemote([local], target));
+    expect(first.failed).toEqual([]);
+
+    const plan = await compareWithRemote([], target);
+    expect(plan.changes.map(c => c.kind)).toEqual(['deleted-local']);
+
+    plan.changes[0].action = 'push';
+    await executeSyncPlan(plan);
+    expect(files.has('exports/forest.png')).toBe(false);
+  });
+});
@@ -0,0 +1,346 @@
+import { v4 as uuidv4 } from 'uuid';
+import { ImageItem, SyncTarget, SyncBaseEntry, SyncState } from '../types';
+import { openDb, requestToPromise, transactionDone, SYNC_STATE_STORE } from './db';
+import {
+  GitHubFile,
+  getRepoFiles,
+  uploadImageToGitHub,
+  deleteFileFromGitHub,
+  convertUrlToBase64Simple,
+  fetchGitHubBlob,
+  getRepoInfo
+} from './githubService';
+import { getMimeTypeFromFileName } from './galleryQuery';
+
+// --- Two-way sync between the local gallery and a GitHub folder ---
+//
+// Local images and remote files are paired (by previous sync, then by git
+// blob SHA, then by file name) and each pair is classified against the state
+// recorded at the last successful sync, like a three-way merge.
+
+export type SyncChangeKind =
+  | 'new-local'       // Only exists locally
+  | 'new-remote'      // Only exists in the repo
+  | 'deleted-local'   // Synced before, since removed from the gallery
+  | 'deleted-remote'  // Synced before, since removed from the repo
+  | 'changed-local'   // Both exist, only the local copy changed
+  | 'changed-remote'  // Both exist, only the remote copy changed
+  | 'conflict';       // Same name, different content, no common history
+
+export type SyncAction = 'push' | 'pull' | 'skip';
+
+export interface LocalSyncEntry {
+  image: ImageItem;
+  path: string;
+  sha: string;
+  base64: string;
+}
+
+export interface SyncChange {
+  kind: SyncChangeKind;
+  path: string;
+  local?: LocalSyncEntry;
+  remote?: GitHubFile;
+  action: SyncAction;
+}
+
+export interface SyncPlan {
+  target: SyncTarget;
+  changes: SyncChange[];
+  // Pairs that are already identical on both sides
+  unchanged: SyncBaseEntry[];
+}
+
+export interface SyncResult {
+  added: ImageItem[];
+  replaced: ImageItem[];
+  removedIds: string[];
+  failed: { path: string; error: string }[];
+  state: SyncState;
+}
+
+// Which actions make sense per change, in the order offered to the user
+export const SYNC_ACTIONS: Record<SyncChangeKind, SyncAction[]> = {
+  'new-local': ['push', 'skip'],
+  'new-remote': ['pull', 'skip'],
+  'deleted-local': ['skip', 'push', 'pull'],   // push = delete remote, pull = restore locally
+  'deleted-remote': ['skip', 'pull', 'push'],  // pull = delete locally, push = re-upload
+  'changed-local': ['push', 'pull', 'skip'],
+  'changed-remote': ['pull', 'push', 'skip'],
+  'conflict': ['skip', 'push', 'pull'],        // push = keep local, pull = keep remote
+};
+
+// --- Helpers ---
+
+export const getSyncKey = (target: SyncTarget) => `${target.owner}/${target.repo}/${target.folder}`;
+
+const joinPath = (folder: string, fileName: string) => folder ? `${folder}/${fileName}` : fileName;
+
+const baseName = (path: string) => path.split('/').pop() || path;
+
+// Same scheme ExportModal has always used: `<safe title>[_n].<ext>`, unique within the batch
+export const assignExportFileNames = (images: ImageItem[]): Map<string, string> => {
+  const usedNames = new Set<string>();
+  const names = new Map<string, string>();
+
+  images.forEach(img => {
+    const extension = img.mimeType ? img.mimeType.split('/')[1] : 'png';
+    const safeTitle = img.title.replace(/[^a-z0-9]/gi, '_').toLowerCase();
+
+    let fileName = `${safeTitle}.${extension}`;
+    let counter = 1;
+    while (usedNames.has(fileName)) {
+      fileName = `${safeTitle}_${counter}.${extension}`;
+      counter++;
+    }
+    usedNames.add(fileName);
+    names.set(img.id, fileName);
+  });
+
+  return names;
+};
+
+// Git blob SHA-1: sha1("blob <size>\0" + content), matching the `sha` GitHub reports
+export const computeGitBlobSha = async (base64: string): Promise<string> => {
+  const binary = atob(base64);
+  const header = new TextEncoder().encode(`blob ${binary.length}\0`);
+  const bytes = new Uint8Array(header.length + binary.length);
+  bytes.set(header, 0);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[header.length + i] = binary.charCodeAt(i);
+  }
+
+  const digest = await crypto.subtle.digest('SHA-1', bytes);
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+// --- Diff ---
+
+// Pure classification step, kept free of I/O so it can be tested directly
+export const diffSync = (
+  target: SyncTarget,
+  local: LocalSyncEntry[],
+  remote: GitHubFile[],
+  base: SyncBaseEntry[]
+): SyncPlan => {
+  const baseByImage = new Map(base.map(e => [e.imageId, e]));
+  const baseByPath = new Map(base.map(e => [e.path, e]));
+  const remoteByPath = new Map(remote.map(f => [f.path, f]));
+
+  const pairs: { local?: LocalSyncEntry; remote?: GitHubFile }[] = [];
+  const unpairedLocal: LocalSyncEntry[] = [];
+  const pairedRemote = new Set<string>();
+
+  // 1. Pair by previous sync (the image keeps its remote path even if renamed locally)
+  local.forEach(entry => {
+    const prev = baseByImage.get(entry.image.id);
+    const file = prev && remoteByPath.get(prev.path);
+    if (prev && file && !pairedRemote.has(file.path)) {
+      pairs.push({ local: { ...entry, path: prev.path }, remote: file });
+      pairedRemote.add(file.path);
+    } else if (prev) {
+      // Synced before but gone remotely
+      pairs.push({ local: { ...entry, path: prev.path } });
+    } else {
+      unpairedLocal.push(entry);
+    }
+  });
+
+  // 2. Pair by content: identical bytes are the same image whatever the name
+  const remoteBySha = new Map<string, GitHubFile>();
+  remote.forEach(f => {
+    if (!pairedRemote.has(f.path) && !remoteBySha.has(f.sha)) remoteBySha.set(f.sha, f);
+  });
+  const stillUnpaired: LocalSyncEntry[] = [];
+  unpairedLocal.forEach(entry => {
+    const file = remoteBySha.get(entry.sha);
+    if (file && !pairedRemote.has(file.path)) {
+      pairs.push({ local: { ...entry, path: file.path }, remote: file });
+      pairedRemote.add(file.path);
+    } else {
+      stillUnpaired.push(entry);
+    }
+  });
+
+  // 3. Pair by name: same path with different content is a conflict
+  stillUnpaired.forEach(entry => {
+    const file = remoteByPath.get(entry.path);
+    if (file && !pairedRemote.has(file.path)) {
+      pairs.push({ local: entry, remote: file });
+      pairedRemote.add(file.path);
+    } else {
+      pairs.push({ local: entry });
+    }
+  });
+
+  remote.forEach(file => {
+    if (!pairedRemote.has(file.path)) pairs.push({ remote: file });
+  });
+
+  // Classify
+  const changes: SyncChange[] = [];
+  const unchanged: SyncBaseEntry[] = [];
+  const change = (kind: SyncChangeKind, path: string, pair: typeof pairs[number]) => {
+    changes.push({ kind, path, ...pair, action: SYNC_ACTIONS[kind][0] });
+  };
+
+  pairs.forEach(pair => {
+    const { local: l, remote: r } = pair;
+
+    if (l && r) {
+      if (l.sha === r.sha) {
+        unchanged.push({ path: r.path, sha: r.sha, imageId: l.image.id });
+        return;
+      }
+      const prev = baseByPath.get(r.path);
+      if (prev?.sha === r.sha) change('changed-local', r.path, pair);
+      else if (prev?.sha === l.sha) change('changed-remote', r.path, pair);
+      else change('conflict', r.path, pair);
+    } else if (l) {
+      change(baseByImage.has(l.image.id) ? 'deleted-remote' : 'new-local', l.path, pair);
+    } else if (r) {
+      change(baseByPath.has(r.path) ? 'deleted-local' : 'new-remote', r.path, pair);
+    }
+  });
+
+  return { target, changes, unchanged };
+};
+
+// Fetch the remote listing, hash every local image and diff against the last sync
+export const compareWithRemote = async (
+  images: ImageItem[],
+  target: SyncTarget,
+  onProgress?: (message: string) => void
+): Promise<SyncPlan> => {
+  onProgress?.('Listing remote files...');
+  const [remote, state] = await Promise.all([
+    getRepoFiles(target.owner, target.repo, target.folder),
+    loadSyncState(target)
+  ]);
+
+  const fileNames = assignExportFileNames(images);
+  const local: LocalSyncEntry[] = [];
+
+  for (let i = 0; i < images.length; i++) {
+    const img = images[i];
+    onProgress?.(`Hashing ${i + 1}/${images.length}: ${img.title}...`);
+    try {
+      const base64 = img.base64Data || await convertUrlToBase64Simple(img.url);
+      local.push({
+        image: img,
+        path: joinPath(target.folder, fileNames.get(img.id)!),
+        sha: await computeGitBlobSha(base64),
+        base64
+      });
+    } catch (err) {
+      console.error(`Could not read ${img.title} for sync`, err);
+    }
+  }
+
+  return diffSync(target, local, remote, state?.entries || []);
+};
+
+// --- Execute ---
+
+// Where a pulled image is displayed from. Private repo URLs carry a short-lived
+// token, so those files are downloaded through the API and kept locally.
+const loadRemoteImage = async (target: SyncTarget, file: GitHubFile, isPrivate: boolean): Promise<Partial<ImageItem>> => {
+  const url = file.download_url.split('?')[0];
+  if (!isPrivate) {
+    return { url, thumbnailUrl: url, base64Data: undefined, mimeType: undefined, fileSize: undefined, sourceUrl: undefined };
+  }
+
+  const base64Data = await fetchGitHubBlob(target.owner, target.repo, file.sha);
+  const mimeType = getMimeTypeFromFileName(file.name) || 'image/png';
+  const dataUrl = `data:${mimeType};base64,${base64Data}`;
+  return { url: dataUrl, thumbnailUrl: dataUrl, base64Data, mimeType, fileSize: undefined, sourceUrl: url };
+};
+
+export const executeSyncPlan = async (
+  plan: SyncPlan,
+  onProgress?: (message: string, done: number, total: number) => void
+): Promise<SyncResult> => {
+  const { owner, repo, folder } = plan.target;
+  const result: Omit<SyncResult, 'state'> = { added: [], replaced: [], removedIds: [], failed: [] };
+  const entries: SyncBaseEntry[] = [...plan.unchanged];
+  const pending = plan.changes.filter(c => c.action !== 'skip');
+  const { isPrivate } = await getRepoInfo(owner, repo);
+
+  // Skipped items keep whatever base they had, so they are offered again next time
+  const previous = await loadSyncState(plan.target);
+  const previousByPath = new Map((previous?.entries || []).map(e => [e.path, e]));
+  plan.changes
+    .filter(c => c.action === 'skip' && previousByPath.has(c.path))
+    .forEach(c => entries.push(previousByPath.get(c.path)!));
+
+  for (let i = 0; i < pending.length; i++) {
+    const c = pending[i];
+    const { local: l, remote: r } = c;
+    onProgress?.(`${c.action === 'push' ? 'Pushing' : 'Pulling'} ${baseName(c.path)}...`, i, pending.length);
+
+    try {
+      if (c.action === 'push') {
+        if (l) {
+          // Create or update (passing the remote SHA when replacing a file)
+          const dir = c.path.split('/').slice(0, -1).join('/');
+          await uploadImageToGitHub(owner, repo, dir, baseName(c.path), l.base64, r?.sha);
+          entries.push({ path: c.path, sha: l.sha, imageId: l.image.id });
+        } else if (r) {
+          // Deleted locally -> delete remotely
+          await deleteFileFromGitHub(owner, repo, r.path, r.sha, `Delete ${r.name} via LuminaView sync`);
+        }
+      } else {
+        if (r && l) {
+          // Keep remote: swap the local image for the repo copy, keeping its id
+          result.replaced.push({
+            ...l.image,
+            ...await loadRemoteImage(plan.target, r, isPrivate),
+            embedding: undefined
+          });
+          entries.push({ path: r.path, sha: r.sha, imageId: l.image.id });
+        } else if (r) {
+          const image: ImageItem = {
+            id: uuidv4(),
+            url: '',
+            title: r.name.split('.')[0] || 'Image',
+            createdAt: Date.now(),
+            source: 'url',
+            ...await loadRemoteImage(plan.target, r, isPrivate)
+          };
+          result.added.push(image);
+          entries.push({ path: r.path, sha: r.sha, imageId: image.id });
+        } else if (l) {
+          // Deleted remotely -> delete locally
+          result.removedIds.push(l.image.id);
+        }
+      }
+    } catch (err: any) {
+      console.error(`Sync failed for ${c.path}`, err);
+      result.failed.push({ path: c.path, error: err.message || 'Unknown error' });
+      const prev = previousByPath.get(c.path);
+      if (prev) entries.push(prev);
+    }
+  }
+
+  onProgress?.('Saving sync state...', pending.length, pending.length);
+  const state: SyncState = { key: getSyncKey(plan.target), entries, syncedAt: Date.now() };
+  await saveSyncState(state);
+
+  return { ...result, state };
+};
+
+// --- Persistence ---
+
+export const loadSyncState = async (target: SyncTarget): Promise<SyncState | null> => {
+  const db = await openDb();
+  const tx = db.transaction(SYNC_STATE_STORE, 'readonly');
+  const state = await requestToPromise(tx.objectStore(SYNC_STATE_STORE).get(getSyncKey(target)) as IDBRequest<SyncState | undefined>);
+  return state || null;
+};
+
+export const saveSyncState = async (state: SyncState): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(SYNC_STATE_STORE, 'readwrite');
+  tx.objectStore(SYNC_STATE_STORE).put(state);
+  await transactionDone(tx);
+};
@@ -0,0 +1,53 @@
+import { ImageItem, ImageSidecar } from '../types';
+
+// Lowercase, trimmed, single-spaced
+export const normalizeTag = (tag: string): string => {
+  return tag.trim().toLowerCase().replace(/\s+/g, ' ');
+};
+
+export const mergeTags = (existing: string[] = [], added: string[] = []): string[] => {
+  const result = new Set(existing.map(normalizeTag));
+  added.map(normalizeTag).filter(Boolean).forEach(tag => result.add(tag));
+  return Array.from(result);
+};
+
+// Distinct tags present in the gallery with their usage count, most used first
+export const collectTags = (images: ImageItem[]): { tag: string; count: number }[] => {
+  const counts = new Map<string, number>();
+  images.forEach(img => {
+    (img.tags || []).forEach(tag => counts.set(tag, (counts.get(tag) || 0) + 1));
+  });
+  return Array.from(counts.entries())
+    .map(([tag, count]) => ({ tag, count }))
+    .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+};
+
+// --- Sidecar JSON (round-trips metadata through GitHub exports) ---
+
+export const getSidecarFileName = (imageFileName: string) => `${imageFileName}.json`;
+
+export const toSidecar = (image: ImageItem): ImageSidecar => ({
+  version: 1,
+  title: image.title,
+  description: image.description,
+  analysis: image.analysis,
+  tags: image.tags,
+  source: image.source,
+  createdAt: image.createdAt,
+});
+
+// Apply a sidecar (possibly from an untrusted repo) onto an imported image
+export const applySidecar = (image: ImageItem, sidecar: Partial<ImageSidecar>): ImageItem => {
+  const tags = Array.isArray(sidecar.tags)
+    ? mergeTags([], sidecar.tags.filter((t): t is string => typeof t === 'string'))
+    : undefined;
+
+  return {
+    ...image,
+    title: typeof sidecar.title === 'string' && sidecar.title ? sidecar.title : image.title,
+    description: typeof sidecar.description === 'string' ? sidecar.description : image.description,
+    analysis: typeof sidecar.analysis === 'string' ? sidecar.analysis : image.analysis,
+    createdAt: typeof sidecar.createdAt === 'number' ? sidecar.createdAt : image.createdAt,
+    tags: tags && tags.length > 0 ? tags : image.tags,
+  };
+};
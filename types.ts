@@ -0,0 +1,253 @@
+export type ImageSource = 'upload' | 'url' | 'generated';
+
+export interface ImageItem {
+  id: string;
+  url: string;
+  thumbnailUrl?: string;
+  title: string;
+  description?: string;
+  createdAt: number;
+  source: ImageSource;
+  // Raw base64 payload (no data URL prefix) for uploaded/generated images
+  base64Data?: string;
+  mimeType?: string;
+  // Size of the image file in bytes, when known
+  fileSize?: number;
+  // Cached Gemini description from the viewer's "Analyze Image"
+  analysis?: string;
+  // Cached text embedding used for semantic search
+  embedding?: ImageEmbedding;
+  // User-editable labels, lowercase
+  tags?: string[];
+  // Folder the file was imported from, relative to the repo root (e.g. "trips/2024")
+  folderPath?: string;
+  // Original remote URL when `url` holds a local copy (e.g. images from private repos)
+  sourceUrl?: string;
+  // SHA-256 of the file bytes and 64-bit pHash (hex), for duplicate detection
+  contentHash?: string;
+  perceptualHash?: string;
+  // Set when the file could not be read for hashing (e.g. CORS), so it is not retried
+  fingerprintFailed?: boolean;
+  // Non-destructive edits applied on top of the original file, in order
+  edits?: ImageEdit[];
+  // Image this one was made from (AI edit or remix)
+  parentId?: string;
+  // Settings a generated image was made with, enough to make it again
+  generation?: GenerationRecord;
+}
+
+export interface GenerationRecord {
+  // The prompt as typed, without the style suffix
+  prompt: string;
+  // Style preset label and the text it appended ('' for "Original")
+  style: string;
+  styleSuffix: string;
+  // What the preset asked the model to leave out
+  negativeHints?: string;
+  // Library prompt this came from, and the values its template variables took
+  promptId?: string;
+  variables?: Record<string, string>;
+  model: string;
+  usePro: boolean;
+  aspectRatio: ImageAspectRatio;
+  // Unset for models with a fixed output size
+  imageSize?: ImageSize;
+  // Gallery images sent along with the prompt
+  references?: GenerationReference[];
+}
+
+// How the model should use a reference image: copy its look, or keep its subject
+export type ReferenceRole = 'style' | 'subject';
+
+export interface GenerationReference {
+  imageId: string;
+  role: ReferenceRole;
+}
+
+export type ImageAspectRatio = '1:1' | '2:3' | '3:2' | '3:4' | '4:3' | '4:5' | '5:4' | '9:16' | '16:9' | '21:9';
+
+// Output resolution class, for models that let you pick one
+export type ImageSize = '1K' | '2K' | '4K';
+
+// What a saved prompt is written for: the image generator or the 3D visualizer
+export type PromptTarget = 'image' | 'scene';
+
+// Prompt kept in the library. `text` may contain `{variable}` placeholders.
+export interface SavedPrompt {
+  id: string;
+  title: string;
+  text: string;
+  // Slash-separated folder path, '' for the top level
+  folder: string;
+  target: PromptTarget;
+  // Last values used for each template variable
+  variables?: Record<string, string[]>;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// A named prompt suffix for the generator. The aspect ratio and model, when
+// set, override the generator's own choice for images made with this preset.
+export interface StylePreset {
+  id: string;
+  name: string;
+  suffix: string;
+  negativeHints?: string;
+  aspectRatio?: ImageAspectRatio;
+  usePro?: boolean;
+}
+
+// Pixels from the generator, before they become a gallery image
+export interface GeneratedImage {
+  base64: string;
+  mimeType: string;
+  generation: GenerationRecord;
+  // Image being remixed, if any
+  parentId?: string;
+}
+
+export type GenerationJobStatus = 'queued' | 'running' | 'done' | 'failed' | 'cancelled';
+
+// One image waiting in, or finished by, the background generation queue
+export interface GenerationJob {
+  id: string;
+  generation: GenerationRecord;
+  parentId?: string;
+  // The images behind `generation.references`, read when the job starts
+  referenceImages?: ImageItem[];
+  status: GenerationJobStatus;
+  error?: string;
+  attempts: number;
+  createdAt: number;
+}
+
+// One step of an image's edit stack. Crop rectangles are fractions (0-1) of
+// the image as it is at that step, so they survive an earlier resize.
+export type ImageEdit =
+  | { type: 'crop'; aspect: string; x: number; y: number; width: number; height: number }
+  | { type: 'rotate'; degrees: 90 | 180 | 270 }
+  | { type: 'flip'; axis: 'horizontal' | 'vertical' }
+  // Exposure in stops (-2..2), contrast and saturation in percent (-100..100)
+  | { type: 'adjust'; exposure: number; contrast: number; saturation: number }
+  | { type: 'resize'; width: number; height: number };
+
+// What to do when an imported image is already in the gallery
+export type ImportDuplicatePolicy = 'skip' | 'keep-both' | 'replace';
+
+export interface ImageEmbedding {
+  model: string;
+  // The text that was embedded; a mismatch means the vector is stale
+  text: string;
+  values: number[];
+}
+
+export interface Album {
+  id: string;
+  name: string;
+  imageIds: string[];
+  // Folder inside the export repository this album maps to
+  githubPath: string;
+  createdAt: number;
+}
+
+export type GallerySortKey = 'createdAt' | 'title' | 'size';
+
+export interface GalleryQuery {
+  text: string;
+  sources: ImageSource[];
+  mimeTypes: string[];
+  tags: string[];
+  // Only show images in this folder and its subfolders ('' = everywhere)
+  folder: string;
+  sortBy: GallerySortKey;
+  sortDir: 'asc' | 'desc';
+}
+
+// Ranked result set from a semantic search or "find similar"
+export interface SemanticResults {
+  label: string;
+  ranked: { id: string; score: number }[];
+}
+
+// Metadata written as `<image file>.json` next to each exported image
+export interface ImageSidecar {
+  version: 1;
+  title: string;
+  description?: string;
+  analysis?: string;
+  tags?: string[];
+  source: ImageSource;
+  createdAt: number;
+}
+
+// One image picked in the "Add from URL" dialog
+export interface UrlImport {
+  url: string;
+  // Image bytes, for files that can't be loaded from `url` directly (private repos)
+  content?: { base64: string; mimeType: string };
+  // Metadata found next to the image in the repo
+  sidecar?: Partial<ImageSidecar>;
+  folderPath?: string;
+}
+
+// --- GitHub Sync ---
+
+export interface SyncTarget {
+  owner: string;
+  repo: string;
+  folder: string;
+}
+
+// What a file looked like the last time local and remote agreed on it
+export interface SyncBaseEntry {
+  path: string;
+  sha: string;
+  imageId: string;
+}
+
+export interface SyncState {
+  // `${owner}/${repo}/${folder}`
+  key: string;
+  entries: SyncBaseEntry[];
+  syncedAt: number;
+}
+
+// --- Export Jobs ---
+
+export type ExportMode = 'single-commit' | 'one-by-one';
+
+// Progress of an export, persisted so an interrupted run can be resumed
+export interface ExportJob {
+  // `${owner}/${repo}/${folder}`, one job per target
+  key: string;
+  target: SyncTarget;
+  mode: ExportMode;
+  imageIds: string[];
+  // One-by-one mode: images already uploaded (or found to exist)
+  completedIds: string[];
+  // Single-commit mode: blobs already uploaded, by repo path
+  blobShas: Record<string, string>;
+  startedAt: number;
+  updatedAt: number;
+}
+
+// --- Repo Cleanup Journal ---
+
+// One file touched by a cleanup commit; `to` is null for a permanent delete
+export interface CleanupMove {
+  from: string;
+  to: string | null;
+  sha: string;
+}
+
+// Record of a cleanup commit, enough to put every file back where it was
+export interface CleanupJournalEntry {
+  id: string;
+  owner: string;
+  repo: string;
+  mode: 'trash' | 'restore' | 'delete';
+  moves: CleanupMove[];
+  commitSha: string;
+  createdAt: number;
+  undoneAt?: number;
+}